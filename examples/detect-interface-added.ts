@@ -1,4 +1,4 @@
-import {OVSDBClient, type OvsSet, type Uuid} from "../src";
+import {OVSDBClient, OvsdbChangeFeed, type OvsSet, type Uuid} from "../src";
 
 type OpenVSwitchDb = {
     Bridge: {
@@ -20,7 +20,8 @@ type OpenVSwitchDb = {
  *
  * OVSDB normally reports row changes, not a single high-level event like
  * "interface attached to bridge", so this example derives that meaning from
- * `Bridge.ports` modifications.
+ * `Bridge.ports` modifications. The change feed computes the added set
+ * members, whatever notification format the monitor uses.
  */
 async function main(): Promise<void> {
     const client = new OVSDBClient<OpenVSwitchDb>();
@@ -28,38 +29,23 @@ async function main(): Promise<void> {
     try {
         await client.connect();
 
-        client.on("update", (notification) => {
-            const [, updates] = notification.params;
-            const bridgeUpdates = updates.Bridge;
-            if (!bridgeUpdates) {
-                return;
-            }
-
-            for (const rowUpdate of Object.values(bridgeUpdates)) {
-                const oldPorts = rowUpdate.old?.ports?.[1] ?? [];
-                const newPorts = rowUpdate.new?.ports?.[1] ?? [];
-
-                if (newPorts.length > oldPorts.length) {
-                    console.log("A port was attached to a bridge", {
-                        bridgeName: rowUpdate.new?.name ?? rowUpdate.old?.name,
-                        oldPorts,
-                        newPorts
-                    });
-                }
+        const feed = new OvsdbChangeFeed(client, {
+            tables: {
+                Bridge: {columns: ["name", "ports"]}
             }
         });
 
-        await client.monitor("Open_vSwitch", "bridge-watch", {
-            Bridge: {
-                columns: ["name", "ports"],
-                select: {
-                    initial: false,
-                    insert: false,
-                    modify: true,
-                    delete: false
-                }
+        feed.table("Bridge").on("updated", ({new: bridge, changes}) => {
+            const attached = changes.ports?.added ?? [];
+            if (attached.length > 0) {
+                console.log("A port was attached to a bridge", {
+                    bridgeName: bridge.name,
+                    attached: attached.map(([, uuid]) => uuid)
+                });
             }
         });
+
+        await feed.start();
     } finally {
         await client.close();
     }
@@ -0,0 +1,566 @@
+import {EventEmitter} from "node:events";
+
+import {stringifyJson} from "./json";
+import {applyRowUpdate, diffColumn, normalizeRow} from "./rows";
+import {resolveTableColumns} from "./schema";
+import type {OVSDBClient, OvsdbMonitorMethod, OvsdbRequestOptions, OvsdbRpcError, OvsdbSessionRestore} from "./index";
+import type {QueryRow} from "./query";
+import type {ColumnChange} from "./rows";
+import type {ColumnInfo} from "./schema";
+import type {
+    DatabaseSchema,
+    DatabaseTableMap,
+    JsonValue,
+    MonitorCondRequest,
+    MonitorCondSinceResult,
+    OvsdbNotification,
+    OvsMap,
+    OvsSet,
+    RowRecord,
+    RowUpdate,
+    RowUpdate2,
+    TableName,
+    TableRow,
+    TableUpdates,
+    TableUpdates2,
+    Uuid
+} from "./types";
+
+/**
+ * Change of a scalar column.
+ */
+export interface OvsdbScalarDiff<TValue> {
+    kind: "scalar";
+    old: TValue;
+    new: TValue;
+}
+
+/**
+ * Change of a set column, including optional columns.
+ */
+export interface OvsdbSetDiff<TValue, TElement> {
+    kind: "set";
+    old: TValue;
+    new: TValue;
+    /**
+     * Elements present only in the new value.
+     */
+    added: TElement[];
+    /**
+     * Elements present only in the old value.
+     */
+    removed: TElement[];
+}
+
+/**
+ * Change of a map column.
+ */
+export interface OvsdbMapDiff<TValue, TKey, TItem> {
+    kind: "map";
+    old: TValue;
+    new: TValue;
+    /**
+     * Pairs whose key is present only in the new value.
+     */
+    added: Array<[TKey, TItem]>;
+    /**
+     * Pairs whose key is present only in the old value.
+     */
+    removed: Array<[TKey, TItem]>;
+    /**
+     * Keys present in both values with a different value, as
+     * `[key, oldValue, newValue]`.
+     */
+    changed: Array<[TKey, TItem, TItem]>;
+}
+
+/**
+ * Change of one column, typed after the column's wire value.
+ */
+export type OvsdbColumnDiff<TValue> =
+    [TValue] extends [OvsMap<infer TKey, infer TItem>] ? OvsdbMapDiff<TValue, TKey, TItem> :
+        [TValue] extends [OvsSet<infer TElement>] ? OvsdbSetDiff<TValue, TElement> :
+            OvsdbScalarDiff<TValue>;
+
+/**
+ * Changed columns of an updated row. Unchanged columns are absent.
+ */
+export type OvsdbRowDiff<
+    TDatabase extends DatabaseTableMap,
+    TTable extends TableName<TDatabase>
+> = {
+    [TColumn in keyof TableRow<TDatabase, TTable>]?: OvsdbColumnDiff<Exclude<TableRow<TDatabase, TTable>[TColumn], undefined>>;
+};
+
+/**
+ * Row that appeared in a monitored table.
+ */
+export interface OvsdbRowInserted<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TTable extends TableName<TDatabase> = TableName<TDatabase>
+> {
+    table: TTable;
+    uuid: Uuid;
+    row: QueryRow<TDatabase, TTable>;
+    /**
+     * `true` when the row came from a monitor reply snapshot rather than a
+     * notification.
+     */
+    initial: boolean;
+}
+
+/**
+ * Row of a monitored table whose monitored columns changed.
+ */
+export interface OvsdbRowUpdated<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TTable extends TableName<TDatabase> = TableName<TDatabase>
+> {
+    table: TTable;
+    uuid: Uuid;
+    old: QueryRow<TDatabase, TTable>;
+    new: QueryRow<TDatabase, TTable>;
+    changes: OvsdbRowDiff<TDatabase, TTable>;
+}
+
+/**
+ * Row that disappeared from a monitored table.
+ */
+export interface OvsdbRowDeleted<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TTable extends TableName<TDatabase> = TableName<TDatabase>
+> {
+    table: TTable;
+    uuid: Uuid;
+    row: QueryRow<TDatabase, TTable>;
+}
+
+/**
+ * Events emitted by the per-table emitters of an {@link OvsdbChangeFeed}.
+ */
+export interface OvsdbTableChangeEvents<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TTable extends TableName<TDatabase> = TableName<TDatabase>
+> {
+    inserted: [OvsdbRowInserted<TDatabase, TTable>];
+    updated: [OvsdbRowUpdated<TDatabase, TTable>];
+    deleted: [OvsdbRowDeleted<TDatabase, TTable>];
+}
+
+/**
+ * Row change events of one table, returned by {@link OvsdbChangeFeed.table}.
+ */
+export class OvsdbTableChanges<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TTable extends TableName<TDatabase> = TableName<TDatabase>
+> extends EventEmitter<OvsdbTableChangeEvents<TDatabase, TTable>> {
+    /**
+     * Table name.
+     */
+    public readonly table: TTable;
+
+    /**
+     * Creates the emitter. Use {@link OvsdbChangeFeed.table} instead of
+     * calling this directly.
+     */
+    constructor(table: TTable) {
+        super();
+        this.table = table;
+    }
+}
+
+/**
+ * Settings for an {@link OvsdbChangeFeed}.
+ */
+export interface OvsdbChangeFeedOptions<TDatabase extends DatabaseTableMap = DatabaseTableMap> {
+    /**
+     * Database to monitor.
+     *
+     * @defaultValue `"Open_vSwitch"`
+     */
+    database?: string;
+
+    /**
+     * Tables to monitor, with optional column lists and, except for
+     * `monitor`, `where` clauses.
+     */
+    tables: Partial<Record<TableName<TDatabase>, MonitorCondRequest<TDatabase>>>;
+
+    /**
+     * Monitor method used, which decides the notification format.
+     *
+     * @defaultValue `"monitor_cond"`
+     */
+    method?: OvsdbMonitorMethod;
+
+    /**
+     * Monitor id of the underlying monitor.
+     *
+     * @defaultValue `"changes:<database>"`
+     */
+    monitorId?: JsonValue;
+}
+
+/**
+ * Events emitted by {@link OvsdbChangeFeed}.
+ */
+export interface OvsdbChangeFeedEvents {
+    /**
+     * The server rejected the monitor when it was re-issued after a reconnect;
+     * the feed no longer receives updates.
+     */
+    stale: [OvsdbRpcError];
+}
+
+interface FeedTable {
+    columns: Map<string, ColumnInfo>;
+    rows: Map<string, RowRecord>;
+    changes: OvsdbTableChanges;
+}
+
+type FeedTableChanges<TDatabase extends DatabaseTableMap> = {
+    [TTable in TableName<TDatabase>]?: OvsdbTableChanges<TDatabase, TTable>;
+};
+
+type FeedUpdates =
+    | {method: "update"; updates: TableUpdates}
+    | {method: "update2"; updates: TableUpdates2};
+
+/**
+ * Row-level change events for monitored tables.
+ *
+ * The feed runs its own monitor and turns `update`, `update2`, and `update3`
+ * notifications into the same typed `inserted`, `updated`, and `deleted`
+ * events, with a per-column diff for updates. It keeps the last known version
+ * of every monitored row to compute diffs, and after a reconnect compares the
+ * re-issued monitor's snapshot with it, so only real changes are reported.
+ *
+ * {@link start} throws when the client uses `decodeValues`.
+ */
+export class OvsdbChangeFeed<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap
+> extends EventEmitter<OvsdbChangeFeedEvents> implements AsyncDisposable {
+    /**
+     * Monitored database.
+     */
+    public readonly database: string;
+
+    /**
+     * Monitor method used by the feed.
+     */
+    public readonly method: OvsdbMonitorMethod;
+
+    private readonly client: OVSDBClient<TDatabase>;
+    private readonly requests: Record<string, MonitorCondRequest<TDatabase>>;
+    private readonly monitorId: JsonValue;
+    private readonly monitorKey: string;
+    private readonly tables = new Map<string, FeedTable>();
+    private readonly tableChanges: FeedTableChanges<TDatabase> = {};
+    private transactionId: string | null = null;
+    private buffered: OvsdbNotification<TDatabase>[] | null = null;
+    private started = false;
+
+    /**
+     * Creates a feed. Subscribe through {@link table}, then call
+     * {@link start}.
+     *
+     * @throws Error When a table has `where` clauses and the method is
+     * `monitor`, which cannot filter rows.
+     */
+    constructor(client: OVSDBClient<TDatabase>, options: OvsdbChangeFeedOptions<TDatabase>) {
+        super();
+        this.client = client;
+        this.database = options.database ?? "Open_vSwitch";
+        this.method = options.method ?? "monitor_cond";
+        this.requests = options.tables as Record<string, MonitorCondRequest<TDatabase>>;
+        this.monitorId = options.monitorId ?? `changes:${this.database}`;
+        this.monitorKey = stringifyJson(this.monitorId);
+        for (const [table, request] of Object.entries(this.requests) as Array<[TableName<TDatabase>, MonitorCondRequest<TDatabase>]>) {
+            if (this.method === "monitor" && request.where !== undefined) {
+                throw new Error(`Table ${table} has where clauses, which the monitor method does not support`);
+            }
+            this.tables.set(table, {columns: new Map(), rows: new Map(), changes: this.createTableChanges(table)});
+        }
+    }
+
+    /**
+     * Returns the change events of a monitored table.
+     *
+     * @throws Error When the table is not monitored by the feed.
+     */
+    public table<TTable extends TableName<TDatabase>>(table: TTable): OvsdbTableChanges<TDatabase, TTable> {
+        const changes = this.tableChanges[table];
+        if (!changes) {
+            throw new Error(`Table ${table} is not monitored by this feed`);
+        }
+        return changes;
+    }
+
+    /**
+     * Fetches the schema and starts the monitor. Rows of the initial snapshot
+     * are reported as `inserted` with `initial` set.
+     *
+     * @throws Error When the client uses `decodeValues`.
+     */
+    public async start(options?: OvsdbRequestOptions): Promise<this> {
+        if (this.started) {
+            return this;
+        }
+        if (this.client.decodesValues) {
+            throw new Error("The feed needs wire values; create the client without decodeValues");
+        }
+
+        this.resolveColumns(await this.client.getSchema(this.database, options));
+        this.client.on("notification", this.handleNotification);
+        this.client.on("close", this.handleClose);
+        this.client.on("reconnected", this.handleReconnected);
+        this.started = true;
+        this.buffered = [];
+
+        try {
+            await this.issueMonitor(options);
+        } catch (error) {
+            this.detach();
+            throw error;
+        }
+
+        return this;
+    }
+
+    /**
+     * Cancels the monitor and stops emitting events.
+     */
+    public async stop(options?: OvsdbRequestOptions): Promise<void> {
+        if (!this.started) {
+            return;
+        }
+
+        this.detach();
+        if (this.client.isConnected) {
+            await this.client.monitorCancel(this.monitorId, options);
+        }
+    }
+
+    /**
+     * Stops the feed.
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.stop().catch(() => undefined);
+    }
+
+    private async issueMonitor(options?: OvsdbRequestOptions): Promise<void> {
+        switch (this.method) {
+            case "monitor":
+                this.applySnapshot({
+                    method: "update",
+                    updates: (await this.client.monitor(this.database, this.monitorId, this.requests, options)).initial
+                });
+                break;
+            case "monitor_cond":
+                this.applySnapshot({
+                    method: "update2",
+                    updates: (await this.client.monitorCond(this.database, this.monitorId, this.requests, options)).initial
+                });
+                break;
+            case "monitor_cond_since": {
+                const {found, lastTransactionId, initial} = await this.client.monitorCondSince(
+                    this.database,
+                    this.monitorId,
+                    this.requests,
+                    this.transactionId,
+                    options
+                );
+                this.applySinceResult([found, lastTransactionId, initial]);
+                break;
+            }
+        }
+    }
+
+    private readonly handleNotification = (notification: OvsdbNotification<TDatabase>): void => {
+        if (
+            (notification.method !== "update" && notification.method !== "update2" && notification.method !== "update3") ||
+            stringifyJson(notification.params[0]) !== this.monitorKey
+        ) {
+            return;
+        }
+
+        if (this.buffered) {
+            this.buffered.push(notification);
+            return;
+        }
+
+        switch (notification.method) {
+            case "update":
+                this.applyUpdates({method: "update", updates: notification.params[1]}, false);
+                break;
+            case "update2":
+                this.applyUpdates({method: "update2", updates: notification.params[1]}, false);
+                break;
+            case "update3":
+                this.applyUpdates({method: "update2", updates: notification.params[2]}, false);
+                this.transactionId = notification.params[1];
+                break;
+        }
+    };
+
+    private readonly handleClose = (): void => {
+        this.buffered = [];
+    };
+
+    private readonly handleReconnected = (restore: OvsdbSessionRestore<TDatabase>): void => {
+        const restored = restore.monitors.find((monitor) => stringifyJson(monitor.monitorId) === this.monitorKey);
+        if (!restored) {
+            return;
+        }
+
+        if ("error" in restored) {
+            this.detach();
+            this.emit("stale", restored.error);
+            return;
+        }
+
+        switch (restored.method) {
+            case "monitor":
+                this.applySnapshot({method: "update", updates: restored.result});
+                break;
+            case "monitor_cond":
+                this.applySnapshot({method: "update2", updates: restored.result});
+                break;
+            case "monitor_cond_since":
+                this.applySinceResult(restored.result);
+                break;
+        }
+    };
+
+    private applySinceResult([found, transactionId, updates]: MonitorCondSinceResult<TDatabase>): void {
+        if (found) {
+            this.applyUpdates({method: "update2", updates}, false);
+            this.transactionId = transactionId;
+            this.flush();
+        } else {
+            this.transactionId = transactionId;
+            this.applySnapshot({method: "update2", updates});
+        }
+    }
+
+    /**
+     * Applies a full snapshot: rows it contains are compared with the known
+     * rows, and known rows it lacks are reported as deleted.
+     */
+    private applySnapshot(snapshot: FeedUpdates): void {
+        this.applyUpdates(snapshot, true);
+        for (const [name, table] of this.tables) {
+            const present = snapshot.updates[name] ?? {};
+            for (const [uuid, row] of table.rows) {
+                if (!(uuid in present)) {
+                    table.rows.delete(uuid);
+                    table.changes.emit("deleted", {table: name, uuid: ["uuid", uuid], row: row as QueryRow<DatabaseTableMap, string>});
+                }
+            }
+        }
+        this.flush();
+    }
+
+    private applyUpdates({method, updates}: FeedUpdates, snapshot: boolean): void {
+        for (const [name, rows] of Object.entries(updates)) {
+            const table = this.tables.get(name);
+            if (!table) {
+                continue;
+            }
+
+            for (const [uuid, update] of Object.entries(rows)) {
+                const previous = table.rows.get(uuid);
+                const next = method === "update"
+                    ? applyRowUpdate1(table.columns, uuid, previous, update as RowUpdate)
+                    : applyRowUpdate(table.columns, uuid, snapshot ? undefined : previous, update as RowUpdate2);
+                if (next) {
+                    table.rows.set(uuid, next);
+                } else {
+                    table.rows.delete(uuid);
+                }
+                this.report(name, table, uuid, previous, next ?? undefined, snapshot);
+            }
+        }
+    }
+
+    private report(name: string, table: FeedTable, uuid: string, previous: RowRecord | undefined, next: RowRecord | undefined, snapshot: boolean): void {
+        const id: Uuid = ["uuid", uuid];
+        if (!previous && next) {
+            table.changes.emit("inserted", {table: name, uuid: id, row: next as QueryRow<DatabaseTableMap, string>, initial: snapshot});
+        } else if (previous && !next) {
+            table.changes.emit("deleted", {table: name, uuid: id, row: previous as QueryRow<DatabaseTableMap, string>});
+        } else if (previous && next) {
+            const changes: Record<string, ColumnChange> = {};
+            for (const [column, {type}] of table.columns) {
+                const change = diffColumn(previous[column], next[column], type);
+                if (change) {
+                    changes[column] = change;
+                }
+            }
+            if (Object.keys(changes).length > 0) {
+                table.changes.emit("updated", {
+                    table: name,
+                    uuid: id,
+                    old: previous as QueryRow<DatabaseTableMap, string>,
+                    new: next as QueryRow<DatabaseTableMap, string>,
+                    changes: changes as OvsdbRowDiff<DatabaseTableMap, string>
+                });
+            }
+        }
+    }
+
+    private flush(): void {
+        const buffered = this.buffered ?? [];
+        this.buffered = null;
+        buffered.forEach(this.handleNotification);
+    }
+
+    private createTableChanges<TTable extends TableName<TDatabase>>(table: TTable): OvsdbTableChanges<TDatabase, TTable> {
+        const changes = new OvsdbTableChanges<TDatabase, TTable>(table);
+        this.tableChanges[table] = changes;
+        return changes;
+    }
+
+    private resolveColumns(schema: DatabaseSchema): void {
+        for (const [name, table] of this.tables) {
+            const tableSchema = schema.tables[name];
+            if (!tableSchema) {
+                throw new Error(`Table ${name} does not exist in database ${this.database}`);
+            }
+
+            const allColumns = resolveTableColumns(tableSchema);
+            table.columns.clear();
+            for (const column of this.requests[name]?.columns ?? Object.keys(tableSchema.columns)) {
+                const info = allColumns.get(column);
+                if (!info) {
+                    throw new Error(`Column ${column} does not exist in table ${name}`);
+                }
+                table.columns.set(column, info);
+            }
+        }
+    }
+
+    private detach(): void {
+        this.client.off("notification", this.handleNotification);
+        this.client.off("close", this.handleClose);
+        this.client.off("reconnected", this.handleReconnected);
+        this.started = false;
+        this.buffered = null;
+    }
+}
+
+/**
+ * Applies an RFC 7047 row update. `new` carries every monitored column, so
+ * the previous row is not needed except to detect deletions.
+ */
+function applyRowUpdate1(
+    columns: Map<string, ColumnInfo>,
+    uuid: string,
+    previous: RowRecord | undefined,
+    update: RowUpdate
+): RowRecord | null {
+    if (update.new) {
+        return normalizeRow(columns, uuid, update.new as RowRecord);
+    }
+    return update.old || !previous ? null : previous;
+}
@@ -5,6 +5,7 @@ import {generateTypesFile} from "./generator";
 
 interface ParsedArgs {
     schemaPath?: string;
+    remote?: string;
     socketPath?: string;
     host?: string;
     port?: number;
@@ -18,6 +19,7 @@ interface ParsedArgs {
     outputPath?: string;
     databaseTypeName?: string;
     importFrom?: string;
+    bigint?: boolean;
     stdout?: boolean;
     help?: boolean;
 }
@@ -33,8 +35,8 @@ export async function runCli(argv: string[]): Promise<number> {
         return 0;
     }
 
-    if (!args.schemaPath && !args.socketPath && !args.host) {
-        process.stderr.write("Missing input. Provide --schema <file>, --socket <path>, or --host <name>.\n");
+    if (!args.schemaPath && !args.remote && !args.socketPath && !args.host) {
+        process.stderr.write("Missing input. Provide --schema <file>, --remote <spec>, --socket <path>, or --host <name>.\n");
         process.stderr.write(getHelpText());
         return 1;
     }
@@ -53,6 +55,7 @@ export async function runCli(argv: string[]): Promise<number> {
 
         const generated = await generateTypesFile({
             schemaPath: args.schemaPath ? resolve(args.schemaPath) : undefined,
+            remote: args.remote,
             socketPath: args.socketPath,
             host: args.host,
             port: args.port,
@@ -65,7 +68,8 @@ export async function runCli(argv: string[]): Promise<number> {
             databaseName: args.databaseName,
             outputPath,
             databaseTypeName: args.databaseTypeName,
-            importFrom: args.importFrom
+            importFrom: args.importFrom,
+            bigint: args.bigint
         });
 
         if (args.stdout) {
@@ -91,6 +95,9 @@ function parseArgs(argv: string[]): ParsedArgs {
             case "--schema":
                 parsed.schemaPath = requireValue(argv, ++index, arg);
                 break;
+            case "--remote":
+                parsed.remote = requireValue(argv, ++index, arg);
+                break;
             case "--socket":
                 parsed.socketPath = requireValue(argv, ++index, arg);
                 break;
@@ -135,6 +142,9 @@ function parseArgs(argv: string[]): ParsedArgs {
             case "--import-from":
                 parsed.importFrom = requireValue(argv, ++index, arg);
                 break;
+            case "--bigint":
+                parsed.bigint = true;
+                break;
             case "--stdout":
                 parsed.stdout = true;
                 break;
@@ -164,6 +174,7 @@ function getHelpText(): string {
         "",
         "Inputs:",
         "  --schema <file>         Read an OVSDB schema JSON file",
+        "  --remote <spec>         Read schema from live OVSDB remotes, e.g. tcp:10.0.0.1:6641,ssl:ovn-nb:6641",
         "  --socket <path>         Read schema from a live OVSDB Unix socket",
         "  --host <name>           Read schema from a live OVSDB TCP/TLS endpoint",
         "  --port <number>         Port for TCP/TLS introspection (default: 6640)",
@@ -182,6 +193,7 @@ function getHelpText(): string {
         "Generation:",
         "  --name <typeName>       Override generated top-level database type name",
         "  --import-from <module>  Override imported OVSDB type module",
+        "  --bigint                Type integer columns as number | bigint",
         "",
         "Other:",
         "  -h, --help              Show this help text",
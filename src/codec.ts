@@ -0,0 +1,362 @@
+import {OvsdbRpcError} from "./index";
+import {stringifyJson} from "./json";
+import {parseAtom, parseDatum, resolveColumnType, resolveTableColumns, UUID_PATTERN} from "./schema";
+import type {Atom, BaseTypeInfo, ColumnInfo, ColumnTypeInfo} from "./schema";
+import type {
+    ConditionFunction,
+    DatabaseOperation,
+    DatabaseSchema,
+    JsonValue,
+    MutationOperator,
+    OvsdbValue,
+    RowRecord,
+    TableSchema,
+    Type
+} from "./types";
+
+/**
+ * A decoded OVSDB atom. UUIDs are plain strings.
+ */
+export type DecodedAtom = string | number | bigint | boolean;
+
+/**
+ * A decoded OVSDB datum.
+ *
+ * Scalar columns decode to their atom, optional columns (`min: 0, max: 1`) to
+ * the atom or `undefined` when empty, maps to a `Map`, and every other set to
+ * a `Set`.
+ */
+export type DecodedValue = DecodedAtom | Set<DecodedAtom> | Map<DecodedAtom, DecodedAtom> | undefined;
+
+/**
+ * A row with every column decoded.
+ */
+export type DecodedRow = Record<string, DecodedValue>;
+
+/**
+ * A condition whose value is given in decoded form.
+ */
+export type DecodedCondition = [string, ConditionFunction, DecodedValue | readonly DecodedAtom[]] | boolean;
+
+/**
+ * A mutation whose value is given in decoded form.
+ *
+ * Map `delete` mutations accept either a `Map` of pairs or a `Set` of keys.
+ */
+export type DecodedMutation = [string, MutationOperator, DecodedValue | readonly DecodedAtom[]];
+
+/**
+ * A decoded row update from a `monitor` response or update notification.
+ *
+ * `modify` holds a decoded update2 diff: scalar columns carry their new value,
+ * maps the changed pairs, and every other column a `Set` of the elements that
+ * were added or removed.
+ */
+export interface DecodedRowUpdate {
+    initial?: DecodedRow;
+    insert?: DecodedRow;
+    modify?: DecodedRow;
+    delete?: DecodedRow | null;
+    old?: DecodedRow;
+    new?: DecodedRow;
+}
+
+/**
+ * Decoded multi-table update payload, keyed by table and then row UUID.
+ */
+export type DecodedTableUpdates = Record<string, Record<string, DecodedRowUpdate>>;
+
+/**
+ * Raised when a value does not fit the column it is decoded from or encoded for.
+ */
+export class OvsdbCodecError extends Error {
+    /**
+     * Table of the offending column.
+     */
+    public readonly table: string;
+
+    /**
+     * Name of the offending column, or `null` when the table itself is unknown.
+     */
+    public readonly column: string | null;
+
+    /**
+     * Description of the problem, without the column prefix.
+     */
+    public readonly reason: string;
+
+    /**
+     * Creates a new codec error.
+     */
+    constructor(table: string, column: string | null, reason: string) {
+        super(column === null ? `Table ${table}: ${reason}` : `Column ${table}.${column}: ${reason}`);
+        this.name = "OvsdbCodecError";
+        this.table = table;
+        this.column = column;
+        this.reason = reason;
+    }
+}
+
+const resolvedTables = new WeakMap<TableSchema, Map<string, ColumnInfo>>();
+
+/**
+ * Decodes a single wire value of the given column type.
+ *
+ * Single-element sets sent as bare atoms decode the same way as their
+ * `["set", [...]]` form.
+ *
+ * @throws OvsdbRpcError When the value does not match the type.
+ */
+export function decodeValue(value: OvsdbValue, type: Type): DecodedValue {
+    return decodeDatum(value, resolveColumnType(type));
+}
+
+/**
+ * Encodes a decoded value for the given column type.
+ *
+ * UUID strings are sent as `["uuid", ...]`; any other string in a UUID column
+ * is taken to be the `uuid-name` of a row inserted in the same transaction and
+ * is sent as `["named-uuid", ...]`. `undefined` encodes to the empty set or map.
+ *
+ * @throws OvsdbRpcError When the value does not match the type.
+ */
+export function encodeValue(value: DecodedValue | readonly DecodedAtom[], type: Type): OvsdbValue {
+    return encodeDatum(value, resolveColumnType(type));
+}
+
+/**
+ * Decodes every column of a row from the given table.
+ *
+ * @throws OvsdbCodecError When the table or a column is unknown or a value
+ * does not match its column type.
+ */
+export function decodeRow(schema: DatabaseSchema, table: string, row: Partial<RowRecord>): DecodedRow {
+    return mapColumns(schema, table, row, (value, column) => decodeDatum(value as OvsdbValue, column.type));
+}
+
+/**
+ * Encodes a decoded row for an `insert`, `update`, or `wait` operation on the
+ * given table.
+ *
+ * @throws OvsdbCodecError When the table or a column is unknown or a value
+ * does not match its column type.
+ */
+export function encodeRow(schema: DatabaseSchema, table: string, row: DecodedRow): RowRecord {
+    return mapColumns(schema, table, row, (value, column) => encodeDatum(value, column.type));
+}
+
+/**
+ * Encodes decoded conditions for the `where` clause of an operation on the
+ * given table.
+ *
+ * @throws OvsdbCodecError When a column is unknown or a value does not match
+ * its column type.
+ */
+export function encodeConditions(
+    schema: DatabaseSchema,
+    table: string,
+    conditions: readonly DecodedCondition[]
+): Array<[string, ConditionFunction, OvsdbValue] | boolean> {
+    const columns = columnsOf(schema, table);
+    return conditions.map((condition) => {
+        if (typeof condition === "boolean") {
+            return condition;
+        }
+
+        const [name, func, value] = condition;
+        const column = requireColumn(columns, table, name);
+        return [name, func, withColumn(table, name, () => encodeDatum(value, {...column.type, min: 0}))];
+    });
+}
+
+/**
+ * Encodes decoded mutations for a `mutate` operation on the given table.
+ *
+ * @throws OvsdbCodecError When a column is unknown or a value does not match
+ * its column type.
+ */
+export function encodeMutations(
+    schema: DatabaseSchema,
+    table: string,
+    mutations: readonly DecodedMutation[]
+): Array<[string, MutationOperator, OvsdbValue]> {
+    const columns = columnsOf(schema, table);
+    return mutations.map(([name, operator, value]) => {
+        const {type} = requireColumn(columns, table, name);
+        const encoded = withColumn(table, name, () => operator === "insert" || operator === "delete"
+            ? encodeDatum(value, {...type, min: 0, max: Number.POSITIVE_INFINITY})
+            : encodeAtom(value, type.key));
+        return [name, operator, encoded];
+    });
+}
+
+/**
+ * Decodes a `monitor` response or the updates of an `update`, `update2`, or
+ * `update3` notification.
+ *
+ * Tables missing from the schema are left out of the result.
+ *
+ * @throws OvsdbCodecError When a value does not match its column type.
+ */
+export function decodeTableUpdates(schema: DatabaseSchema, updates: Record<string, Record<string, object>>): DecodedTableUpdates {
+    const decoded: DecodedTableUpdates = {};
+    for (const [table, rows] of Object.entries(updates)) {
+        if (!schema.tables[table]) {
+            continue;
+        }
+
+        const decodedRows: Record<string, DecodedRowUpdate> = {};
+        for (const [uuid, update] of Object.entries(rows as Record<string, Record<string, Partial<RowRecord> | null>>)) {
+            const decodedUpdate: DecodedRowUpdate = {};
+            for (const [kind, row] of Object.entries(update)) {
+                if (kind === "modify") {
+                    decodedUpdate.modify = mapColumns(schema, table, row ?? {}, (value, column) => decodeDatum(
+                        value as OvsdbValue,
+                        column.type.min === 1 && column.type.max === 1
+                            ? column.type
+                            : {...column.type, min: 0, max: Number.POSITIVE_INFINITY}
+                    ));
+                } else if (kind === "delete" && row === null) {
+                    decodedUpdate.delete = null;
+                } else {
+                    decodedUpdate[kind as Exclude<keyof DecodedRowUpdate, "modify">] = decodeRow(schema, table, row ?? {});
+                }
+            }
+            decodedRows[uuid] = decodedUpdate;
+        }
+        decoded[table] = decodedRows;
+    }
+    return decoded;
+}
+
+/**
+ * Decodes the rows of `select` results and the UUIDs of `insert` results in a
+ * `transact` response. Other results are returned unchanged.
+ *
+ * @throws OvsdbCodecError When a value does not match its column type.
+ */
+export function decodeOperationResults(
+    schema: DatabaseSchema,
+    operations: readonly DatabaseOperation[],
+    results: readonly unknown[]
+): unknown[] {
+    return results.map((result, index) => {
+        const operation = operations[index];
+        if (!operation || !result || typeof result !== "object") {
+            return result;
+        }
+
+        if (operation.op === "select" && Array.isArray((result as {rows?: unknown}).rows)) {
+            const {rows} = result as {rows: RowRecord[]};
+            return {...result, rows: rows.map((row) => decodeRow(schema, operation.table, row))};
+        }
+        if (operation.op === "insert" && Array.isArray((result as {uuid?: unknown}).uuid)) {
+            return {...result, uuid: (result as {uuid: [string, string]}).uuid[1]};
+        }
+        return result;
+    });
+}
+
+function mapColumns<TInput, TOutput>(
+    schema: DatabaseSchema,
+    table: string,
+    row: Record<string, TInput>,
+    map: (value: TInput, column: ColumnInfo) => TOutput
+): Record<string, TOutput> {
+    const columns = columnsOf(schema, table);
+    const mapped: Record<string, TOutput> = {};
+    for (const [name, value] of Object.entries(row)) {
+        const column = requireColumn(columns, table, name);
+        mapped[name] = withColumn(table, name, () => map(value, column));
+    }
+    return mapped;
+}
+
+function columnsOf(schema: DatabaseSchema, table: string): Map<string, ColumnInfo> {
+    const tableSchema = schema.tables[table];
+    if (!tableSchema) {
+        throw new OvsdbCodecError(table, null, `does not exist in database ${schema.name}`);
+    }
+
+    let columns = resolvedTables.get(tableSchema);
+    if (!columns) {
+        columns = resolveTableColumns(tableSchema);
+        resolvedTables.set(tableSchema, columns);
+    }
+    return columns;
+}
+
+function requireColumn(columns: Map<string, ColumnInfo>, table: string, name: string): ColumnInfo {
+    const column = columns.get(name);
+    if (!column) {
+        throw new OvsdbCodecError(table, name, "does not exist");
+    }
+    return column;
+}
+
+function withColumn<T>(table: string, column: string, callback: () => T): T {
+    try {
+        return callback();
+    } catch (error) {
+        if (error instanceof OvsdbRpcError) {
+            throw new OvsdbCodecError(table, column, error.response.details ?? error.response.error);
+        }
+        throw error;
+    }
+}
+
+function decodeDatum(value: OvsdbValue, type: ColumnTypeInfo): DecodedValue {
+    const datum = parseDatum(value, type);
+    if (datum.values) {
+        const values = datum.values;
+        return new Map(datum.keys.map((key, index) => [decodeAtom(key), decodeAtom(values[index])]));
+    }
+    if (type.max === 1) {
+        return datum.keys.length === 0 ? undefined : decodeAtom(datum.keys[0]);
+    }
+    return new Set(datum.keys.map(decodeAtom));
+}
+
+function decodeAtom(atom: Atom): DecodedAtom {
+    return Array.isArray(atom) ? atom[1] : atom;
+}
+
+function encodeDatum(value: DecodedValue | readonly DecodedAtom[], type: ColumnTypeInfo): OvsdbValue {
+    if (value === undefined || value === null) {
+        if (type.min > 0) {
+            throw invalid("a value is required");
+        }
+        return type.value ? ["map", []] : ["set", []];
+    }
+
+    if (value instanceof Map) {
+        const valueType = type.value;
+        if (!valueType) {
+            throw invalid("a Map is only valid for map columns");
+        }
+        return ["map", [...value].map(([key, item]): [OvsdbValue, OvsdbValue] => [
+            encodeAtom(key, type.key),
+            encodeAtom(item, valueType)
+        ])] as OvsdbValue;
+    }
+
+    if (value instanceof Set || Array.isArray(value)) {
+        return ["set", [...(value as Iterable<DecodedAtom>)].map((atom) => encodeAtom(atom, type.key))] as OvsdbValue;
+    }
+
+    if (type.value) {
+        throw invalid(`${stringifyJson(value as JsonValue)} is not a valid map`);
+    }
+    return encodeAtom(value, type.key);
+}
+
+function encodeAtom(value: unknown, base: BaseTypeInfo): OvsdbValue {
+    if (base.type === "uuid" && typeof value === "string") {
+        return UUID_PATTERN.test(value) ? ["uuid", value] : ["named-uuid", value];
+    }
+    return parseAtom(value as JsonValue, base) as OvsdbValue;
+}
+
+function invalid(details: string): OvsdbRpcError {
+    return new OvsdbRpcError({error: "syntax error", details});
+}
@@ -0,0 +1,1176 @@
+import {randomUUID} from "node:crypto";
+
+import {OvsdbRpcError} from "./index";
+import {
+    checkDatum,
+    compareAtoms,
+    createDatum,
+    datumEquals,
+    datumToJson,
+    defaultDatum,
+    findKey,
+    parseAtom,
+    parseDatum,
+    resolveTableColumns,
+    ZERO_UUID
+} from "./schema";
+import type {Atom, ColumnInfo, Datum, NamedUuidResolver} from "./schema";
+import type {OvsdbMonitorMethod} from "./index";
+import type {OvsdbStorageMonitor, OvsdbStorageUpdateListener} from "./server";
+import type {DatabaseSchema, JsonObject, JsonValue, MonitorSelect, OvsdbValue, TableUpdates2} from "./types";
+
+/**
+ * Context of a transaction executed by {@link OvsdbMemoryDatabase}.
+ */
+export interface OvsdbMemoryTransactContext {
+    /**
+     * Returns whether the submitting session owns a lock. Used by `assert`
+     * operations; without it every `assert` fails with `not owner`.
+     */
+    hasLock?: (lockId: string) => boolean;
+
+    /**
+     * Cancels a transaction that is blocked on a `wait` operation.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for an {@link OvsdbMemoryDatabase}.
+ */
+export interface OvsdbMemoryDatabaseOptions {
+    /**
+     * Number of committed transactions kept for `monitor_cond_since`.
+     *
+     * @defaultValue `100`
+     */
+    historySize?: number;
+}
+
+type StoredRow = Readonly<Record<string, Datum>>;
+type TableData = Map<string, StoredRow>;
+type RowPredicate = (row: StoredRow) => boolean;
+
+interface TableInfo {
+    name: string;
+    columns: Map<string, ColumnInfo>;
+    maxRows: number;
+    isRoot: boolean;
+    indexes: string[][];
+}
+
+interface RowChange {
+    table: string;
+    uuid: string;
+    old: StoredRow | null;
+    new: StoredRow | null;
+}
+
+interface Commit {
+    id: string;
+    changes: RowChange[];
+}
+
+interface MonitoredTable {
+    info: TableInfo;
+    columns: string[];
+    select: Required<MonitorSelect>;
+    where: RowPredicate | null;
+}
+
+interface RegisteredMonitor {
+    conditional: boolean;
+    tables: Map<string, MonitoredTable>;
+    listener: OvsdbStorageUpdateListener;
+}
+
+interface PendingTransaction {
+    operations: readonly JsonValue[];
+    context: OvsdbMemoryTransactContext;
+    startedAt: number;
+    timer: ReturnType<typeof setTimeout> | null;
+    resolve: (results: JsonValue[]) => void;
+    reject: (error: Error) => void;
+}
+
+type ExecutionResult =
+    | {status: "done"; results: JsonValue[]; commit: Commit | null}
+    | {status: "blocked"; retryIn: number};
+
+const BLOCKED = Symbol("blocked");
+
+/**
+ * A single OVSDB database held in memory.
+ *
+ * Transactions follow RFC 7047 semantics: operations run in order against a
+ * private copy of the data and are committed atomically after referential
+ * integrity checks, garbage collection of unreferenced rows in non-root
+ * tables, and `maxRows` and index constraint checks. A transaction whose
+ * `wait` operation is not yet satisfied is retried after every commit until
+ * its timeout expires.
+ */
+export class OvsdbMemoryDatabase {
+    /**
+     * Schema the database was created from.
+     */
+    public readonly schema: DatabaseSchema;
+
+    private readonly historySize: number;
+    private readonly tableInfo = new Map<string, TableInfo>();
+    private readonly monitors = new Set<RegisteredMonitor>();
+    private readonly pending = new Set<PendingTransaction>();
+    private readonly history: Commit[] = [];
+
+    private tables = new Map<string, TableData>();
+    private currentTransactionId = ZERO_UUID;
+    private retrying = false;
+    private retryRequested = false;
+
+    /**
+     * Creates an empty database for a schema.
+     */
+    constructor(schema: DatabaseSchema, options: OvsdbMemoryDatabaseOptions = {}) {
+        this.schema = schema;
+        this.historySize = options.historySize ?? 100;
+
+        const tables = Object.entries(schema.tables);
+        const hasRoots = tables.some(([, table]) => table.isRoot);
+        for (const [name, table] of tables) {
+            this.tableInfo.set(name, {
+                name,
+                columns: resolveTableColumns(table),
+                maxRows: table.maxRows ?? Number.POSITIVE_INFINITY,
+                // Schemas without any root table treat every table as a root.
+                isRoot: !hasRoots || table.isRoot === true,
+                indexes: table.indexes ?? []
+            });
+            this.tables.set(name, new Map());
+        }
+    }
+
+    /**
+     * Returns the database name.
+     */
+    public get name(): string {
+        return this.schema.name;
+    }
+
+    /**
+     * Returns the id of the last committed transaction.
+     */
+    public get lastTransactionId(): string {
+        return this.currentTransactionId;
+    }
+
+    /**
+     * Executes a transaction.
+     *
+     * @param operations Operations as they appear in the `transact` params.
+     * @returns One result per operation, plus a trailing error when the
+     * transaction failed at commit time.
+     * @throws OvsdbRpcError With a `canceled` error when `context.signal`
+     * aborts a blocked transaction.
+     */
+    public async transact(operations: readonly JsonValue[], context: OvsdbMemoryTransactContext = {}): Promise<JsonValue[]> {
+        return await new Promise<JsonValue[]>((resolve, reject) => {
+            const pending: PendingTransaction = {
+                operations,
+                context,
+                startedAt: Date.now(),
+                timer: null,
+                resolve,
+                reject
+            };
+
+            if (context.signal?.aborted) {
+                reject(new OvsdbRpcError({error: "canceled"}));
+                return;
+            }
+
+            if (this.attempt(pending)) {
+                return;
+            }
+
+            this.pending.add(pending);
+            context.signal?.addEventListener("abort", () => {
+                if (this.pending.delete(pending)) {
+                    clearTimeout(pending.timer ?? undefined);
+                    reject(new OvsdbRpcError({error: "canceled"}));
+                }
+            }, {once: true});
+        });
+    }
+
+    /**
+     * Registers a monitor.
+     *
+     * `monitor` produces RFC 7047 `update` payloads; the conditional flavors
+     * produce `update2` payloads.
+     *
+     * @param requests Monitor requests keyed by table name.
+     * @param lastTransactionId Transaction id to resume from, only used by
+     * `monitor_cond_since`.
+     * @param listener Receives the updates of later transactions.
+     * @throws OvsdbRpcError When a request names an unknown table or column.
+     */
+    public monitor(
+        method: OvsdbMonitorMethod,
+        requests: JsonValue,
+        lastTransactionId: string | null,
+        listener: OvsdbStorageUpdateListener
+    ): OvsdbStorageMonitor {
+        const monitor: RegisteredMonitor = {
+            conditional: method !== "monitor",
+            tables: this.parseMonitorRequests(requests, method !== "monitor"),
+            listener
+        };
+
+        const resumeIndex = method === "monitor_cond_since" && lastTransactionId !== null
+            ? this.findHistoryIndex(lastTransactionId)
+            : -1;
+        let result: JsonValue;
+
+        if (resumeIndex === -1) {
+            const updates: JsonObject = {};
+            for (const [table, monitored] of monitor.tables) {
+                if (!monitored.select.initial) {
+                    continue;
+                }
+                for (const [uuid, row] of this.tables.get(table) as TableData) {
+                    if (!monitored.where || monitored.where(row)) {
+                        addRowUpdate(updates, table, uuid, monitor.conditional
+                            ? {initial: projectRow(row, monitored, true)}
+                            : {new: projectRow(row, monitored, false)});
+                    }
+                }
+            }
+            result = method === "monitor_cond_since" ? [false, this.currentTransactionId, updates] : updates;
+        } else {
+            const changes = mergeChanges(this.history.slice(resumeIndex).flatMap((commit) => commit.changes));
+            result = [true, this.currentTransactionId, formatChanges(monitor, changes)];
+        }
+
+        this.monitors.add(monitor);
+        return {
+            result,
+            cancel: () => {
+                this.monitors.delete(monitor);
+            }
+        };
+    }
+
+    private findHistoryIndex(transactionId: string): number {
+        if (transactionId === this.currentTransactionId) {
+            return this.history.length;
+        }
+
+        const index = this.history.findIndex((commit) => commit.id === transactionId);
+        return index === -1 ? -1 : index + 1;
+    }
+
+    private parseMonitorRequests(requests: JsonValue, conditional: boolean): Map<string, MonitoredTable> {
+        if (!isObject(requests)) {
+            throw syntaxError("monitor requests must be an object");
+        }
+
+        const tables = new Map<string, MonitoredTable>();
+        for (const [table, value] of Object.entries(requests)) {
+            const info = this.requireTable(table);
+            const entries = Array.isArray(value) ? value : [value];
+            const columns = new Set<string>();
+            const select: Required<MonitorSelect> = {initial: false, insert: false, delete: false, modify: false};
+            let where: RowPredicate | null = null;
+
+            for (const entry of entries) {
+                if (!isObject(entry)) {
+                    throw syntaxError(`monitor request for ${table} must be an object`);
+                }
+
+                const requested = entry.columns === undefined
+                    ? [...info.columns.keys()].filter((column) => !column.startsWith("_"))
+                    : requireArray(entry.columns, "columns").map((column) => requireColumn(info, column).name);
+                requested.forEach((column) => columns.add(column));
+
+                const entrySelect = entry.select === undefined ? {} : entry.select;
+                if (!isObject(entrySelect)) {
+                    throw syntaxError("select must be an object");
+                }
+                for (const key of ["initial", "insert", "delete", "modify"] as const) {
+                    select[key] ||= entrySelect[key] !== false;
+                }
+
+                if (entry.where !== undefined) {
+                    if (!conditional) {
+                        throw syntaxError("where is only supported by conditional monitors");
+                    }
+                    where = parseConditions(info, entry.where, undefined);
+                }
+            }
+
+            tables.set(table, {info, columns: [...columns], select, where});
+        }
+
+        return tables;
+    }
+
+    private attempt(pending: PendingTransaction): boolean {
+        const execution = this.execute(pending.operations, pending.context, Date.now() - pending.startedAt);
+
+        if (execution.status === "blocked") {
+            clearTimeout(pending.timer ?? undefined);
+            pending.timer = Number.isFinite(execution.retryIn)
+                ? setTimeout(() => this.retry(pending), execution.retryIn)
+                : null;
+            return false;
+        }
+
+        clearTimeout(pending.timer ?? undefined);
+        this.pending.delete(pending);
+        if (execution.commit) {
+            this.publish(execution.commit);
+        }
+        pending.resolve(execution.results);
+        if (execution.commit) {
+            this.retryBlocked();
+        }
+        return true;
+    }
+
+    private retry(pending: PendingTransaction): void {
+        pending.timer = null;
+        if (this.pending.has(pending)) {
+            this.attempt(pending);
+        }
+    }
+
+    private retryBlocked(): void {
+        if (this.retrying) {
+            this.retryRequested = true;
+            return;
+        }
+
+        this.retrying = true;
+        try {
+            do {
+                this.retryRequested = false;
+                for (const pending of [...this.pending]) {
+                    if (this.pending.has(pending)) {
+                        this.attempt(pending);
+                    }
+                }
+            } while (this.retryRequested);
+        } finally {
+            this.retrying = false;
+        }
+    }
+
+    private publish(commit: Commit): void {
+        this.currentTransactionId = commit.id;
+        this.history.push(commit);
+        if (this.history.length > this.historySize) {
+            this.history.splice(0, this.history.length - this.historySize);
+        }
+
+        for (const monitor of this.monitors) {
+            const updates = formatChanges(monitor, commit.changes);
+            if (Object.keys(updates).length > 0) {
+                monitor.listener(updates as TableUpdates2, commit.id);
+            }
+        }
+    }
+
+    private execute(operations: readonly JsonValue[], context: OvsdbMemoryTransactContext, elapsed: number): ExecutionResult {
+        const transaction = new MemoryTransaction(this.tables, this.tableInfo);
+        const results: JsonValue[] = [];
+
+        const fail = (error: unknown): ExecutionResult => {
+            if (!(error instanceof OvsdbRpcError)) {
+                throw error;
+            }
+            results.push(error.response as JsonObject);
+            while (results.length < operations.length) {
+                results.push(null);
+            }
+            return {status: "done", results, commit: null};
+        };
+
+        for (const operation of operations) {
+            try {
+                const result = transaction.execute(operation, context, elapsed);
+                if (result === BLOCKED) {
+                    return {status: "blocked", retryIn: transaction.retryIn};
+                }
+                results.push(result);
+            } catch (error) {
+                return fail(error);
+            }
+        }
+
+        try {
+            const commit = transaction.commit();
+            if (commit) {
+                this.tables = transaction.tables;
+            }
+            return {status: "done", results, commit};
+        } catch (error) {
+            if (!(error instanceof OvsdbRpcError)) {
+                throw error;
+            }
+            results.push(error.response as JsonObject);
+            return {status: "done", results, commit: null};
+        }
+    }
+
+    private requireTable(table: string): TableInfo {
+        const info = this.tableInfo.get(table);
+        if (!info) {
+            throw new OvsdbRpcError({error: "unknown table", details: `No table named ${table}`});
+        }
+        return info;
+    }
+}
+
+class MemoryTransaction {
+    public readonly tables: Map<string, TableData>;
+    public retryIn = Number.POSITIVE_INFINITY;
+
+    private readonly committed: ReadonlyMap<string, TableData>;
+    private readonly tableInfo: ReadonlyMap<string, TableInfo>;
+    private readonly written = new Set<string>();
+    private readonly symbols = new Map<string, {uuid: string; created: boolean}>();
+
+    constructor(committed: ReadonlyMap<string, TableData>, tableInfo: ReadonlyMap<string, TableInfo>) {
+        this.committed = committed;
+        this.tables = new Map(committed);
+        this.tableInfo = tableInfo;
+    }
+
+    public execute(json: JsonValue, context: OvsdbMemoryTransactContext, elapsed: number): JsonValue | typeof BLOCKED {
+        if (!isObject(json) || typeof json.op !== "string") {
+            throw syntaxError("operation must be an object with an op member");
+        }
+
+        switch (json.op) {
+            case "insert":
+                return this.insert(json);
+            case "select":
+                return this.select(json);
+            case "update":
+                return this.update(json);
+            case "mutate":
+                return this.mutate(json);
+            case "delete":
+                return this.delete(json);
+            case "wait":
+                return this.wait(json, elapsed);
+            case "commit":
+            case "comment":
+                return {};
+            case "abort":
+                throw new OvsdbRpcError({error: "aborted", details: "aborted by request"});
+            case "assert": {
+                const lock = requireString(json.lock, "lock");
+                if (!context.hasLock?.(lock)) {
+                    throw new OvsdbRpcError({error: "not owner", details: `Asserted lock ${lock} not held`});
+                }
+                return {};
+            }
+            default:
+                throw syntaxError(`No operation named ${json.op}`);
+        }
+    }
+
+    public commit(): Commit | null {
+        for (const [name, symbol] of this.symbols) {
+            if (!symbol.created) {
+                throw syntaxError(`named-uuid ${name} is referenced but never created`);
+            }
+        }
+
+        if (this.written.size === 0) {
+            return null;
+        }
+
+        this.collectGarbage();
+        this.checkReferences();
+        this.checkConstraints();
+
+        const id = randomUUID();
+        const changes: RowChange[] = [];
+        for (const table of this.written) {
+            const before = this.committed.get(table) as TableData;
+            const after = this.tables.get(table) as TableData;
+
+            for (const [uuid, row] of before) {
+                if (!after.has(uuid)) {
+                    changes.push({table, uuid, old: row, new: null});
+                }
+            }
+
+            for (const [uuid, row] of after) {
+                const old = before.get(uuid) ?? null;
+                if (old === row) {
+                    continue;
+                }
+                if (old && Object.keys(row).every((column) => column === "_version" || datumEquals(row[column], old[column]))) {
+                    after.set(uuid, old);
+                    continue;
+                }
+
+                const updated = old ? {...row, _version: uuidDatum(randomUUID())} : row;
+                after.set(uuid, updated);
+                changes.push({table, uuid, old, new: updated});
+            }
+        }
+
+        return changes.length > 0 ? {id, changes} : null;
+    }
+
+    private insert(operation: JsonObject): JsonValue {
+        const info = this.requireTable(operation.table);
+        const uuid = operation.uuidName === undefined
+            ? randomUUID()
+            : this.createSymbol(requireString(operation.uuidName, "uuidName"));
+        const row: Record<string, Datum> = {
+            _uuid: uuidDatum(uuid),
+            _version: uuidDatum(randomUUID())
+        };
+
+        for (const column of info.columns.values()) {
+            if (!column.name.startsWith("_")) {
+                row[column.name] = defaultDatum(column.type);
+            }
+        }
+        Object.assign(row, this.parseRow(info, operation.row, false));
+
+        if (this.read(info.name).has(uuid)) {
+            throw new OvsdbRpcError({error: "duplicate uuid", details: `A row with UUID ${uuid} already exists`});
+        }
+        this.write(info.name).set(uuid, row);
+        return {uuid: ["uuid", uuid]};
+    }
+
+    private select(operation: JsonObject): JsonValue {
+        const info = this.requireTable(operation.table);
+        const columns = operation.columns === undefined
+            ? [...info.columns.keys()]
+            : requireArray(operation.columns, "columns").map((column) => requireColumn(info, column).name);
+
+        return {
+            rows: this.match(info, operation.where).map(([, row]) => {
+                const projected: Record<string, OvsdbValue> = {};
+                for (const column of columns) {
+                    projected[column] = datumToJson(row[column]);
+                }
+                return projected;
+            })
+        };
+    }
+
+    private update(operation: JsonObject): JsonValue {
+        const info = this.requireTable(operation.table);
+        const changes = this.parseRow(info, operation.row, true);
+        const rows = this.match(info, operation.where);
+
+        for (const [uuid, row] of rows) {
+            this.write(info.name).set(uuid, {...row, ...changes});
+        }
+        return {count: rows.length};
+    }
+
+    private mutate(operation: JsonObject): JsonValue {
+        const info = this.requireTable(operation.table);
+        const mutations = requireArray(operation.mutations, "mutations").map((mutation) => {
+            if (!Array.isArray(mutation) || mutation.length !== 3 || typeof mutation[1] !== "string") {
+                throw syntaxError(`${JSON.stringify(mutation)} is not a valid mutation`);
+            }
+            const column = requireColumn(info, mutation[0]);
+            if (!column.mutable) {
+                throw new OvsdbRpcError({error: "constraint violation", details: `Cannot mutate immutable column ${column.name} in table ${info.name}`});
+            }
+            return {column, operator: mutation[1], argument: mutation[2]};
+        });
+        const rows = this.match(info, operation.where);
+
+        for (const [uuid, row] of rows) {
+            const mutated: Record<string, Datum> = {...row};
+            for (const {column, operator, argument} of mutations) {
+                mutated[column.name] = applyMutation(mutated[column.name], column, operator, argument, this.resolveSymbol);
+            }
+            this.write(info.name).set(uuid, mutated);
+        }
+        return {count: rows.length};
+    }
+
+    private delete(operation: JsonObject): JsonValue {
+        const info = this.requireTable(operation.table);
+        const rows = this.match(info, operation.where);
+
+        for (const [uuid] of rows) {
+            this.write(info.name).delete(uuid);
+        }
+        return {count: rows.length};
+    }
+
+    private wait(operation: JsonObject, elapsed: number): JsonValue | typeof BLOCKED {
+        const info = this.requireTable(operation.table);
+        const timeout = operation.timeout === undefined ? Number.POSITIVE_INFINITY : requireNumber(operation.timeout, "timeout");
+        const until = requireString(operation.until, "until");
+        if (until !== "==" && until !== "!=") {
+            throw syntaxError(`until must be "==" or "!=", not ${until}`);
+        }
+
+        const columns = requireArray(operation.columns, "columns").map((column) => requireColumn(info, column));
+        const toKey = (datums: Datum[]) => JSON.stringify(datums);
+        const expected = requireArray(operation.rows, "rows").map((row) => {
+            if (!isObject(row)) {
+                throw syntaxError("wait rows must be objects");
+            }
+            return toKey(columns.map((column) => {
+                if (row[column.name] === undefined) {
+                    throw syntaxError(`wait row is missing column ${column.name}`);
+                }
+                return parseDatum(row[column.name], column.type, this.resolveSymbol);
+            }));
+        }).sort();
+        const actual = this.match(info, operation.where)
+            .map(([, row]) => toKey(columns.map((column) => row[column.name])))
+            .sort();
+
+        const equal = expected.length === actual.length && expected.every((key, index) => key === actual[index]);
+        if (equal === (until === "==")) {
+            return {};
+        }
+
+        if (elapsed >= timeout) {
+            throw new OvsdbRpcError({error: "timed out", details: `wait on table ${info.name} timed out after ${timeout}ms`});
+        }
+        this.retryIn = timeout - elapsed;
+        return BLOCKED;
+    }
+
+    private parseRow(info: TableInfo, json: JsonValue | undefined, forUpdate: boolean): Record<string, Datum> {
+        if (!isObject(json)) {
+            throw syntaxError("row must be an object");
+        }
+
+        const row: Record<string, Datum> = {};
+        for (const [name, value] of Object.entries(json)) {
+            const column = requireColumn(info, name);
+            if (column.name.startsWith("_") || (forUpdate && !column.mutable)) {
+                throw new OvsdbRpcError({
+                    error: "constraint violation",
+                    details: `Cannot modify immutable column ${column.name} in table ${info.name}`
+                });
+            }
+
+            const datum = parseDatum(value, column.type, this.resolveSymbol);
+            checkDatum(datum, column.type, column.name);
+            row[column.name] = datum;
+        }
+        return row;
+    }
+
+    private match(info: TableInfo, where: JsonValue | undefined): Array<[string, StoredRow]> {
+        const predicate = parseConditions(info, where, this.resolveSymbol);
+        return [...this.read(info.name)].filter(([, row]) => predicate(row));
+    }
+
+    private collectGarbage(): void {
+        const nonRoot = [...this.tableInfo.values()].filter((info) => !info.isRoot);
+
+        for (;;) {
+            this.removeDanglingWeakReferences();
+            if (nonRoot.length === 0) {
+                return;
+            }
+
+            const referenced = new Set<string>();
+            this.forEachReference((reference) => {
+                if (reference.refType === "strong") {
+                    referenced.add(reference.target);
+                }
+            });
+
+            let removed = false;
+            for (const info of nonRoot) {
+                for (const uuid of this.read(info.name).keys()) {
+                    if (!referenced.has(uuid)) {
+                        this.write(info.name).delete(uuid);
+                        removed = true;
+                    }
+                }
+            }
+
+            if (!removed) {
+                return;
+            }
+        }
+    }
+
+    private removeDanglingWeakReferences(): void {
+        for (const info of this.tableInfo.values()) {
+            const weakColumns = [...info.columns.values()].filter((column) =>
+                [column.type.key, column.type.value].some((base) => base?.refType === "weak" && this.tableInfo.has(base.refTable ?? ""))
+            );
+            if (weakColumns.length === 0) {
+                continue;
+            }
+
+            for (const [uuid, row] of this.read(info.name)) {
+                let updated: Record<string, Datum> | null = null;
+                for (const column of weakColumns) {
+                    const datum = row[column.name];
+                    const exists = (atom: Atom, refTable: string | null) =>
+                        !refTable || this.read(refTable).has((atom as ["uuid", string])[1]);
+                    const keepKey = (index: number) =>
+                        (column.type.key.refType !== "weak" || exists(datum.keys[index], column.type.key.refTable)) &&
+                        (!datum.values || column.type.value?.refType !== "weak" || exists(datum.values[index], column.type.value.refTable));
+                    const kept = datum.keys.map((_, index) => index).filter(keepKey);
+
+                    if (kept.length !== datum.keys.length) {
+                        updated ??= {...row};
+                        updated[column.name] = {
+                            keys: kept.map((index) => datum.keys[index]),
+                            values: datum.values ? kept.map((index) => (datum.values as Atom[])[index]) : null
+                        };
+                    }
+                }
+                if (updated) {
+                    this.write(info.name).set(uuid, updated);
+                }
+            }
+        }
+    }
+
+    private checkReferences(): void {
+        this.forEachReference((reference) => {
+            if (reference.refType === "strong" && !this.read(reference.refTable).has(reference.target)) {
+                throw new OvsdbRpcError({
+                    error: "referential integrity violation",
+                    details: `Table ${reference.table} column ${reference.column} row ${reference.source} references nonexistent row ${reference.target} in table ${reference.refTable}`
+                });
+            }
+        });
+    }
+
+    private checkConstraints(): void {
+        for (const table of this.written) {
+            const info = this.tableInfo.get(table) as TableInfo;
+            const before = this.committed.get(table) as TableData;
+            const rows = this.read(table);
+
+            if (rows.size > info.maxRows) {
+                throw new OvsdbRpcError({
+                    error: "constraint violation",
+                    details: `Transaction causes ${table} table to contain ${rows.size} rows, greater than the schema-defined limit of ${info.maxRows} row(s)`
+                });
+            }
+
+            for (const [, row] of rows) {
+                if (before.get((row._uuid.keys[0] as ["uuid", string])[1]) === row) {
+                    continue;
+                }
+                for (const column of info.columns.values()) {
+                    if (row[column.name].keys.length < column.type.min) {
+                        throw new OvsdbRpcError({
+                            error: "constraint violation",
+                            details: `Column ${column.name} in table ${table} must have at least ${column.type.min} element(s)`
+                        });
+                    }
+                }
+            }
+
+            for (const index of info.indexes) {
+                const seen = new Set<string>();
+                for (const [, row] of rows) {
+                    const key = JSON.stringify(index.map((column) => row[column]));
+                    if (seen.has(key)) {
+                        throw new OvsdbRpcError({
+                            error: "constraint violation",
+                            details: `Transaction causes multiple rows in ${table} table to have identical values for index on columns ${index.join(", ")}`
+                        });
+                    }
+                    seen.add(key);
+                }
+            }
+        }
+    }
+
+    private forEachReference(visit: (reference: {
+        table: string;
+        column: string;
+        source: string;
+        refTable: string;
+        refType: "strong" | "weak";
+        target: string;
+    }) => void): void {
+        for (const info of this.tableInfo.values()) {
+            for (const column of info.columns.values()) {
+                for (const [base, side] of [[column.type.key, "keys"], [column.type.value, "values"]] as const) {
+                    if (!base?.refTable || !this.tableInfo.has(base.refTable)) {
+                        continue;
+                    }
+                    for (const [source, row] of this.read(info.name)) {
+                        for (const atom of row[column.name][side] ?? []) {
+                            visit({
+                                table: info.name,
+                                column: column.name,
+                                source,
+                                refTable: base.refTable,
+                                refType: base.refType,
+                                target: (atom as ["uuid", string])[1]
+                            });
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    private createSymbol(name: string): string {
+        const symbol = this.symbols.get(name);
+        if (symbol?.created) {
+            throw new OvsdbRpcError({error: "duplicate uuid-name", details: `${name} occurs as uuid-name more than once`});
+        }
+
+        const uuid = symbol?.uuid ?? randomUUID();
+        this.symbols.set(name, {uuid, created: true});
+        return uuid;
+    }
+
+    private readonly resolveSymbol: NamedUuidResolver = (name) => {
+        let symbol = this.symbols.get(name);
+        if (!symbol) {
+            symbol = {uuid: randomUUID(), created: false};
+            this.symbols.set(name, symbol);
+        }
+        return symbol.uuid;
+    };
+
+    private requireTable(table: JsonValue | undefined): TableInfo {
+        const info = this.tableInfo.get(requireString(table, "table"));
+        if (!info) {
+            throw new OvsdbRpcError({error: "unknown table", details: `No table named ${String(table)}`});
+        }
+        return info;
+    }
+
+    private read(table: string): TableData {
+        return this.tables.get(table) as TableData;
+    }
+
+    private write(table: string): TableData {
+        if (!this.written.has(table)) {
+            this.written.add(table);
+            this.tables.set(table, new Map(this.committed.get(table)));
+        }
+        return this.tables.get(table) as TableData;
+    }
+}
+
+function parseConditions(info: TableInfo, where: JsonValue | undefined, resolveNamedUuid: NamedUuidResolver | undefined): RowPredicate {
+    const predicates = requireArray(where, "where").map((condition): RowPredicate => {
+        if (typeof condition === "boolean") {
+            return () => condition;
+        }
+        if (!Array.isArray(condition) || condition.length !== 3 || typeof condition[1] !== "string") {
+            throw syntaxError(`${JSON.stringify(condition)} is not a valid condition`);
+        }
+
+        const column = requireColumn(info, condition[0]);
+        const func = condition[1];
+        const argument = parseDatum(condition[2], column.type, resolveNamedUuid);
+        const read = (row: StoredRow) => row[column.name];
+
+        switch (func) {
+            case "==":
+                return (row) => datumEquals(read(row), argument);
+            case "!=":
+                return (row) => !datumEquals(read(row), argument);
+            case "includes":
+                return (row) => includesAll(read(row), argument);
+            case "excludes":
+                return (row) => excludesAll(read(row), argument);
+            case "<":
+            case "<=":
+            case ">":
+            case ">=": {
+                const {key, value, max} = column.type;
+                if ((key.type !== "integer" && key.type !== "real") || value || max !== 1 || argument.keys.length !== 1) {
+                    throw syntaxError(`Type mismatch: ${func} is not supported for column ${column.name}`);
+                }
+                const bound = argument.keys[0] as number;
+                return (row) => {
+                    const current = read(row).keys[0] as number | undefined;
+                    if (current === undefined) {
+                        return false;
+                    }
+                    return func === "<" ? current < bound
+                        : func === "<=" ? current <= bound
+                            : func === ">" ? current > bound
+                                : current >= bound;
+                };
+            }
+            default:
+                throw syntaxError(`No function named ${func}`);
+        }
+    });
+
+    return (row) => predicates.every((predicate) => predicate(row));
+}
+
+function includesAll(datum: Datum, subset: Datum): boolean {
+    return subset.keys.every((key, index) => {
+        const position = findKey(datum, key);
+        return position !== -1 && (!subset.values || compareAtoms((datum.values as Atom[])[position], subset.values[index]) === 0);
+    });
+}
+
+function excludesAll(datum: Datum, subset: Datum): boolean {
+    return subset.keys.every((key, index) => {
+        const position = findKey(datum, key);
+        return position === -1 || (subset.values !== null && compareAtoms((datum.values as Atom[])[position], subset.values[index]) !== 0);
+    });
+}
+
+function applyMutation(
+    datum: Datum,
+    column: ColumnInfo,
+    operator: string,
+    argument: JsonValue,
+    resolveNamedUuid: NamedUuidResolver
+): Datum {
+    const {type} = column;
+    let result: Datum;
+
+    switch (operator) {
+        case "+=":
+        case "-=":
+        case "*=":
+        case "/=":
+        case "%=": {
+            if ((type.key.type !== "integer" && type.key.type !== "real") || type.value || (operator === "%=" && type.key.type !== "integer")) {
+                throw syntaxError(`Type mismatch: ${operator} is not supported for column ${column.name}`);
+            }
+
+            const operand = parseAtom(argument, type.key) as number;
+            if ((operator === "/=" || operator === "%=") && operand === 0) {
+                throw new OvsdbRpcError({error: "domain error", details: "Division by zero"});
+            }
+
+            const keys = datum.keys.map((key) => {
+                const current = key as number;
+                const next = operator === "+=" ? current + operand
+                    : operator === "-=" ? current - operand
+                        : operator === "*=" ? current * operand
+                            : operator === "/=" ? current / operand
+                                : current % operand;
+                const value = type.key.type === "integer" ? Math.trunc(next) : next;
+                if (type.key.type === "integer" ? !Number.isSafeInteger(value) : !Number.isFinite(value)) {
+                    throw new OvsdbRpcError({error: "range error", details: `Result of ${operator} on column ${column.name} is out of range`});
+                }
+                return value;
+            });
+            result = createDatum(keys, null);
+            break;
+        }
+        case "insert": {
+            const addition = parseDatum(argument, {...type, min: 0, max: Number.POSITIVE_INFINITY}, resolveNamedUuid);
+            const keys = [...datum.keys];
+            const values = datum.values ? [...datum.values] : null;
+            addition.keys.forEach((key, index) => {
+                if (findKey(datum, key) === -1) {
+                    keys.push(key);
+                    values?.push((addition.values as Atom[])[index]);
+                }
+            });
+            result = createDatum(keys, values);
+            break;
+        }
+        case "delete": {
+            const isMap = Array.isArray(argument) && argument[0] === "map";
+            const removal = parseDatum(
+                argument,
+                isMap ? {...type, min: 0} : {key: type.key, value: null, min: 0, max: Number.POSITIVE_INFINITY},
+                resolveNamedUuid
+            );
+            const kept = datum.keys.map((_, index) => index).filter((index) => {
+                const position = findKey(removal, datum.keys[index]);
+                return position === -1 ||
+                    (removal.values !== null && compareAtoms(removal.values[position], (datum.values as Atom[])[index]) !== 0);
+            });
+            result = {
+                keys: kept.map((index) => datum.keys[index]),
+                values: datum.values ? kept.map((index) => (datum.values as Atom[])[index]) : null
+            };
+            break;
+        }
+        default:
+            throw syntaxError(`No mutator named ${operator}`);
+    }
+
+    checkDatum(result, type, column.name);
+    return result;
+}
+
+function formatChanges(monitor: RegisteredMonitor, changes: readonly RowChange[]): JsonObject {
+    const updates: JsonObject = {};
+
+    for (const change of changes) {
+        const monitored = monitor.tables.get(change.table);
+        if (!monitored) {
+            continue;
+        }
+
+        const update = monitor.conditional
+            ? formatRowUpdate2(monitored, change.old, change.new)
+            : formatRowUpdate(monitored, change.old, change.new);
+        if (update) {
+            addRowUpdate(updates, change.table, change.uuid, update);
+        }
+    }
+
+    return updates;
+}
+
+function formatRowUpdate(monitored: MonitoredTable, old: StoredRow | null, row: StoredRow | null): JsonObject | null {
+    if (!old) {
+        return row && monitored.select.insert ? {new: projectRow(row, monitored, false)} : null;
+    }
+    if (!row) {
+        return monitored.select.delete ? {old: projectRow(old, monitored, false)} : null;
+    }
+
+    const changed = monitored.columns.filter((column) => !datumEquals(old[column], row[column]));
+    if (!monitored.select.modify || changed.length === 0) {
+        return null;
+    }
+
+    const previous: JsonObject = {};
+    for (const column of changed) {
+        previous[column] = datumToJson(old[column]);
+    }
+    return {old: previous, new: projectRow(row, monitored, false)};
+}
+
+function formatRowUpdate2(monitored: MonitoredTable, old: StoredRow | null, row: StoredRow | null): JsonObject | null {
+    const oldMatches = old !== null && (!monitored.where || monitored.where(old));
+    const newMatches = row !== null && (!monitored.where || monitored.where(row));
+
+    if (!oldMatches) {
+        return newMatches && monitored.select.insert ? {insert: projectRow(row as StoredRow, monitored, true)} : null;
+    }
+    if (!newMatches) {
+        return monitored.select.delete ? {delete: null} : null;
+    }
+
+    const diff: JsonObject = {};
+    for (const column of monitored.columns) {
+        const before = (old as StoredRow)[column];
+        const after = (row as StoredRow)[column];
+        if (!datumEquals(before, after)) {
+            const {type} = monitored.info.columns.get(column) as ColumnInfo;
+            diff[column] = type.min === 1 && type.max === 1 && !type.value
+                ? datumToJson(after)
+                : datumToJson(diffDatums(before, after));
+        }
+    }
+
+    return monitored.select.modify && Object.keys(diff).length > 0 ? {modify: diff} : null;
+}
+
+/**
+ * Computes an `update2` diff: set elements present on only one side, map
+ * pairs that were added or removed, and the new value of changed map keys.
+ */
+function diffDatums(before: Datum, after: Datum): Datum {
+    const keys: Atom[] = [];
+    const values: Atom[] | null = after.values ? [] : null;
+
+    before.keys.forEach((key, index) => {
+        if (findKey(after, key) === -1) {
+            keys.push(key);
+            values?.push((before.values as Atom[])[index]);
+        }
+    });
+    after.keys.forEach((key, index) => {
+        const position = findKey(before, key);
+        if (position === -1 || (values && compareAtoms((before.values as Atom[])[position], (after.values as Atom[])[index]) !== 0)) {
+            keys.push(key);
+            values?.push((after.values as Atom[])[index]);
+        }
+    });
+
+    return createDatum(keys, values);
+}
+
+function projectRow(row: StoredRow, monitored: MonitoredTable, omitDefaults: boolean): JsonObject {
+    const projected: JsonObject = {};
+    for (const column of monitored.columns) {
+        const datum = row[column];
+        if (omitDefaults && datumEquals(datum, defaultDatum((monitored.info.columns.get(column) as ColumnInfo).type))) {
+            continue;
+        }
+        projected[column] = datumToJson(datum) as JsonValue;
+    }
+    return projected;
+}
+
+function addRowUpdate(updates: JsonObject, table: string, uuid: string, update: JsonObject): void {
+    const tableUpdates = (updates[table] ??= {}) as JsonObject;
+    tableUpdates[uuid] = update;
+}
+
+function mergeChanges(changes: readonly RowChange[]): RowChange[] {
+    const merged = new Map<string, RowChange>();
+
+    for (const change of changes) {
+        const key = `${change.table}:${change.uuid}`;
+        const previous = merged.get(key);
+        merged.set(key, previous ? {...previous, new: change.new} : change);
+    }
+
+    return [...merged.values()].filter((change) => change.old !== null || change.new !== null);
+}
+
+function uuidDatum(uuid: string): Datum {
+    return {keys: [["uuid", uuid]], values: null};
+}
+
+function requireColumn(info: TableInfo, name: JsonValue): ColumnInfo {
+    const column = info.columns.get(requireString(name, "column"));
+    if (!column) {
+        throw new OvsdbRpcError({error: "unknown column", details: `No column ${String(name)} in table ${info.name}`});
+    }
+    return column;
+}
+
+function requireString(value: JsonValue | undefined, member: string): string {
+    if (typeof value !== "string") {
+        throw syntaxError(`${member} must be a string`);
+    }
+    return value;
+}
+
+function requireNumber(value: JsonValue | undefined, member: string): number {
+    if (typeof value !== "number") {
+        throw syntaxError(`${member} must be a number`);
+    }
+    return value;
+}
+
+function requireArray(value: JsonValue | undefined, member: string): JsonValue[] {
+    if (!Array.isArray(value)) {
+        throw syntaxError(`${member} must be an array`);
+    }
+    return value;
+}
+
+function isObject(value: JsonValue | undefined): value is JsonObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function syntaxError(details: string): OvsdbRpcError {
+    return new OvsdbRpcError({error: "syntax error", details});
+}
@@ -0,0 +1,162 @@
+import {stringifyJson} from "./json";
+import {datumToJson, defaultDatum, resolveColumnType, resolveTableColumns} from "./schema";
+import type {ColumnTypeInfo} from "./schema";
+import type {JsonValue, OvsdbValue, OvsMap, OvsSet, RowRecord, RowUpdate2, TableSchema, Type} from "./types";
+
+/**
+ * Settings for {@link applyRowUpdate2}.
+ */
+export interface ApplyRowUpdateOptions {
+    /**
+     * Columns the row carries, usually the monitored columns. Only these get
+     * their default filled in when an `initial` or `insert` entry omits them.
+     *
+     * @defaultValue every column of the table
+     */
+    columns?: readonly string[];
+}
+
+/**
+ * Applies an update2 diff to a scalar column: the diff is the new value.
+ */
+export function applyScalarDiff<TValue>(_previous: TValue, diff: TValue): TValue {
+    return diff;
+}
+
+/**
+ * Applies an update2 diff to a set column. The diff lists the elements to
+ * toggle: elements already present are removed, the others are added.
+ *
+ * Both arguments may be single elements sent as bare atoms. The result is
+ * always a `["set", [...]]` value.
+ */
+export function applySetDiff<TElement>(previous: OvsSet<TElement> | TElement, diff: OvsSet<TElement> | TElement): OvsSet<TElement> {
+    const elements = new Map(setElements(previous).map((element) => [elementKey(element), element]));
+    for (const element of setElements(diff)) {
+        const key = elementKey(element);
+        if (elements.has(key)) {
+            elements.delete(key);
+        } else {
+            elements.set(key, element);
+        }
+    }
+    return ["set", [...elements.values()]];
+}
+
+/**
+ * Applies an update2 diff to an optional column (`min` 0, `max` 1), which
+ * the protocol treats as a set: a bare atom sets an empty column or clears
+ * it when equal to the current value, and a two-element set replaces one
+ * value with the other.
+ *
+ * @throws Error When the diff leaves more than one value.
+ */
+export function applyOptionalDiff<TElement>(previous: OvsSet<TElement> | TElement, diff: OvsSet<TElement> | TElement): OvsSet<TElement> {
+    const result = applySetDiff(previous, diff);
+    if (result[1].length > 1) {
+        throw new Error(`Diff ${stringifyJson(diff as JsonValue)} leaves ${result[1].length} values in an optional column`);
+    }
+    return result;
+}
+
+/**
+ * Applies an update2 diff to a map column. For each pair of the diff, a new
+ * key is added, a key with the same value is removed, and a key with a
+ * different value takes the new value.
+ */
+export function applyMapDiff<TKey, TValue>(previous: OvsMap<TKey, TValue>, diff: OvsMap<TKey, TValue>): OvsMap<TKey, TValue> {
+    const pairs = new Map(previous[1].map((pair) => [elementKey(pair[0]), pair]));
+    for (const [key, value] of diff[1]) {
+        const id = elementKey(key);
+        const existing = pairs.get(id);
+        if (existing && elementKey(existing[1]) === elementKey(value)) {
+            pairs.delete(id);
+        } else {
+            pairs.set(id, [key, value]);
+        }
+    }
+    return ["map", [...pairs.values()]];
+}
+
+/**
+ * Applies an update2 diff to a column of the given schema type, choosing
+ * the scalar, optional, set, or map rules. A missing previous value stands
+ * for the column default.
+ */
+export function applyColumnDiff(type: Type, previous: OvsdbValue | undefined, diff: OvsdbValue): OvsdbValue {
+    return applyResolvedDiff(resolveColumnType(type), previous, diff);
+}
+
+/**
+ * Applies an update2 or update3 row update to the previous version of a row,
+ * following the `monitor_cond` rules of Open vSwitch:
+ *
+ * - `initial` and `insert` carry the new row, without columns that hold
+ *   their default; those are filled in.
+ * - `modify` carries a diff for each changed column, applied with
+ *   {@link applyColumnDiff}.
+ * - `delete` removes the row.
+ *
+ * @returns The new row, or `null` when the row was deleted.
+ * @throws Error When `modify` names an unknown column or there is no
+ * previous row to modify.
+ */
+export function applyRowUpdate2<TRow extends RowRecord = RowRecord>(
+    table: TableSchema,
+    previous: Partial<TRow> | null | undefined,
+    update: RowUpdate2<TRow>,
+    options: ApplyRowUpdateOptions = {}
+): Partial<TRow> | null {
+    const inserted = update.initial ?? update.insert;
+    if (inserted) {
+        const row = {...inserted} as RowRecord;
+        for (const column of options.columns ?? Object.keys(table.columns)) {
+            const schema = table.columns[column];
+            if (schema && !(column in row)) {
+                row[column] = datumToJson(defaultDatum(resolveColumnType(schema.type)));
+            }
+        }
+        return row as Partial<TRow>;
+    }
+
+    if (update.modify) {
+        if (!previous) {
+            throw new Error("Cannot apply a modify update without the previous row");
+        }
+
+        const columns = resolveTableColumns(table);
+        const row = {...previous} as RowRecord;
+        for (const [column, diff] of Object.entries(update.modify)) {
+            const info = columns.get(column);
+            if (!info) {
+                throw new Error(`Column ${column} does not exist`);
+            }
+            row[column] = applyResolvedDiff(info.type, row[column], diff as OvsdbValue);
+        }
+        return row as Partial<TRow>;
+    }
+
+    return "delete" in update ? null : previous ?? null;
+}
+
+/**
+ * {@link applyColumnDiff} for a column type that was already resolved.
+ */
+export function applyResolvedDiff(type: ColumnTypeInfo, previous: OvsdbValue | undefined, diff: OvsdbValue): OvsdbValue {
+    const current = previous ?? datumToJson(defaultDatum(type));
+    if (type.value) {
+        return applyMapDiff(current as OvsMap, diff as OvsMap) as OvsdbValue;
+    }
+    if (type.min === 1 && type.max === 1) {
+        return applyScalarDiff(current, diff);
+    }
+    return (type.max === 1 ? applyOptionalDiff(current, diff) : applySetDiff(current, diff)) as OvsdbValue;
+}
+
+function setElements<TElement>(value: OvsSet<TElement> | TElement): TElement[] {
+    return Array.isArray(value) && value[0] === "set" ? value[1] as TElement[] : [value as TElement];
+}
+
+function elementKey(value: unknown): string {
+    return stringifyJson(value as JsonValue);
+}
@@ -0,0 +1,212 @@
+import {EventEmitter} from "node:events";
+
+import type {
+    OVSDBClient,
+    OvsdbRequestOptions,
+    OvsdbSessionRestore,
+    OvsdbTransaction,
+    OvsdbTransactionOptions,
+    OvsdbTransactionOutcome
+} from "./index";
+import type {DatabaseTableMap, JsonObject, LockedNotification, StolenNotification} from "./types";
+
+/**
+ * Why an {@link OvsdbLeaderElection} lost leadership.
+ *
+ * - `stolen`: another client stole the lock. The election keeps waiting and
+ *   becomes leader again when the lock is released.
+ * - `disconnected`: the connection dropped. With `reconnect` enabled the lock
+ *   is requested again once the client reconnects.
+ * - `released`: the election was closed.
+ */
+export type OvsdbDeposeReason = "stolen" | "disconnected" | "released";
+
+/**
+ * Settings for an {@link OvsdbLeaderElection}.
+ */
+export interface OvsdbLeaderElectionOptions {
+    /**
+     * Takes the lock from its current owner with `steal` instead of waiting
+     * for it with `lock`.
+     *
+     * @defaultValue `false`
+     */
+    steal?: boolean;
+}
+
+/**
+ * Events emitted by {@link OvsdbLeaderElection}.
+ */
+export interface OvsdbLeaderElectionEvents {
+    /**
+     * This client now owns the lock.
+     */
+    elected: [];
+    /**
+     * This client no longer owns the lock.
+     */
+    deposed: [reason: OvsdbDeposeReason];
+}
+
+/**
+ * Leader election on top of an OVSDB lock.
+ *
+ * Every participant requests the same named lock; the server grants it to
+ * one of them and queues the others. The election follows `locked` and
+ * `stolen` notifications and reconnects, and {@link transaction} prefixes
+ * writes with an `assert` so they only commit while this client leads.
+ */
+export class OvsdbLeaderElection<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap
+> extends EventEmitter<OvsdbLeaderElectionEvents> implements AsyncDisposable {
+    /**
+     * Name of the lock used for the election.
+     */
+    public readonly lockId: string;
+
+    private readonly client: OVSDBClient<TDatabase>;
+    private readonly steal: boolean;
+    private leader = false;
+    private started = false;
+
+    /**
+     * Creates an election. Call {@link start} to request the lock.
+     */
+    constructor(client: OVSDBClient<TDatabase>, lockId: string, options: OvsdbLeaderElectionOptions = {}) {
+        super();
+        this.client = client;
+        this.lockId = lockId;
+        this.steal = options.steal ?? false;
+    }
+
+    /**
+     * Whether this client currently owns the lock.
+     */
+    public get isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * Requests the lock. Resolves once the server answered, which does not
+     * mean the lock was granted; check {@link isLeader} or wait for
+     * `elected`.
+     */
+    public async start(options?: OvsdbRequestOptions): Promise<this> {
+        if (this.started) {
+            return this;
+        }
+
+        this.client.on("locked", this.handleLocked);
+        this.client.on("stolen", this.handleStolen);
+        this.client.on("close", this.handleClose);
+        this.client.on("reconnected", this.handleReconnected);
+        this.started = true;
+
+        let result: null | JsonObject;
+        try {
+            result = this.steal
+                ? await this.client.steal(this.lockId, options)
+                : await this.client.lock(this.lockId, options);
+        } catch (error) {
+            this.detach();
+            throw error;
+        }
+
+        if (this.steal || result?.locked === true) {
+            this.setLeader(true);
+        }
+        return this;
+    }
+
+    /**
+     * Runs a staged transaction that starts with an `assert` on the election
+     * lock, so it fails with `"not owner"` if leadership was lost before the
+     * server executed it.
+     *
+     * @throws Error When this client is not the leader.
+     */
+    public async transaction<TValue>(
+        dbName: string,
+        callback: (transaction: OvsdbTransaction<TDatabase>) => Promise<TValue> | TValue,
+        options?: OvsdbTransactionOptions
+    ): Promise<OvsdbTransactionOutcome<TDatabase, TValue>> {
+        if (!this.leader) {
+            throw new Error(`Not the leader for lock ${this.lockId}`);
+        }
+
+        return await this.client.transaction(dbName, async (transaction) => {
+            transaction.assert(this.lockId);
+            return await callback(transaction);
+        }, options);
+    }
+
+    /**
+     * Releases the lock and stops following it. Emits `deposed` with
+     * `released` when this client was the leader.
+     */
+    public async close(options?: OvsdbRequestOptions): Promise<void> {
+        if (!this.started) {
+            return;
+        }
+
+        this.detach();
+        if (this.leader) {
+            this.setLeader(false, "released");
+        }
+        if (this.client.isConnected) {
+            await this.client.unlock(this.lockId, options);
+        }
+    }
+
+    /**
+     * Closes the election.
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.close().catch(() => undefined);
+    }
+
+    private readonly handleLocked = (notification: LockedNotification): void => {
+        if (notification.params[0] === this.lockId) {
+            this.setLeader(true);
+        }
+    };
+
+    private readonly handleStolen = (notification: StolenNotification): void => {
+        if (notification.params[0] === this.lockId) {
+            this.setLeader(false, "stolen");
+        }
+    };
+
+    private readonly handleClose = (): void => {
+        this.setLeader(false, "disconnected");
+    };
+
+    private readonly handleReconnected = (restore: OvsdbSessionRestore<TDatabase>): void => {
+        if (restore.locks.some((lock) => lock.lockId === this.lockId && lock.locked)) {
+            this.setLeader(true);
+        }
+    };
+
+    private setLeader(leader: true): void;
+    private setLeader(leader: false, reason: OvsdbDeposeReason): void;
+    private setLeader(leader: boolean, reason?: OvsdbDeposeReason): void {
+        if (this.leader === leader) {
+            return;
+        }
+
+        this.leader = leader;
+        if (leader) {
+            this.emit("elected");
+        } else {
+            this.emit("deposed", reason as OvsdbDeposeReason);
+        }
+    }
+
+    private detach(): void {
+        this.client.off("locked", this.handleLocked);
+        this.client.off("stolen", this.handleStolen);
+        this.client.off("close", this.handleClose);
+        this.client.off("reconnected", this.handleReconnected);
+        this.started = false;
+    }
+}
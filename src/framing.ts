@@ -0,0 +1,123 @@
+import {StringDecoder} from "node:string_decoder";
+
+/**
+ * An item produced by {@link JsonFrameDecoder}: either a complete JSON message
+ * or a framing failure.
+ */
+export type JsonFrame =
+    | {type: "frame"; text: string}
+    | {type: "invalid"; data: string}
+    | {type: "oversize"; limit: number};
+
+/**
+ * Splits a byte stream into complete top-level JSON objects or arrays.
+ *
+ * The decoder keeps its nesting depth and string state between chunks and
+ * scans every chunk on its own, so every character is inspected once no
+ * matter how a message is split. The chunks of an unfinished message are
+ * only joined once the message completes, which keeps large messages that
+ * arrive in many chunks linear to decode. Bytes are decoded with a streaming
+ * UTF-8 decoder, which keeps multibyte characters intact across chunk
+ * boundaries.
+ */
+export class JsonFrameDecoder {
+    private readonly maxMessageSize: number;
+
+    private decoder = new StringDecoder("utf8");
+    private pieces: string[] = [];
+    private frameLength = 0;
+    private inFrame = false;
+    private depth = 0;
+    private inString = false;
+    private escaping = false;
+
+    /**
+     * Creates a new decoder.
+     *
+     * @param maxMessageSize Maximum length of a single message in characters.
+     */
+    constructor(maxMessageSize = Number.POSITIVE_INFINITY) {
+        this.maxMessageSize = maxMessageSize;
+    }
+
+    /**
+     * Feeds a chunk and returns every message completed by it.
+     *
+     * After an `invalid` or `oversize` item the decoder discards its buffered
+     * data and starts over with the next chunk.
+     */
+    public push(chunk: Buffer | string): JsonFrame[] {
+        const text = typeof chunk === "string" ? chunk : this.decoder.write(chunk);
+
+        const frames: JsonFrame[] = [];
+        // Start of the current message within `text`; earlier parts of it are
+        // held in `pieces`.
+        let start = 0;
+        for (let index = 0; index < text.length; index += 1) {
+            const char = text[index];
+
+            if (!this.inFrame) {
+                if (char === "{" || char === "[") {
+                    this.inFrame = true;
+                    this.depth = 1;
+                    start = index;
+                } else if (!/\s/u.test(char)) {
+                    frames.push({type: "invalid", data: text.slice(index)});
+                    this.reset();
+                    return frames;
+                }
+                continue;
+            }
+
+            if (this.frameLength + index + 1 - start > this.maxMessageSize) {
+                frames.push({type: "oversize", limit: this.maxMessageSize});
+                this.reset();
+                return frames;
+            }
+
+            if (this.inString) {
+                if (this.escaping) {
+                    this.escaping = false;
+                } else if (char === "\\") {
+                    this.escaping = true;
+                } else if (char === "\"") {
+                    this.inString = false;
+                }
+                continue;
+            }
+
+            if (char === "\"") {
+                this.inString = true;
+            } else if (char === "{" || char === "[") {
+                this.depth += 1;
+            } else if ((char === "}" || char === "]") && --this.depth === 0) {
+                this.pieces.push(text.slice(start, index + 1));
+                frames.push({type: "frame", text: this.pieces.join("")});
+                this.pieces = [];
+                this.frameLength = 0;
+                this.inFrame = false;
+            }
+        }
+
+        if (this.inFrame) {
+            const rest = text.slice(start);
+            this.pieces.push(rest);
+            this.frameLength += rest.length;
+        }
+
+        return frames;
+    }
+
+    /**
+     * Discards all buffered data and scanner state.
+     */
+    public reset(): void {
+        this.decoder = new StringDecoder("utf8");
+        this.pieces = [];
+        this.frameLength = 0;
+        this.inFrame = false;
+        this.depth = 0;
+        this.inString = false;
+        this.escaping = false;
+    }
+}
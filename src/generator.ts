@@ -26,6 +26,14 @@ export interface GenerateTypesOptions {
      * @defaultValue `"@sourceregistry/node-ovsdb"`
      */
     importFrom?: string;
+
+    /**
+     * Types integer columns as `number | bigint`, matching a client created
+     * with the `bigint` option.
+     *
+     * @defaultValue `false`
+     */
+    bigint?: boolean;
 }
 
 /**
@@ -37,6 +45,12 @@ export interface GenerateTypesCliOptions {
      */
     schemaPath?: string;
 
+    /**
+     * Remote in Open vSwitch syntax for live schema introspection, such as
+     * `"tcp:10.0.0.1:6641,tcp:10.0.0.2:6641"` or `"ssl:ovn-nb:6641"`.
+     */
+    remote?: string;
+
     /**
      * Unix socket path for live schema introspection.
      */
@@ -107,6 +121,11 @@ export interface GenerateTypesCliOptions {
      * @defaultValue `"@sourceregistry/node-ovsdb"`
      */
     importFrom?: string;
+
+    /**
+     * Types integer columns as `number | bigint`.
+     */
+    bigint?: boolean;
 }
 
 const OVSDB_IMPORT_TYPES = ["OvsMap", "OvsSet", "Uuid"] as const;
@@ -132,7 +151,7 @@ export function generateTypesFromSchema(options: GenerateTypesOptions): string {
             .sort((left, right) => left.localeCompare(right))
             .map((columnName) => {
                 const column = table.columns[columnName];
-                const tsType = renderColumnType(column.type);
+                const tsType = renderColumnType(column.type, options.bigint ?? false);
                 const optional = isOptionalColumn(column.type) ? "?" : "";
                 return `    ${toPropertyKey(columnName)}${optional}: ${tsType};`;
             });
@@ -188,7 +207,8 @@ export async function generateTypesFile(options: GenerateTypesCliOptions): Promi
     const output = generateTypesFromSchema({
         schema,
         databaseTypeName: options.databaseTypeName,
-        importFrom: options.importFrom
+        importFrom: options.importFrom,
+        bigint: options.bigint
     });
 
     if (options.outputPath) {
@@ -210,6 +230,7 @@ export async function readSchemaFile(schemaPath: string): Promise<DatabaseSchema
  * Reads a schema from a live OVSDB server.
  */
 export async function fetchSchemaFromOvsdb(options: {
+    remote?: string;
     socketPath?: string;
     host?: string;
     port?: number;
@@ -237,6 +258,7 @@ async function loadSchema(options: GenerateTypesCliOptions): Promise<DatabaseSch
     }
 
     return await fetchSchemaFromOvsdb({
+        remote: options.remote,
         socketPath: options.socketPath,
         host: options.host,
         port: options.port,
@@ -254,6 +276,7 @@ async function loadSchema(options: GenerateTypesCliOptions): Promise<DatabaseSch
  * Builds client transport options for live schema introspection.
  */
 export async function createGeneratorClientOptions(options: {
+    remote?: string;
     socketPath?: string;
     host?: string;
     port?: number;
@@ -264,6 +287,13 @@ export async function createGeneratorClientOptions(options: {
     tlsCertFile?: string;
     tlsKeyFile?: string;
 }): Promise<OvsdbClientOptions> {
+    if (options.remote) {
+        return {
+            remote: options.remote,
+            tlsOptions: await createGeneratorTlsOptions(options)
+        };
+    }
+
     if (!options.host) {
         return {
             socketPath: options.socketPath
@@ -274,30 +304,41 @@ export async function createGeneratorClientOptions(options: {
         host: options.host,
         port: options.port,
         tls: options.tls,
-        tlsOptions: {
-            servername: options.tlsServername ?? options.host,
-            rejectUnauthorized: options.tlsInsecure ? false : undefined,
-            ca: options.tlsCaFile ? await readFile(options.tlsCaFile, "utf8") : undefined,
-            cert: options.tlsCertFile ? await readFile(options.tlsCertFile, "utf8") : undefined,
-            key: options.tlsKeyFile ? await readFile(options.tlsKeyFile, "utf8") : undefined
-        }
+        tlsOptions: await createGeneratorTlsOptions(options)
+    };
+}
+
+async function createGeneratorTlsOptions(options: {
+    host?: string;
+    tlsInsecure?: boolean;
+    tlsServername?: string;
+    tlsCaFile?: string;
+    tlsCertFile?: string;
+    tlsKeyFile?: string;
+}): Promise<NonNullable<OvsdbClientOptions["tlsOptions"]>> {
+    return {
+        servername: options.tlsServername ?? options.host,
+        rejectUnauthorized: options.tlsInsecure ? false : undefined,
+        ca: options.tlsCaFile ? await readFile(options.tlsCaFile, "utf8") : undefined,
+        cert: options.tlsCertFile ? await readFile(options.tlsCertFile, "utf8") : undefined,
+        key: options.tlsKeyFile ? await readFile(options.tlsKeyFile, "utf8") : undefined
     };
 }
 
-function renderColumnType(type: DatabaseSchema["tables"][string]["columns"][string]["type"]): string {
+function renderColumnType(type: DatabaseSchema["tables"][string]["columns"][string]["type"], bigint: boolean): string {
     if (typeof type === "string") {
-        return renderAtomicType(type);
+        return renderAtomicType(type, bigint);
     }
 
     if ("value" in type && type.value !== undefined) {
-        return `OvsMap<${renderBaseType(type.key)}, ${renderBaseType(type.value)}>`;
+        return `OvsMap<${renderBaseType(type.key, bigint)}, ${renderBaseType(type.value, bigint)}>`;
     }
 
     if (isScalarType(type)) {
-        return renderBaseType(type.key);
+        return renderBaseType(type.key, bigint);
     }
 
-    return `OvsSet<${renderBaseType(type.key)}>`;
+    return `OvsSet<${renderBaseType(type.key, bigint)}>`;
 }
 
 function isOptionalColumn(type: DatabaseSchema["tables"][string]["columns"][string]["type"]): boolean {
@@ -314,21 +355,22 @@ function isScalarType(type: Extract<DatabaseSchema["tables"][string]["columns"][
     return min === 1 && max === 1;
 }
 
-function renderBaseType(baseType: BaseType): string {
+function renderBaseType(baseType: BaseType, bigint: boolean): string {
     if (typeof baseType === "string") {
-        return renderAtomicType(baseType);
+        return renderAtomicType(baseType, bigint);
     }
 
     if (baseType.enum) {
         return renderEnum(baseType.enum);
     }
 
-    return renderAtomicType(baseType.type);
+    return renderAtomicType(baseType.type, bigint);
 }
 
-function renderAtomicType(type: AtomicType): string {
+function renderAtomicType(type: AtomicType, bigint: boolean): string {
     switch (type) {
         case "integer":
+            return bigint ? "number | bigint" : "number";
         case "real":
             return "number";
         case "boolean":
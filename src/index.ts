@@ -29,16 +29,35 @@ import type {
     OvsdbNotification,
     OvsdbResponse,
     OvsdbValue,
+    RowRecord,
+    SelectedRow,
     SelectOperation,
+    SelectResult,
     StolenNotification,
+    TableName,
+    TableRow,
     TableUpdates,
     TableUpdates2,
     Update2Notification,
     Update3Notification,
     UpdateNotification,
     UpdateOperation,
+    Uuid,
     WaitOperation
 } from "./types";
+import {JsonFrameDecoder} from "./framing";
+import {parseJson, stringifyJson} from "./json";
+import {OvsdbClientInstrumentation} from "./instrumentation";
+import {validateOperations} from "./validation";
+import {decodeOperationResults, decodeTableUpdates} from "./codec";
+import {OvsdbConditionBuilder, OvsdbTableQuery} from "./query";
+import {OvsdbTableRepository} from "./repository";
+import {OvsdbNotificationStream} from "./stream";
+import {OvsdbMonitorSubscription} from "./subscription";
+import type {OvsdbInstrumentationOptions} from "./instrumentation";
+import type {QueryColumnName, QueryRow} from "./query";
+import type {OvsdbNotificationMethod, OvsdbNotificationStreamOptions, OvsdbStreamSink} from "./stream";
+import type {OvsdbTraceDirection, OvsdbTraceOptions} from "./tracing";
 
 /**
  * A socket-compatible stream used by the client transport.
@@ -99,12 +118,186 @@ export interface OvsdbClientEvents<TDatabase extends DatabaseTableMap = Database
     stolen: [StolenNotification];
     protocolError: [Error, unknown];
     transportError: [Error];
+    reconnecting: [attempt: number, delay: number];
+    reconnected: [OvsdbSessionRestore<TDatabase>];
+    reconnectFailed: [Error];
+    inactivityTimeout: [interval: number];
+    clusterStatus: [OvsdbClusterStatus];
+    unhandledRequest: [method: string, params: JsonValue[], id: JsonValue];
 }
 
+/**
+ * Handles a JSON-RPC request sent by the server.
+ *
+ * The returned value becomes the response `result`. Throw an
+ * {@link OvsdbRpcError} or an {@link OvsdbError}-shaped object to respond with
+ * that error; any other exception is reported as an `internal error`.
+ */
+export type OvsdbRequestHandler = (params: JsonValue[], id: JsonValue) => Promise<JsonValue> | JsonValue;
+
+/**
+ * Settings for clustered database awareness.
+ */
+export interface OvsdbClusterOptions {
+    /**
+     * Database whose Raft status is tracked, such as `"OVN_Northbound"`.
+     */
+    database: string;
+
+    /**
+     * Only accept a server that is the leader of its cluster.
+     *
+     * When `false`, followers are accepted as long as they are connected to the cluster.
+     *
+     * @defaultValue `true`
+     */
+    leaderOnly?: boolean;
+
+    /**
+     * What to do when the connected server is not acceptable.
+     *
+     * `"rotate"` drops the connection and tries the next configured remote.
+     * `"reject"` fails `connect()` with an {@link OvsdbClusterError}.
+     *
+     * @defaultValue `"rotate"`
+     */
+    onNotLeader?: "rotate" | "reject";
+}
+
+/**
+ * Cluster status of a database as reported by the `_Server` database.
+ */
+export interface OvsdbClusterStatus {
+    /**
+     * Database name.
+     */
+    database: string;
+
+    /**
+     * Storage model of the database.
+     */
+    model: "standalone" | "clustered" | "relay";
+
+    /**
+     * Whether the server is connected to its cluster and therefore not stale.
+     */
+    connected: boolean;
+
+    /**
+     * Whether the server is the cluster leader. Always `true` for standalone databases.
+     */
+    leader: boolean;
+
+    /**
+     * Raft log index of the last change seen by the server, when clustered.
+     */
+    index: number | null;
+
+    /**
+     * Cluster id, when clustered.
+     */
+    cid: string | null;
+
+    /**
+     * Server id, when clustered.
+     */
+    sid: string | null;
+}
+
+/**
+ * Backoff settings for automatic reconnection.
+ */
+export interface OvsdbReconnectOptions {
+    /**
+     * Delay before the first reconnect attempt in milliseconds.
+     *
+     * @defaultValue `1000`
+     */
+    initialDelay?: number;
+
+    /**
+     * Upper bound for the delay between attempts in milliseconds.
+     *
+     * @defaultValue `8000`
+     */
+    maxDelay?: number;
+
+    /**
+     * Factor applied to the delay after every failed attempt.
+     *
+     * @defaultValue `2`
+     */
+    multiplier?: number;
+
+    /**
+     * Random spread applied to every delay, as a fraction of the delay.
+     *
+     * A value of `0.2` picks a delay between 80% and 120% of the computed backoff.
+     *
+     * @defaultValue `0.2`
+     */
+    jitter?: number;
+
+    /**
+     * Number of consecutive failed attempts before the client gives up.
+     *
+     * @defaultValue `Infinity`
+     */
+    maxAttempts?: number;
+}
+
+/**
+ * Monitor that was re-issued after a reconnect.
+ */
+export type OvsdbRestoredMonitor<TDatabase extends DatabaseTableMap = DatabaseTableMap> =
+    | {method: "monitor"; monitorId: JsonValue; dbName: string; result: TableUpdates<TDatabase>}
+    | {method: "monitor_cond"; monitorId: JsonValue; dbName: string; result: TableUpdates2<TDatabase>}
+    | {method: "monitor_cond_since"; monitorId: JsonValue; dbName: string; result: MonitorCondSinceResult<TDatabase>}
+    | {method: OvsdbMonitorMethod; monitorId: JsonValue; dbName: string; error: OvsdbRpcError};
+
+/**
+ * Session state restored after a reconnect.
+ */
+export interface OvsdbSessionRestore<TDatabase extends DatabaseTableMap = DatabaseTableMap> {
+    /**
+     * Reconnect attempt that succeeded.
+     */
+    attempt: number;
+
+    /**
+     * Re-issued monitors with their fresh initial results.
+     *
+     * Monitors rejected by the server are reported with an `error` and are no
+     * longer tracked by the client.
+     */
+    monitors: Array<OvsdbRestoredMonitor<TDatabase>>;
+
+    /**
+     * Re-requested locks and whether the server granted them immediately.
+     */
+    locks: Array<{lockId: string; locked: boolean}>;
+}
+
+/**
+ * Monitor RPC methods tracked by the client.
+ */
+export type OvsdbMonitorMethod = "monitor" | "monitor_cond" | "monitor_cond_since";
+
 /**
  * Options for configuring an {@link OVSDBClient}.
  */
 export interface OvsdbClientOptions {
+    /**
+     * One or more remotes in Open vSwitch syntax, such as
+     * `"tcp:10.0.0.1:6641,tcp:10.0.0.2:6641"`, `"ssl:ovn-nb:6641"`, or
+     * `"unix:/var/run/openvswitch/db.sock"`.
+     *
+     * When set, `socketPath`, `host`, `port`, and `tls` are ignored. `tlsOptions`
+     * still apply to `ssl:` remotes. When the current remote cannot be reached,
+     * the client tries the next one in order.
+     */
+    remote?: string | string[];
+
     /**
      * Path to the OVSDB Unix domain socket.
      *
@@ -152,6 +345,99 @@ export interface OvsdbClientOptions {
      * When set, the client skips the socket path existence check.
      */
     connectionFactory?: (options: OvsdbResolvedConnectionOptions) => OvsdbStream;
+
+    /**
+     * Reconnects automatically when an established connection drops.
+     *
+     * After reconnecting, the client re-issues every active monitor and
+     * re-requests every lock it holds or waits for. Pending requests are still
+     * rejected when the connection drops. Pass `true` for the default backoff.
+     *
+     * @defaultValue `false`
+     */
+    reconnect?: boolean | OvsdbReconnectOptions;
+
+    /**
+     * Inactivity probe interval in milliseconds.
+     *
+     * When nothing has been received for this long, the client sends an `echo`
+     * request. If the connection stays silent for another interval, the client
+     * emits `inactivityTimeout` and drops the connection. This mirrors the
+     * `probe_interval` setting of Open vSwitch JSON-RPC sessions. Use `0` to
+     * disable probing.
+     *
+     * @defaultValue `0`
+     */
+    probeInterval?: number;
+
+    /**
+     * Tracks the Raft status of a clustered database through the `_Server`
+     * database after every connect, so writes only go through an acceptable
+     * cluster member.
+     *
+     * When the connected server stops being acceptable during a session, the
+     * client drops the connection. Combine with `remote` lists and `reconnect`
+     * to follow the leader across the cluster.
+     */
+    cluster?: OvsdbClusterOptions;
+
+    /**
+     * Maximum size of a single inbound JSON message in characters.
+     *
+     * A larger message emits `protocolError` and drops the connection, since the
+     * stream cannot be resynchronized afterwards.
+     *
+     * @defaultValue `268435456` (256 MiB)
+     */
+    maxMessageSize?: number;
+
+    /**
+     * Traces every JSON-RPC message sent and received on the wire.
+     */
+    trace?: OvsdbTraceOptions;
+
+    /**
+     * Records a span per request plus latency, in-flight, notification,
+     * reconnect, and protocol error metrics through an OpenTelemetry-compatible
+     * tracer and meter.
+     */
+    instrumentation?: OvsdbInstrumentationOptions;
+
+    /**
+     * Validates operations against the database schema before `transact` and
+     * `transaction` send them, rejecting with an `OvsdbValidationError` instead.
+     *
+     * The schema is fetched with `get_schema` on first use and cached until the
+     * connection drops.
+     *
+     * @defaultValue `false`
+     */
+    validate?: boolean;
+
+    /**
+     * Decodes rows in `transact` results and monitor responses into plain JS
+     * values (see `decodeRow` and `decodeTableUpdates`): UUIDs become strings,
+     * sets become `Set`, maps become `Map`, and empty optional columns become
+     * `undefined`. Insert results carry the new UUID as a string. Update
+     * notifications keep their wire `params` and carry the decoded updates in
+     * `decoded`.
+     *
+     * The schema is fetched with `get_schema` before the first request to each
+     * database and cached like for `validate`. The declared result types keep
+     * describing wire values; cast them to the `Decoded*` types.
+     *
+     * @defaultValue `false`
+     */
+    decodeValues?: boolean;
+
+    /**
+     * Parses integers outside the safe `number` range as `bigint`, so 64-bit
+     * values such as datapath IDs and interface statistics keep their
+     * precision, and writes `bigint` values as JSON integers.
+     *
+     * @defaultValue `false`
+     */
+    bigint?: boolean;
 }
 
 /**
@@ -192,6 +478,25 @@ export class OvsdbProtocolError extends Error {
     }
 }
 
+/**
+ * Raised when the connected server is not an acceptable member of its cluster.
+ */
+export class OvsdbClusterError extends Error {
+    /**
+     * Cluster status reported by the server, or `null` when the database is not served.
+     */
+    public readonly status: OvsdbClusterStatus | null;
+
+    /**
+     * Creates a new cluster error wrapper.
+     */
+    constructor(message: string, status: OvsdbClusterStatus | null) {
+        super(message);
+        this.name = "OvsdbClusterError";
+        this.status = status;
+    }
+}
+
 /**
  * Raised when an OVSDB transaction response contains an operation-level error.
  */
@@ -236,12 +541,80 @@ export class OvsdbTransactionError<
     }
 }
 
+/**
+ * Raised by `OVSDBClient.readModifyWrite()` when the rows read kept changing
+ * until the retry budget ran out.
+ */
+export class OvsdbConflictError<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap
+> extends Error {
+    /**
+     * Number of attempts made.
+     */
+    public readonly attempts: number;
+
+    /**
+     * Transaction error of the last attempt.
+     */
+    public override readonly cause: OvsdbTransactionError<TDatabase>;
+
+    /**
+     * Creates a new conflict error.
+     */
+    constructor(attempts: number, cause: OvsdbTransactionError<TDatabase>) {
+        super(`Transaction conflicted with concurrent changes ${attempts} times: ${cause.result.error}`, {cause});
+        this.name = "OvsdbConflictError";
+        this.attempts = attempts;
+        this.cause = cause;
+    }
+}
+
+/**
+ * Per-call options accepted by the client RPC methods.
+ */
+export interface OvsdbRequestOptions {
+    /**
+     * Timeout for this call in milliseconds.
+     *
+     * @defaultValue The client `timeout`
+     */
+    timeout?: number;
+
+    /**
+     * Aborts the call.
+     *
+     * Aborting rejects the pending promise with the signal's reason and sends a
+     * JSON-RPC `cancel` notification for the outstanding request id.
+     */
+    signal?: AbortSignal;
+}
+
 interface PendingRequest {
+    method: string;
+    sentAt: number;
     resolve: (value: unknown) => void;
     reject: (reason?: unknown) => void;
     timeoutId: NodeJS.Timeout;
 }
 
+/**
+ * Subscription of a registered monitor, discriminated by its `method`.
+ */
+type MonitorSubscription<TDatabase extends DatabaseTableMap = DatabaseTableMap> =
+    | OvsdbMonitorSubscription<TDatabase, "monitor">
+    | OvsdbMonitorSubscription<TDatabase, "monitor_cond">
+    | OvsdbMonitorSubscription<TDatabase, "monitor_cond_since">;
+
+interface RegisteredMonitor<TDatabase extends DatabaseTableMap = DatabaseTableMap> {
+    method: OvsdbMonitorMethod;
+    dbName: string;
+    monitorId: JsonValue;
+    monitorRequests: Record<string, MonitorRequest | MonitorCondRequest>;
+    lastTransactionId: string | null;
+    subscription: MonitorSubscription<TDatabase> | null;
+    backlog: OvsdbNotification<TDatabase>[] | null;
+}
+
 /**
  * Result payload returned by a staged transaction helper.
  */
@@ -268,7 +641,7 @@ export interface OvsdbTransactionOutcome<
 /**
  * Options for the staged transaction helper.
  */
-export interface OvsdbTransactionOptions {
+export interface OvsdbTransactionOptions extends OvsdbRequestOptions {
     /**
      * Appends a trailing `commit` operation when the callback succeeds and the
      * staged operations do not already include `commit` or `abort`.
@@ -285,6 +658,72 @@ export interface OvsdbTransactionOptions {
     durable?: boolean;
 }
 
+/**
+ * Backoff settings for retried read-modify-write transactions.
+ */
+export interface OvsdbRetryOptions {
+    /**
+     * Number of attempts, including the first one.
+     *
+     * @defaultValue `5`
+     */
+    maxAttempts?: number;
+
+    /**
+     * Delay before the first retry in milliseconds.
+     *
+     * @defaultValue `10`
+     */
+    initialDelay?: number;
+
+    /**
+     * Upper bound for the delay between attempts in milliseconds.
+     *
+     * @defaultValue `1000`
+     */
+    maxDelay?: number;
+
+    /**
+     * Factor applied to the delay after every conflict.
+     *
+     * @defaultValue `2`
+     */
+    multiplier?: number;
+
+    /**
+     * Random spread applied to every delay, as a fraction of the delay.
+     *
+     * @defaultValue `0.2`
+     */
+    jitter?: number;
+}
+
+/**
+ * Options for `OVSDBClient.readModifyWrite()`.
+ */
+export interface OvsdbReadModifyWriteOptions extends OvsdbTransactionOptions {
+    /**
+     * Retry budget and backoff for conflicting attempts.
+     */
+    retry?: OvsdbRetryOptions;
+}
+
+/**
+ * Result of `OVSDBClient.readModifyWrite()`.
+ *
+ * `operations` and `results` start with the `wait` guards of the attempt
+ * that committed.
+ */
+export interface OvsdbReadModifyWriteOutcome<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TValue = void
+> extends OvsdbTransactionOutcome<TDatabase, TValue> {
+    /**
+     * Number of attempts made, `1` when the first attempt committed.
+     */
+    attempts: number;
+}
+
 /**
  * Stages OVSDB operations before sending them as a single `transact` request.
  */
@@ -306,6 +745,19 @@ export class OvsdbTransaction<TDatabase extends DatabaseTableMap = DatabaseTable
         return operation;
     }
 
+    /**
+     * Starts a fluent query on a table. Operations built by it are staged on
+     * this transaction.
+     *
+     * @example
+     * ```ts
+     * transaction.from("Bridge").where((c) => c.eq("name", "br-int")).select(["name", "ports"]);
+     * ```
+     */
+    public from<TTable extends TableName<TDatabase>>(table: TTable): OvsdbTableQuery<TDatabase, TTable> {
+        return new OvsdbTableQuery<TDatabase, TTable>(table, (operation) => this.add(operation));
+    }
+
     /**
      * Stages an insert operation.
      */
@@ -388,6 +840,85 @@ export class OvsdbTransaction<TDatabase extends DatabaseTableMap = DatabaseTable
     }
 }
 
+/**
+ * Transaction passed to `OVSDBClient.readModifyWrite()` callbacks.
+ *
+ * Besides staging operations, it reads rows from the server right away with
+ * {@link read}. Every read is recorded as a `wait` guard that is sent ahead
+ * of the staged operations, so the transaction only commits if the rows read
+ * are still unchanged.
+ */
+export class OvsdbGuardedTransaction<TDatabase extends DatabaseTableMap = DatabaseTableMap> extends OvsdbTransaction<TDatabase> {
+    private readonly reader: (operation: SelectOperation<TDatabase>) => Promise<{rows: RowRecord[]; decoded: unknown[]}>;
+    private readonly guardOperations: WaitOperation<TDatabase>[] = [];
+
+    /**
+     * Creates a guarded transaction that reads rows through `reader`, which
+     * returns both the wire rows and the rows handed to the callback.
+     */
+    constructor(reader: (operation: SelectOperation<TDatabase>) => Promise<{rows: RowRecord[]; decoded: unknown[]}>) {
+        super();
+        this.reader = reader;
+    }
+
+    /**
+     * Returns the `wait` guards recorded by the reads so far.
+     */
+    public get guards(): readonly WaitOperation<TDatabase>[] {
+        return this.guardOperations;
+    }
+
+    /**
+     * Selects the rows matching the conditions added by `build` and guards
+     * them: the transaction fails if, when it runs, the same query returns
+     * different rows.
+     *
+     * Without `columns` the guard compares `_uuid` and `_version`, so any
+     * change to a matching row counts as a conflict. With `columns` only those
+     * columns are read and compared, and `_uuid` is added to them.
+     */
+    public async read<TTable extends TableName<TDatabase>>(
+        table: TTable,
+        build?: (conditions: OvsdbConditionBuilder<TDatabase, TTable>) => unknown
+    ): Promise<Array<QueryRow<TDatabase, TTable>>>;
+    public async read<TTable extends TableName<TDatabase>, const TColumns extends QueryColumnName<TDatabase, TTable>[]>(
+        table: TTable,
+        build: ((conditions: OvsdbConditionBuilder<TDatabase, TTable>) => unknown) | undefined,
+        columns: TColumns
+    ): Promise<Array<SelectedRow<TDatabase, TTable, TColumns> & {_uuid: Uuid}>>;
+    public async read<TTable extends TableName<TDatabase>>(
+        table: TTable,
+        build?: (conditions: OvsdbConditionBuilder<TDatabase, TTable>) => unknown,
+        columns?: string[]
+    ): Promise<unknown[]> {
+        const conditions = new OvsdbConditionBuilder<TDatabase, TTable>();
+        build?.(conditions);
+        const where = [...conditions.conditions];
+        const guardColumns = columns ? ["_uuid", ...columns.filter((column) => column !== "_uuid")] : ["_uuid", "_version"];
+
+        const {rows, decoded} = await this.reader({
+            op: "select",
+            table,
+            where,
+            ...(columns ? {columns: guardColumns} : {})
+        } as SelectOperation<TDatabase>);
+        const guard: WaitOperation<TDatabase, TTable> = {
+            op: "wait",
+            table,
+            where,
+            columns: guardColumns,
+            until: "==",
+            // The rows come from a select on the same table, so they hold its column values.
+            rows: rows.map((row) => Object.fromEntries(
+                guardColumns.map((column) => [column, row[column]])
+            ) as Partial<TableRow<TDatabase, TTable>> & RowRecord),
+            timeout: 0
+        };
+        this.guardOperations.push(guard);
+        return decoded;
+    }
+}
+
 /**
  * A low-level, event-driven OVSDB client for Unix sockets, TCP, or TLS.
  *
@@ -398,15 +929,40 @@ export class OVSDBClient<
     TDatabase extends DatabaseTableMap = DatabaseTableMap
 > extends EventEmitter<OvsdbClientEvents<TDatabase>> implements AsyncDisposable {
     private readonly timeout: number;
-    private readonly connectionOptions: OvsdbResolvedConnectionOptions;
+    private readonly remotes: OvsdbResolvedConnectionOptions[];
     private readonly connectionFactory?: (options: OvsdbResolvedConnectionOptions) => OvsdbStream;
+    private readonly reconnectOptions: Required<OvsdbReconnectOptions> | null;
+    private readonly probeInterval: number;
+    private readonly clusterOptions: Required<OvsdbClusterOptions> | null;
 
+    private remoteIndex = 0;
     private socket: OvsdbStream | null = null;
     private requestId = 1;
-    private receiveBuffer = "";
+    private readonly frameDecoder: JsonFrameDecoder;
+    private readonly traceOptions?: OvsdbTraceOptions;
+    private readonly instrumentation?: OvsdbClientInstrumentation;
+    private readonly validate: boolean;
+    private readonly decodeValues: boolean;
+    private readonly bigint: boolean;
+    private readonly schemas = new Map<string, DatabaseSchema>();
     private pendingRequests = new Map<JsonValue, PendingRequest>();
+    private readonly canceledRequests = new Set<JsonValue>();
+    private readonly requestHandlers = new Map<string, OvsdbRequestHandler>([
+        ["echo", (params) => params]
+    ]);
     private connected = false;
     private closeEmitted = false;
+    private autoReconnect = false;
+    private reconnectAttempt = 0;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private restoringSession = false;
+    private probeTimer: NodeJS.Timeout | null = null;
+    private probeSent = false;
+    private currentClusterStatus: OvsdbClusterStatus | null = null;
+    private clusterNotificationBacklog: UpdateNotification[] | null = null;
+    private readonly monitors = new Map<string, RegisteredMonitor<TDatabase>>();
+    private readonly locks = new Set<string>();
+    private readonly streams = new Set<OvsdbStreamSink<never>>();
 
     /**
      * Creates a new OVSDB client instance.
@@ -414,8 +970,25 @@ export class OVSDBClient<
     constructor(options: OvsdbClientOptions = {}) {
         super();
         this.timeout = options.timeout ?? 5000;
-        this.connectionOptions = resolveConnectionOptions(options);
+        this.remotes = resolveRemotes(options);
         this.connectionFactory = options.connectionFactory;
+        this.reconnectOptions = resolveReconnectOptions(options.reconnect);
+        this.probeInterval = options.probeInterval ?? 0;
+        this.frameDecoder = new JsonFrameDecoder(options.maxMessageSize ?? 256 * 1024 * 1024);
+        this.traceOptions = options.trace;
+        this.instrumentation = options.instrumentation
+            ? new OvsdbClientInstrumentation(options.instrumentation)
+            : undefined;
+        this.validate = options.validate ?? false;
+        this.decodeValues = options.decodeValues ?? false;
+        this.bigint = options.bigint ?? false;
+        this.clusterOptions = options.cluster
+            ? {
+                database: options.cluster.database,
+                leaderOnly: options.cluster.leaderOnly ?? true,
+                onNotLeader: options.cluster.onNotLeader ?? "rotate"
+            }
+            : null;
     }
 
     /**
@@ -425,6 +998,30 @@ export class OVSDBClient<
         return this.connected;
     }
 
+    /**
+     * Returns `true` when the client was created with `decodeValues`, so
+     * results and notifications carry decoded values instead of wire values.
+     */
+    public get decodesValues(): boolean {
+        return this.decodeValues;
+    }
+
+    /**
+     * Returns the remote that is currently used, or tried next.
+     */
+    public get remote(): OvsdbResolvedConnectionOptions {
+        return this.remotes[this.remoteIndex];
+    }
+
+    /**
+     * Returns the last known cluster status of the tracked database.
+     *
+     * This is `null` unless the `cluster` option is set and the client is connected.
+     */
+    public get clusterStatus(): OvsdbClusterStatus | null {
+        return this.currentClusterStatus;
+    }
+
     /**
      * Opens the transport connection.
      *
@@ -435,50 +1032,31 @@ export class OVSDBClient<
             return this;
         }
 
-        if (
-            !this.connectionFactory &&
-            this.connectionOptions.transport === "unix" &&
-            !existsSync(this.connectionOptions.socketPath)
-        ) {
-            throw new Error(`OVSDB socket not found: ${this.connectionOptions.socketPath}`);
-        }
-
-        const socket = this.connectionFactory
-            ? this.connectionFactory(this.connectionOptions)
-            : createTransport(this.connectionOptions);
-        this.attachSocket(socket);
-        const connectEvent = this.connectionOptions.transport === "tls" ? "secureConnect" : "connect";
-
-        await new Promise<void>((resolve, reject) => {
-            const timeoutId = setTimeout(() => {
-                cleanup();
-                this.disposeTransport(new Error(`Connection timeout after ${this.timeout}ms`));
-                reject(new Error(`Connection timeout after ${this.timeout}ms`));
-            }, this.timeout);
-
-            const onConnect = () => {
-                cleanup();
-                this.connected = true;
-                this.closeEmitted = false;
-                this.emit("connect");
-                resolve();
-            };
-
-            const onError = (error: Error) => {
-                cleanup();
-                reject(error);
-            };
-
-            const cleanup = () => {
-                clearTimeout(timeoutId);
-                socket.off(connectEvent, onConnect);
-                socket.off("error", onError);
-            };
+        await this.openTransport();
+        this.autoReconnect = this.reconnectOptions !== null;
+        return this;
+    }
 
-            socket.once(connectEvent, onConnect);
-            socket.once("error", onError);
-        });
+    /**
+     * Uses an already connected stream instead of dialing a remote.
+     *
+     * This is how {@link OvsdbPassiveListener} hands out clients for inbound
+     * connections. Adopted connections are never reconnected automatically.
+     *
+     * @param stream Connected socket-compatible stream.
+     * @returns The connected client instance for chaining.
+     */
+    public adopt(stream: OvsdbStream): this {
+        if (this.connected) {
+            throw new Error("Client is already connected");
+        }
 
+        this.autoReconnect = false;
+        this.attachSocket(stream);
+        this.connected = true;
+        this.closeEmitted = false;
+        this.armProbe();
+        this.emit("connect");
         return this;
     }
 
@@ -487,9 +1065,16 @@ export class OVSDBClient<
      *
      * @param method RPC method name.
      * @param params RPC parameters.
+     * @param options Per-call timeout and abort signal.
      */
-    public async request<TResult>(method: string, params: JsonValue[] = []): Promise<TResult> {
+    public async request<TResult>(
+        method: string,
+        params: JsonValue[] = [],
+        options: OvsdbRequestOptions = {}
+    ): Promise<TResult> {
         this.assertConnected();
+        const {signal} = options;
+        signal?.throwIfAborted();
 
         const id = this.requestId++;
         const payload = {
@@ -498,24 +1083,62 @@ export class OVSDBClient<
             id
         };
 
-        return await new Promise<TResult>((resolve, reject) => {
+        const finish = this.instrumentation?.startRequest(method, params);
+        const response = new Promise<TResult>((resolve, reject) => {
+            const onAbort = () => {
+                if (!this.pendingRequests.delete(id)) {
+                    return;
+                }
+
+                clearTimeout(timeoutId);
+                reject(signal?.reason);
+                if (this.connected) {
+                    this.canceledRequests.add(id);
+                    this.notify("cancel", [id]).catch(() => undefined);
+                }
+            };
+
             const timeoutId = setTimeout(() => {
                 this.pendingRequests.delete(id);
+                signal?.removeEventListener("abort", onAbort);
                 reject(new Error(`Request timeout for method: ${method}`));
-            }, this.timeout);
+            }, options.timeout ?? this.timeout);
 
             this.pendingRequests.set(id, {
-                resolve: (value) => resolve(value as TResult),
-                reject,
+                method,
+                sentAt: performance.now(),
+                resolve: (value) => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(value as TResult);
+                },
+                reject: (reason) => {
+                    signal?.removeEventListener("abort", onAbort);
+                    reject(reason);
+                },
                 timeoutId
             });
+            signal?.addEventListener("abort", onAbort, {once: true});
 
             this.writeMessage(payload).catch((error) => {
                 clearTimeout(timeoutId);
+                signal?.removeEventListener("abort", onAbort);
                 this.pendingRequests.delete(id);
                 reject(error);
             });
         });
+
+        if (!finish) {
+            return await response;
+        }
+
+        try {
+            const result = await response;
+            finish(null, result);
+            return result;
+        } catch (error) {
+            finish(error);
+            throw error;
+        }
     }
 
     /**
@@ -531,18 +1154,23 @@ export class OVSDBClient<
 
     /**
      * Returns the database names exposed by the connected OVSDB server.
+     *
+     * @param options Per-call timeout and abort signal.
      */
-    public async listDbs(): Promise<ListDbsResult> {
-        return await this.request<ListDbsResult>("list_dbs", []);
+    public async listDbs(options?: OvsdbRequestOptions): Promise<ListDbsResult> {
+        return await this.request<ListDbsResult>("list_dbs", [], options);
     }
 
     /**
      * Returns the schema definition for a database.
      *
      * @param dbName Database name.
+     * @param options Per-call timeout and abort signal.
      */
-    public async getSchema(dbName = "Open_vSwitch"): Promise<DatabaseSchema> {
-        return await this.request<DatabaseSchema>("get_schema", [dbName]);
+    public async getSchema(dbName = "Open_vSwitch", options?: OvsdbRequestOptions): Promise<DatabaseSchema> {
+        const schema = await this.request<DatabaseSchema>("get_schema", [dbName], options);
+        this.schemas.set(dbName, schema);
+        return schema;
     }
 
     /**
@@ -552,15 +1180,25 @@ export class OVSDBClient<
      *
      * @param dbName Database name.
      * @param operations Transaction operations.
+     * @param options Per-call timeout and abort signal.
      */
     public async transact<TOperations extends readonly DatabaseOperation<TDatabase>[]>(
         dbName: string,
-        operations: [...TOperations]
+        operations: [...TOperations],
+        options?: OvsdbRequestOptions
     ): Promise<OperationResults<TDatabase, TOperations>> {
-        return await this.request<OperationResults<TDatabase, TOperations>>(
+        if (this.validate) {
+            await this.validateOperations(dbName, operations, options);
+        }
+        if (this.decodeValues) {
+            await this.loadSchema(dbName, options);
+        }
+        const results = await this.request<OperationResults<TDatabase, TOperations>>(
             "transact",
-            [dbName, ...operations] as JsonValue[]
+            [dbName, ...operations] as JsonValue[],
+            options
         );
+        return this.decodeResults(dbName, operations, results) as OperationResults<TDatabase, TOperations>;
     }
 
     /**
@@ -572,7 +1210,7 @@ export class OVSDBClient<
      *
      * @param dbName Database name.
      * @param callback Callback that stages operations on the transaction object.
-     * @param options Auto-commit behavior for the staged transaction.
+     * @param options Auto-commit behavior, timeout, and abort signal for the staged transaction.
      */
     public async transaction<TValue>(
         dbName: string,
@@ -600,9 +1238,16 @@ export class OVSDBClient<
             };
         }
 
+        if (this.validate) {
+            await this.validateOperations(dbName, operations, options);
+        }
+        if (this.decodeValues) {
+            await this.loadSchema(dbName, options);
+        }
         const results = await this.request<Array<OperationResult<TDatabase, DatabaseOperation<TDatabase>> | OvsdbError>>(
             "transact",
-            [dbName, ...operations] as JsonValue[]
+            [dbName, ...operations] as JsonValue[],
+            options
         );
 
         for (const [index, result] of results.entries()) {
@@ -619,137 +1264,407 @@ export class OVSDBClient<
         return {
             value,
             operations,
-            results: results as Array<OperationResult<TDatabase, DatabaseOperation<TDatabase>>>
+            results: this.decodeResults(dbName, operations, results) as Array<OperationResult<TDatabase, DatabaseOperation<TDatabase>>>
         };
     }
 
+    /**
+     * Runs a read-modify-write cycle with optimistic concurrency, like the
+     * transactions of the C IDL.
+     *
+     * The callback reads rows with `transaction.read()` and stages the writes
+     * that depend on them. Every read becomes a `wait` guard at the start of
+     * the transaction, so the writes only apply if the rows read are still
+     * unchanged. When a guard fails, or the server answers `"try again"`, the
+     * callback runs again on a fresh transaction after a backoff delay.
+     *
+     * @param dbName Database name.
+     * @param callback Callback that reads rows and stages operations. It may run several times.
+     * @param options Retry budget, auto-commit behavior, timeout, and abort signal.
+     * @throws OvsdbConflictError When every attempt conflicted.
+     * @throws OvsdbTransactionError When an operation fails for another reason.
+     */
+    public async readModifyWrite<TValue>(
+        dbName: string,
+        callback: (transaction: OvsdbGuardedTransaction<TDatabase>) => Promise<TValue> | TValue,
+        options: OvsdbReadModifyWriteOptions = {}
+    ): Promise<OvsdbReadModifyWriteOutcome<TDatabase, TValue>> {
+        const retry = resolveRetryOptions(options.retry);
+        let conflict: OvsdbTransactionError<TDatabase> | null = null;
+
+        for (let attempt = 1; attempt <= retry.maxAttempts; attempt += 1) {
+            if (attempt > 1) {
+                const backoff = Math.min(retry.maxDelay, retry.initialDelay * retry.multiplier ** (attempt - 2));
+                await delay(Math.round(backoff * (1 + retry.jitter * (Math.random() * 2 - 1))), options.signal);
+            }
+
+            const guarded = new OvsdbGuardedTransaction<TDatabase>((operation) => this.readRows(dbName, operation, options));
+            try {
+                const outcome = await this.transaction(dbName, async (transaction) => {
+                    const value = await callback(guarded);
+                    for (const operation of [...guarded.guards, ...guarded.operations]) {
+                        transaction.add(operation);
+                    }
+                    return value;
+                }, options);
+                return {...outcome, attempts: attempt};
+            } catch (error) {
+                if (!(error instanceof OvsdbTransactionError) || !isConflict(error, guarded.guards.length)) {
+                    throw error;
+                }
+                conflict = error;
+            }
+        }
+
+        throw new OvsdbConflictError<TDatabase>(retry.maxAttempts, conflict as OvsdbTransactionError<TDatabase>);
+    }
+
+    /**
+     * Returns a typed repository for one table with common lookups and
+     * single-row writes, each sent as one `transact` request.
+     *
+     * @param table Table name.
+     * @param dbName Database name.
+     */
+    public table<TTable extends TableName<TDatabase>>(table: TTable, dbName = "Open_vSwitch"): OvsdbTableRepository<TDatabase, TTable> {
+        return new OvsdbTableRepository<TDatabase, TTable>(this, dbName, table, (options) => this.loadSchema(dbName, options));
+    }
+
     /**
      * Cancels a previously issued request by id.
      *
      * @param requestId JSON-RPC request id to cancel.
+     * @param options Per-call timeout and abort signal.
      */
-    public async cancel(requestId: JsonValue): Promise<null | JsonObject> {
-        return await this.request<null | JsonObject>("cancel", [requestId]);
+    public async cancel(requestId: JsonValue, options?: OvsdbRequestOptions): Promise<null | JsonObject> {
+        return await this.request<null | JsonObject>("cancel", [requestId], options);
     }
 
     /**
      * Starts a standard RFC 7047 monitor.
      *
+     * The returned subscription carries the initial rows and emits the
+     * `update` notifications of this monitor.
+     *
      * @param dbName Database name.
      * @param monitorId Application-defined monitor id.
      * @param monitorRequests Per-table monitor definitions.
+     * @param options Per-call timeout and abort signal.
      */
     public async monitor(
         dbName: string,
         monitorId: JsonValue,
-        monitorRequests: Record<string, MonitorRequest<TDatabase>>
-    ): Promise<TableUpdates<TDatabase>> {
-        return await this.request<TableUpdates<TDatabase>>("monitor", [
+        monitorRequests: Record<string, MonitorRequest<TDatabase>>,
+        options?: OvsdbRequestOptions
+    ): Promise<OvsdbMonitorSubscription<TDatabase, "monitor">> {
+        const monitor = this.registerMonitor("monitor", dbName, monitorId, monitorRequests, null);
+        const result = await this.startMonitor<TableUpdates<TDatabase>>(monitor, [
             dbName,
             monitorId,
             monitorRequests as JsonValue
-        ]);
+        ], options);
+        return this.subscribe(monitor, new OvsdbMonitorSubscription<TDatabase, "monitor">(
+            this,
+            monitor,
+            this.decodeMonitorResult("monitor", dbName, result)
+        ));
     }
 
     /**
      * Starts an Open vSwitch conditional monitor.
      *
+     * The returned subscription carries the initial rows and emits the
+     * `update2` notifications of this monitor.
+     *
      * @param dbName Database name.
      * @param monitorId Application-defined monitor id.
      * @param monitorRequests Per-table conditional monitor definitions.
+     * @param options Per-call timeout and abort signal.
      */
     public async monitorCond(
         dbName: string,
         monitorId: JsonValue,
-        monitorRequests: Record<string, MonitorCondRequest<TDatabase>>
-    ): Promise<TableUpdates2<TDatabase>> {
-        return await this.request<TableUpdates2<TDatabase>>("monitor_cond", [
+        monitorRequests: Record<string, MonitorCondRequest<TDatabase>>,
+        options?: OvsdbRequestOptions
+    ): Promise<OvsdbMonitorSubscription<TDatabase, "monitor_cond">> {
+        const monitor = this.registerMonitor("monitor_cond", dbName, monitorId, monitorRequests, null);
+        const result = await this.startMonitor<TableUpdates2<TDatabase>>(monitor, [
             dbName,
             monitorId,
             monitorRequests as JsonValue
-        ]);
+        ], options);
+        return this.subscribe(monitor, new OvsdbMonitorSubscription<TDatabase, "monitor_cond">(
+            this,
+            monitor,
+            this.decodeMonitorResult("monitor_cond", dbName, result)
+        ));
     }
 
     /**
      * Starts an Open vSwitch conditional monitor from a known transaction id.
      *
+     * The returned subscription carries the initial rows, whether the server
+     * resumed from `lastTransactionId`, and emits the `update3` notifications
+     * of this monitor.
+     *
      * @param dbName Database name.
      * @param monitorId Application-defined monitor id.
      * @param monitorRequests Per-table conditional monitor definitions.
      * @param lastTransactionId Last seen transaction id, or `null` for a fresh snapshot.
+     * @param options Per-call timeout and abort signal.
      */
     public async monitorCondSince(
         dbName: string,
         monitorId: JsonValue,
         monitorRequests: Record<string, MonitorCondRequest<TDatabase>>,
-        lastTransactionId: string | null = null
-    ): Promise<MonitorCondSinceResult<TDatabase>> {
-        return await this.request<MonitorCondSinceResult<TDatabase>>("monitor_cond_since", [
+        lastTransactionId: string | null = null,
+        options?: OvsdbRequestOptions
+    ): Promise<OvsdbMonitorSubscription<TDatabase, "monitor_cond_since">> {
+        const monitor = this.registerMonitor("monitor_cond_since", dbName, monitorId, monitorRequests, lastTransactionId);
+        const result = await this.startMonitor<MonitorCondSinceResult<TDatabase>>(monitor, [
             dbName,
             monitorId,
             monitorRequests as JsonValue,
             lastTransactionId
-        ]);
+        ], options);
+        // Updates that arrived with the reply already carry a newer id.
+        if (monitor.lastTransactionId === lastTransactionId) {
+            monitor.lastTransactionId = result[1];
+        }
+        const [found, , updates] = this.decodeMonitorResult("monitor_cond_since", dbName, result);
+        return this.subscribe(monitor, new OvsdbMonitorSubscription<TDatabase, "monitor_cond_since">(this, monitor, updates, found));
+    }
+
+    /**
+     * Changes the conditions of a live `monitor_cond` or `monitor_cond_since`
+     * monitor with the Open vSwitch `monitor_cond_change` extension, without
+     * re-downloading the rows that still match.
+     *
+     * For every table in `monitorRequests`, `where` replaces the table's
+     * current conditions. The server then sends updates for rows that start
+     * or stop matching under `newMonitorId`, which may equal `monitorId`. The
+     * new conditions are also used when the monitor is re-issued after a
+     * reconnect.
+     *
+     * @param monitorId Id of the monitor to change.
+     * @param newMonitorId Id that later notifications for the monitor carry.
+     * @param monitorRequests New conditions per table.
+     * @param options Per-call timeout and abort signal.
+     * @throws Error When the monitor was started with plain `monitor`, which
+     * has no conditions to change.
+     */
+    public async monitorCondChange(
+        monitorId: JsonValue,
+        newMonitorId: JsonValue,
+        monitorRequests: Record<string, MonitorCondRequest<TDatabase>>,
+        options?: OvsdbRequestOptions
+    ): Promise<null | JsonObject> {
+        const key = toMonitorKey(monitorId);
+        const newKey = toMonitorKey(newMonitorId);
+        const monitor = this.monitors.get(key);
+        if (monitor && monitor.method !== "monitor_cond" && monitor.method !== "monitor_cond_since") {
+            throw new Error(`Monitor ${key} was started with ${monitor.method}, which does not support monitor_cond_change`);
+        }
+        const rekey = monitor !== undefined && newKey !== key && !this.monitors.has(newKey);
+        if (rekey) {
+            // Updates under the new id may arrive in the same read as the reply.
+            this.monitors.set(newKey, monitor);
+        }
+
+        const changes = Object.fromEntries(Object.entries(monitorRequests).map(([table, {columns, where}]) => [
+            table,
+            [{...(columns ? {columns} : {}), ...(where ? {where} : {})}]
+        ]));
+
+        let result: null | JsonObject;
+        try {
+            result = await this.request<null | JsonObject>("monitor_cond_change", [monitorId, newMonitorId, changes] as JsonValue[], options);
+        } catch (error) {
+            if (rekey) {
+                this.monitors.delete(newKey);
+            }
+            throw error;
+        }
+
+        if (monitor) {
+            const requests: Record<string, MonitorRequest | MonitorCondRequest> = {...monitor.monitorRequests};
+            for (const [table, {columns, where}] of Object.entries(monitorRequests)) {
+                requests[table] = {
+                    ...requests[table],
+                    ...(columns ? {columns} : {}),
+                    ...(where ? {where} : {})
+                };
+            }
+            if (rekey) {
+                this.monitors.delete(key);
+            }
+            monitor.monitorId = newMonitorId;
+            monitor.monitorRequests = requests;
+        }
+        return result;
     }
 
     /**
      * Cancels a monitor by its monitor id.
      *
      * @param monitorId Monitor id used when the monitor was created.
+     * @param options Per-call timeout and abort signal.
      */
-    public async monitorCancel(monitorId: JsonValue): Promise<null | JsonObject> {
-        return await this.request<null | JsonObject>("monitor_cancel", [monitorId]);
+    public async monitorCancel(monitorId: JsonValue, options?: OvsdbRequestOptions): Promise<null | JsonObject> {
+        const result = await this.request<null | JsonObject>("monitor_cancel", [monitorId], options);
+        const key = toMonitorKey(monitorId);
+        this.monitors.get(key)?.subscription?.emit("end");
+        this.monitors.delete(key);
+        return result;
+    }
+
+    /**
+     * Returns an async-iterable stream of server notifications, optionally
+     * limited to some methods or one monitor.
+     *
+     * Notifications wait in a bounded buffer until the consumer reads them;
+     * `overflow` decides what happens when it is full. The stream ends when
+     * {@link close} is called and fails with the transport error when the
+     * connection is lost without `reconnect`, or when reconnecting gives up.
+     * With `reconnect`, the stream continues across reconnects.
+     *
+     * @param options Filters, buffer size, overflow policy, and abort signal.
+     * @throws Error When `bufferSize` is not a positive integer.
+     */
+    public notifications<TMethod extends OvsdbNotificationMethod = OvsdbNotificationMethod>(
+        options: OvsdbNotificationStreamOptions<TMethod> = {}
+    ): OvsdbNotificationStream<Extract<OvsdbNotification<TDatabase>, {method: TMethod}>> {
+        const methods = options.method === undefined
+            ? null
+            : new Set<string>(typeof options.method === "string" ? [options.method] : options.method);
+        const monitorKey = options.monitorId === undefined ? null : toMonitorKey(options.monitorId);
+
+        return new OvsdbNotificationStream((sink) => {
+            const listener = (notification: OvsdbNotification<TDatabase>): void => {
+                if (methods && !methods.has(notification.method)) {
+                    return;
+                }
+                if (monitorKey !== null && (!isUpdateNotification(notification) || toMonitorKey(notification.params[0]) !== monitorKey)) {
+                    return;
+                }
+                sink.push(notification as Extract<OvsdbNotification<TDatabase>, {method: TMethod}>);
+            };
+            this.on("notification", listener);
+            this.streams.add(sink as OvsdbStreamSink<never>);
+            return () => {
+                this.off("notification", listener);
+                this.streams.delete(sink as OvsdbStreamSink<never>);
+            };
+        }, options);
     }
 
     /**
      * Acquires a named database lock.
      *
      * @param lockId Lock identifier.
+     * @param options Per-call timeout and abort signal.
      */
-    public async lock(lockId: string): Promise<null | JsonObject> {
-        return await this.request<null | JsonObject>("lock", [lockId]);
+    public async lock(lockId: string, options?: OvsdbRequestOptions): Promise<null | JsonObject> {
+        const result = await this.request<null | JsonObject>("lock", [lockId], options);
+        this.locks.add(lockId);
+        return result;
     }
 
     /**
      * Forces ownership of a named database lock.
      *
      * @param lockId Lock identifier.
+     * @param options Per-call timeout and abort signal.
      */
-    public async steal(lockId: string): Promise<null | JsonObject> {
-        return await this.request<null | JsonObject>("steal", [lockId]);
+    public async steal(lockId: string, options?: OvsdbRequestOptions): Promise<null | JsonObject> {
+        const result = await this.request<null | JsonObject>("steal", [lockId], options);
+        this.locks.add(lockId);
+        return result;
     }
 
     /**
      * Releases a previously acquired named database lock.
      *
      * @param lockId Lock identifier.
+     * @param options Per-call timeout and abort signal.
      */
-    public async unlock(lockId: string): Promise<null | JsonObject> {
-        return await this.request<null | JsonObject>("unlock", [lockId]);
+    public async unlock(lockId: string, options?: OvsdbRequestOptions): Promise<null | JsonObject> {
+        const result = await this.request<null | JsonObject>("unlock", [lockId], options);
+        this.locks.delete(lockId);
+        return result;
     }
 
     /**
      * Sends an echo request to validate transport liveness.
      *
+     * Use {@link echoWithOptions} to pass per-call options.
+     *
      * @param payload Values to be echoed back by the server.
      */
     public async echo<TPayload extends OvsdbValue[]>(...payload: TPayload): Promise<TPayload> {
-        return await this.request<TPayload>("echo", payload as JsonValue[]);
+        return await this.echoWithOptions(payload);
+    }
+
+    /**
+     * Sends an echo request like {@link echo}, with per-call options.
+     *
+     * @param payload Values to be echoed back by the server.
+     * @param options Per-call timeout and abort signal.
+     */
+    public async echoWithOptions<TPayload extends OvsdbValue[]>(payload: TPayload, options?: OvsdbRequestOptions): Promise<TPayload> {
+        return await this.request<TPayload>("echo", payload as JsonValue[], options);
     }
 
     /**
      * Enables or disables Open vSwitch database change awareness.
      *
      * @param enabled Whether the server should report change awareness metadata.
+     * @param options Per-call timeout and abort signal.
+     */
+    public async setDbChangeAware(enabled = true, options?: OvsdbRequestOptions): Promise<boolean | null> {
+        return await this.request<boolean | null>("set_db_change_aware", [enabled], options);
+    }
+
+    /**
+     * Registers a handler for JSON-RPC requests sent by the server.
+     *
+     * A built-in `echo` handler is registered by default and can be replaced.
+     * Requests without a handler are answered with a `not supported` error and
+     * emitted as `unhandledRequest`.
+     *
+     * @param method RPC method name.
+     * @param handler Handler that produces the response result.
      */
-    public async setDbChangeAware(enabled = true): Promise<boolean | null> {
-        return await this.request<boolean | null>("set_db_change_aware", [enabled]);
+    public setRequestHandler(method: string, handler: OvsdbRequestHandler): this {
+        this.requestHandlers.set(method, handler);
+        return this;
+    }
+
+    /**
+     * Removes the handler for a server request method.
+     *
+     * @param method RPC method name.
+     * @returns `true` when a handler was registered.
+     */
+    public removeRequestHandler(method: string): boolean {
+        return this.requestHandlers.delete(method);
     }
 
     /**
      * Closes the connection and rejects all pending requests.
+     *
+     * This also stops automatic reconnection and forgets all tracked monitors and locks.
      */
     public async close(): Promise<void> {
+        this.autoReconnect = false;
+        this.reconnectAttempt = 0;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.endStreams();
+        this.monitors.clear();
+        this.locks.clear();
         this.disposeTransport();
     }
 
@@ -760,9 +1675,78 @@ export class OVSDBClient<
         await this.close();
     }
 
+    private async openTransport(): Promise<void> {
+        let lastError: unknown;
+        for (let attempt = 0; attempt < this.remotes.length; attempt += 1) {
+            try {
+                await this.openRemote(this.remotes[this.remoteIndex]);
+                if (this.clusterOptions) {
+                    await this.watchClusterStatus(this.clusterOptions);
+                }
+                return;
+            } catch (error) {
+                lastError = error;
+                this.disposeTransport(error instanceof Error ? error : undefined);
+                if (error instanceof OvsdbClusterError && this.clusterOptions?.onNotLeader === "reject") {
+                    throw error;
+                }
+                this.remoteIndex = (this.remoteIndex + 1) % this.remotes.length;
+            }
+        }
+
+        throw lastError;
+    }
+
+    private async openRemote(connectionOptions: OvsdbResolvedConnectionOptions): Promise<void> {
+        if (
+            !this.connectionFactory &&
+            connectionOptions.transport === "unix" &&
+            !existsSync(connectionOptions.socketPath)
+        ) {
+            throw new Error(`OVSDB socket not found: ${connectionOptions.socketPath}`);
+        }
+
+        const socket = this.connectionFactory
+            ? this.connectionFactory(connectionOptions)
+            : createTransport(connectionOptions);
+        this.attachSocket(socket);
+        const connectEvent = connectionOptions.transport === "tls" ? "secureConnect" : "connect";
+
+        await new Promise<void>((resolve, reject) => {
+            const timeoutId = setTimeout(() => {
+                cleanup();
+                this.disposeTransport(new Error(`Connection timeout after ${this.timeout}ms`));
+                reject(new Error(`Connection timeout after ${this.timeout}ms`));
+            }, this.timeout);
+
+            const onConnect = () => {
+                cleanup();
+                this.connected = true;
+                this.closeEmitted = false;
+                this.armProbe();
+                this.emit("connect");
+                resolve();
+            };
+
+            const onError = (error: Error) => {
+                cleanup();
+                reject(error);
+            };
+
+            const cleanup = () => {
+                clearTimeout(timeoutId);
+                socket.off(connectEvent, onConnect);
+                socket.off("error", onError);
+            };
+
+            socket.once(connectEvent, onConnect);
+            socket.once("error", onError);
+        });
+    }
+
     private attachSocket(socket: OvsdbStream): void {
         this.socket = socket;
-        this.receiveBuffer = "";
+        this.frameDecoder.reset();
 
         socket.on("data", this.handleData);
         socket.on("error", this.handleSocketError);
@@ -770,20 +1754,44 @@ export class OVSDBClient<
     }
 
     private readonly handleData = (chunk: Buffer | string): void => {
-        this.receiveBuffer += typeof chunk === "string" ? chunk : chunk.toString("utf8");
+        this.armProbe();
+
+        for (const frame of this.frameDecoder.push(chunk)) {
+            switch (frame.type) {
+                case "frame":
+                    this.parseFrame(frame.text);
+                    break;
+                case "invalid":
+                    this.emitProtocolError("Received non-JSON data on the transport", frame.data);
+                    break;
+                case "oversize": {
+                    const error = new OvsdbProtocolError(
+                        `Inbound message exceeds the maximum size of ${frame.limit} characters`,
+                        null
+                    );
+                    this.reportProtocolError(error, null);
+                    this.disposeTransport(error);
+                    return;
+                }
+            }
+        }
+    };
 
-        let frame = extractJsonFrame(this.receiveBuffer);
-        while (frame) {
-            this.receiveBuffer = frame.rest;
-            this.parseFrame(frame.frame);
-            frame = extractJsonFrame(this.receiveBuffer);
+    private readonly handleProbeTimer = (): void => {
+        this.probeTimer = null;
+        if (!this.connected) {
+            return;
         }
 
-        const trimmed = this.receiveBuffer.trimStart();
-        if (trimmed && trimmed[0] !== "{" && trimmed[0] !== "[") {
-            this.emitProtocolError("Received non-JSON data on the transport", this.receiveBuffer);
-            this.receiveBuffer = "";
+        if (this.probeSent) {
+            this.emit("inactivityTimeout", this.probeInterval);
+            this.disposeTransport(new Error(`Inactivity probe timed out after ${this.probeInterval}ms`));
+            return;
         }
+
+        this.probeSent = true;
+        this.request("echo", []).catch(() => undefined);
+        this.probeTimer = setTimeout(this.handleProbeTimer, this.probeInterval);
     };
 
     private readonly handleSocketError = (error: Error): void => {
@@ -797,11 +1805,14 @@ export class OVSDBClient<
 
     private parseFrame(frame: string): void {
         try {
-            const payload = JSON.parse(frame) as unknown;
+            const payload = parseJson(frame, {bigint: this.bigint}) as unknown;
+            if (this.traceOptions) {
+                this.traceInbound(payload);
+            }
             this.handleMessage(payload);
         } catch (error) {
             const protocolError = new OvsdbProtocolError("Failed to parse JSON message", frame);
-            this.emit("protocolError", protocolError, frame);
+            this.reportProtocolError(protocolError, frame);
             if (error instanceof Error) {
                 void error;
             }
@@ -836,6 +1847,10 @@ export class OVSDBClient<
 
     private handleResponse(response: OvsdbResponse<unknown>): void {
         const pendingRequest = this.pendingRequests.get(response.id);
+        if (!pendingRequest && this.canceledRequests.delete(response.id)) {
+            return;
+        }
+
         if (!pendingRequest) {
             this.emitProtocolError("Received response for an unknown request id", response);
             return;
@@ -853,26 +1868,64 @@ export class OVSDBClient<
     }
 
     private async handleIncomingRequest(method: string, params: JsonValue[], id: JsonValue): Promise<void> {
-        if (method === "echo") {
-            await this.writeMessage({
+        const handler = this.requestHandlers.get(method);
+        let response: JsonObject;
+
+        if (!handler) {
+            this.emit("unhandledRequest", method, params, id);
+            response = {
                 id,
-                result: params,
-                error: null
-            });
-            return;
+                result: null,
+                error: {
+                    error: "not supported",
+                    details: `Unsupported server request: ${method}`
+                }
+            };
+        } else {
+            try {
+                response = {
+                    id,
+                    result: await handler(params, id),
+                    error: null
+                };
+            } catch (error) {
+                response = {
+                    id,
+                    result: null,
+                    error: toOvsdbErrorPayload(error)
+                };
+            }
         }
 
-        await this.writeMessage({
-            id,
-            result: null,
-            error: {
-                error: "not supported",
-                details: `Unsupported server request: ${method}`
-            }
-        });
+        if (this.connected) {
+            await this.writeMessage(response, method).catch(() => undefined);
+        }
     }
 
     private handleNotification(notification: OvsdbNotification<TDatabase>): void {
+        if (notification.method === "update" && notification.params[0] === CLUSTER_MONITOR_ID) {
+            this.handleClusterNotification(notification);
+            return;
+        }
+
+        const monitor = isUpdateNotification(notification)
+            ? this.monitors.get(toMonitorKey(notification.params[0]))
+            : undefined;
+        if (isUpdateNotification(notification) && !monitor) {
+            this.emitProtocolError("Received an update for an unknown monitor", notification);
+            return;
+        }
+
+        if (this.decodeValues && monitor) {
+            try {
+                notification = this.decodeNotification(notification, monitor.dbName);
+            } catch (error) {
+                this.emitProtocolError(`Could not decode ${notification.method} notification: ${(error as Error).message}`, notification);
+                return;
+            }
+        }
+
+        this.instrumentation?.recordNotification(notification.method);
         this.emit("notification", notification);
 
         switch (notification.method) {
@@ -883,6 +1936,9 @@ export class OVSDBClient<
                 this.emit("update2", notification);
                 break;
             case "update3":
+                if (monitor && typeof notification.params[1] === "string") {
+                    monitor.lastTransactionId = notification.params[1];
+                }
                 this.emit("update3", notification);
                 break;
             case "locked":
@@ -895,18 +1951,62 @@ export class OVSDBClient<
                 this.emitProtocolError("Received an unknown notification method", notification);
                 break;
         }
+
+        if (monitor) {
+            this.deliverUpdate(monitor, notification);
+        }
+    }
+
+    private deliverUpdate(monitor: RegisteredMonitor<TDatabase>, notification: OvsdbNotification<TDatabase>): void {
+        if (monitor.backlog) {
+            monitor.backlog.push(notification);
+            return;
+        }
+        const subscription = monitor.subscription;
+        if (!subscription) {
+            return;
+        }
+        if (subscription.method === "monitor" && notification.method === "update") {
+            subscription.emit("update", notification);
+        } else if (subscription.method === "monitor_cond" && notification.method === "update2") {
+            subscription.emit("update", notification);
+        } else if (subscription.method === "monitor_cond_since" && notification.method === "update3") {
+            subscription.emit("update", notification);
+        } else {
+            this.emitProtocolError(`Received an ${notification.method} notification for a monitor started with ${subscription.method}`, notification);
+        }
+    }
+
+    private flushBacklog(monitor: RegisteredMonitor<TDatabase>): void {
+        const backlog = monitor.backlog ?? [];
+        monitor.backlog = null;
+        for (const notification of backlog) {
+            this.deliverUpdate(monitor, notification);
+        }
     }
 
     private emitProtocolError(message: string, payload: unknown): void {
-        const error = new OvsdbProtocolError(message, payload);
+        this.reportProtocolError(new OvsdbProtocolError(message, payload), payload);
+    }
+
+    private reportProtocolError(error: OvsdbProtocolError, payload: unknown): void {
+        this.instrumentation?.recordProtocolError();
         this.emit("protocolError", error, payload);
     }
 
-    private async writeMessage(payload: JsonObject): Promise<void> {
+    private async writeMessage(payload: JsonObject, responseMethod?: string): Promise<void> {
         this.assertConnected();
+        if (this.traceOptions) {
+            this.trace("outbound", payload, {
+                id: payload.id ?? null,
+                method: typeof payload.method === "string" ? payload.method : responseMethod ?? null,
+                latency: null
+            });
+        }
 
+        const text = this.bigint ? stringifyJson(payload) : JSON.stringify(payload);
         await new Promise<void>((resolve, reject) => {
-            this.socket?.write(`${JSON.stringify(payload)}\n`, (error) => {
+            this.socket?.write(`${text}\n`, (error) => {
                 if (error) {
                     reject(error);
                     return;
@@ -916,17 +2016,167 @@ export class OVSDBClient<
         });
     }
 
+    private traceInbound(payload: unknown): void {
+        if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+            return;
+        }
+
+        const message = payload as JsonObject;
+        const id = message.id ?? null;
+        if (typeof message.method === "string") {
+            this.trace("inbound", message, {id, method: message.method, latency: null});
+            return;
+        }
+
+        const pendingRequest = id === null ? undefined : this.pendingRequests.get(id);
+        this.trace("inbound", message, {
+            id,
+            method: pendingRequest?.method ?? null,
+            latency: pendingRequest ? performance.now() - pendingRequest.sentAt : null
+        });
+    }
+
+    private trace(
+        direction: OvsdbTraceDirection,
+        message: JsonObject,
+        details: {id: JsonValue | null; method: string | null; latency: number | null}
+    ): void {
+        const options = this.traceOptions;
+        if (!options) {
+            return;
+        }
+
+        try {
+            const copy = structuredClone(message);
+            options.tracer({
+                direction,
+                timestamp: Date.now(),
+                ...details,
+                message: options.redact ? options.redact(copy, {direction, method: details.method}) : copy
+            });
+        } catch {
+            // Tracing must never interfere with the transport.
+        }
+    }
+
     private assertConnected(): void {
         if (!this.connected || !this.socket) {
             throw new Error("Not connected to OVSDB");
         }
     }
 
+    private async loadSchema(dbName: string, options?: OvsdbRequestOptions): Promise<DatabaseSchema> {
+        return this.schemas.get(dbName) ?? await this.getSchema(dbName, options);
+    }
+
+    private async validateOperations(
+        dbName: string,
+        operations: readonly DatabaseOperation<TDatabase>[],
+        options?: OvsdbRequestOptions
+    ): Promise<void> {
+        validateOperations(await this.loadSchema(dbName, options), operations);
+    }
+
+    private async readRows(
+        dbName: string,
+        operation: SelectOperation<TDatabase>,
+        options?: OvsdbRequestOptions
+    ): Promise<{rows: RowRecord[]; decoded: unknown[]}> {
+        if (this.validate) {
+            await this.validateOperations(dbName, [operation], options);
+        }
+        if (this.decodeValues) {
+            await this.loadSchema(dbName, options);
+        }
+        const results = await this.request<Array<SelectResult<RowRecord> | OvsdbError>>("transact", [dbName, operation] as JsonValue[], options);
+        const [result] = results;
+        if (isOvsdbError(result)) {
+            throw new OvsdbTransactionError<TDatabase>({
+                operationIndex: 0,
+                operation,
+                result,
+                results: results as Array<OperationResult<TDatabase, DatabaseOperation<TDatabase>> | OvsdbError>
+            });
+        }
+
+        const [decoded] = this.decodeResults(dbName, [operation], results) as [SelectResult<RowRecord>];
+        return {rows: result.rows, decoded: decoded.rows};
+    }
+
+    private decodeResults(dbName: string, operations: readonly DatabaseOperation<TDatabase>[], results: readonly unknown[]): unknown[] {
+        const schema = this.decodeValues ? this.schemas.get(dbName) : undefined;
+        return schema ? decodeOperationResults(schema, operations as readonly DatabaseOperation[], results) : results as unknown[];
+    }
+
+    private async startMonitor<TResult>(
+        monitor: RegisteredMonitor<TDatabase>,
+        params: JsonValue[],
+        options?: OvsdbRequestOptions
+    ): Promise<TResult> {
+        try {
+            if (this.decodeValues) {
+                await this.loadSchema(monitor.dbName, options);
+            }
+            return await this.request<TResult>(monitor.method, params, options);
+        } catch (error) {
+            const key = toMonitorKey(monitor.monitorId);
+            if (this.monitors.get(key) === monitor) {
+                this.monitors.delete(key);
+            }
+            throw error;
+        }
+    }
+
+    private subscribe<TSubscription extends MonitorSubscription<TDatabase>>(
+        monitor: RegisteredMonitor<TDatabase>,
+        subscription: TSubscription
+    ): TSubscription {
+        monitor.subscription = subscription;
+        // The caller attaches its listeners after the returned promise
+        // settles, so updates that came with the reply wait one more turn.
+        setImmediate(() => this.flushBacklog(monitor));
+        return subscription;
+    }
+
+    private decodeMonitorResult<TResult>(method: OvsdbMonitorMethod, dbName: string, result: TResult): TResult {
+        const schema = this.decodeValues ? this.schemas.get(dbName) : undefined;
+        if (!schema) {
+            return result;
+        }
+
+        if (method === "monitor_cond_since") {
+            const [found, lastTransactionId, updates] = result as MonitorCondSinceResult;
+            return [found, lastTransactionId, decodeTableUpdates(schema, updates)] as TResult;
+        }
+        return decodeTableUpdates(schema, result as TableUpdates) as TResult;
+    }
+
+    private decodeNotification(notification: OvsdbNotification<TDatabase>, dbName: string): OvsdbNotification<TDatabase> {
+        const schema = this.schemas.get(dbName);
+        if (!schema) {
+            return notification;
+        }
+
+        switch (notification.method) {
+            case "update":
+            case "update2":
+                return {...notification, decoded: decodeTableUpdates(schema, notification.params[1])};
+            case "update3":
+                return {...notification, decoded: decodeTableUpdates(schema, notification.params[2])};
+            default:
+                return notification;
+        }
+    }
+
     private disposeTransport(reason?: Error): void {
+        const wasConnected = this.connected;
         const socket = this.socket;
         this.socket = null;
         this.connected = false;
-        this.receiveBuffer = "";
+        this.frameDecoder.reset();
+        this.stopProbe();
+        this.currentClusterStatus = null;
+        this.clusterNotificationBacklog = null;
 
         if (socket) {
             socket.off("data", this.handleData);
@@ -943,20 +2193,369 @@ export class OVSDBClient<
             pendingRequest.reject(closeError);
         }
         this.pendingRequests.clear();
+        this.canceledRequests.clear();
+        this.schemas.clear();
 
         if (!this.closeEmitted) {
             this.closeEmitted = true;
             this.emit("close");
         }
+
+        if (!this.restoringSession) {
+            this.scheduleReconnect();
+        }
+        if (wasConnected && !this.autoReconnect) {
+            this.endStreams(closeError);
+        }
+    }
+
+    /**
+     * Ends notification streams and subscriptions, which fail with `error`
+     * when one is given.
+     */
+    private endStreams(error?: Error): void {
+        const streams = [...this.streams];
+        this.streams.clear();
+        for (const stream of streams) {
+            if (error) {
+                stream.fail(error);
+            } else {
+                stream.end();
+            }
+        }
+
+        for (const monitor of this.monitors.values()) {
+            monitor.subscription?.emit("end", error);
+            monitor.subscription = null;
+        }
+    }
+
+    private async watchClusterStatus(options: Required<OvsdbClusterOptions>): Promise<void> {
+        this.clusterNotificationBacklog = [];
+        const updates = await this.request<TableUpdates>("monitor", [
+            "_Server",
+            CLUSTER_MONITOR_ID,
+            {
+                Database: {
+                    columns: ["name", "model", "connected", "leader", "index", "cid", "sid"]
+                }
+            }
+        ]);
+
+        const backlog = this.clusterNotificationBacklog ?? [];
+        this.clusterNotificationBacklog = null;
+        this.applyClusterUpdates(updates);
+        for (const notification of backlog) {
+            this.applyClusterUpdates(notification.params[1]);
+        }
+
+        const problem = describeClusterProblem(options, this.currentClusterStatus);
+        if (problem) {
+            throw new OvsdbClusterError(problem, this.currentClusterStatus);
+        }
+    }
+
+    private handleClusterNotification(notification: UpdateNotification): void {
+        if (this.clusterNotificationBacklog) {
+            this.clusterNotificationBacklog.push(notification);
+            return;
+        }
+
+        this.applyClusterUpdates(notification.params[1]);
+        const problem = this.clusterOptions && describeClusterProblem(this.clusterOptions, this.currentClusterStatus);
+        if (problem) {
+            this.disposeTransport(new OvsdbClusterError(problem, this.currentClusterStatus));
+        }
+    }
+
+    private applyClusterUpdates(updates: TableUpdates): void {
+        const database = this.clusterOptions?.database;
+        for (const rowUpdate of Object.values(updates.Database ?? {})) {
+            if (rowUpdate.new?.name === database) {
+                this.currentClusterStatus = toClusterStatus(rowUpdate.new as Record<string, OvsdbValue>);
+                this.emit("clusterStatus", this.currentClusterStatus);
+            } else if (!rowUpdate.new && rowUpdate.old?.name === database) {
+                this.currentClusterStatus = null;
+            }
+        }
+    }
+
+    private armProbe(): void {
+        if (this.probeInterval <= 0 || !this.connected) {
+            return;
+        }
+
+        this.stopProbe();
+        this.probeTimer = setTimeout(this.handleProbeTimer, this.probeInterval);
+    }
+
+    private stopProbe(): void {
+        if (this.probeTimer) {
+            clearTimeout(this.probeTimer);
+            this.probeTimer = null;
+        }
+        this.probeSent = false;
+    }
+
+    private registerMonitor(
+        method: OvsdbMonitorMethod,
+        dbName: string,
+        monitorId: JsonValue,
+        monitorRequests: Record<string, MonitorRequest | MonitorCondRequest>,
+        lastTransactionId: string | null
+    ): RegisteredMonitor<TDatabase> {
+        // Registered before the request goes out, because updates may arrive
+        // in the same read as the monitor reply.
+        const key = toMonitorKey(monitorId);
+        if (this.monitors.has(key)) {
+            throw new Error(`Monitor ${key} is already running`);
+        }
+
+        const monitor: RegisteredMonitor<TDatabase> = {
+            method,
+            dbName,
+            monitorId,
+            monitorRequests,
+            lastTransactionId,
+            subscription: null,
+            backlog: []
+        };
+        this.monitors.set(key, monitor);
+        return monitor;
+    }
+
+    private scheduleReconnect(): void {
+        const options = this.reconnectOptions;
+        if (!options || !this.autoReconnect || this.reconnectTimer) {
+            return;
+        }
+
+        if (this.reconnectAttempt >= options.maxAttempts) {
+            this.autoReconnect = false;
+            const error = new Error(`Reconnect failed after ${this.reconnectAttempt} attempts`);
+            this.emit("reconnectFailed", error);
+            this.endStreams(error);
+            return;
+        }
+
+        this.reconnectAttempt += 1;
+        const attempt = this.reconnectAttempt;
+        const backoff = Math.min(
+            options.maxDelay,
+            options.initialDelay * options.multiplier ** (attempt - 1)
+        );
+        const delay = Math.max(0, Math.round(backoff * (1 + options.jitter * (Math.random() * 2 - 1))));
+
+        this.instrumentation?.recordReconnect();
+        this.emit("reconnecting", attempt, delay);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            void this.reconnect(attempt);
+        }, delay);
+    }
+
+    private async reconnect(attempt: number): Promise<void> {
+        this.restoringSession = true;
+        try {
+            await this.openTransport();
+            const restore = await this.restoreSession(attempt);
+            this.restoringSession = false;
+            if (!this.autoReconnect) {
+                return;
+            }
+            this.reconnectAttempt = 0;
+            this.emit("reconnected", restore);
+        } catch (error) {
+            this.disposeTransport(error instanceof Error ? error : new Error(String(error)));
+            this.restoringSession = false;
+            this.scheduleReconnect();
+        }
+    }
+
+    private async restoreSession(attempt: number): Promise<OvsdbSessionRestore<TDatabase>> {
+        const monitors: Array<OvsdbRestoredMonitor<TDatabase>> = [];
+        for (const [key, monitor] of [...this.monitors]) {
+            const params: JsonValue[] = [monitor.dbName, monitor.monitorId, monitor.monitorRequests as JsonValue];
+            if (monitor.method === "monitor_cond_since") {
+                params.push(monitor.lastTransactionId);
+            }
+
+            // Hold updates of the re-issued monitor back until its
+            // subscription reported the fresh snapshot.
+            monitor.backlog ??= [];
+            const requestedTransactionId = monitor.lastTransactionId;
+            try {
+                if (this.decodeValues) {
+                    await this.loadSchema(monitor.dbName);
+                }
+                const result = this.decodeMonitorResult(monitor.method, monitor.dbName, await this.request<unknown>(monitor.method, params));
+                if (monitor.method === "monitor_cond_since") {
+                    const [found, lastTransactionId, updates] = result as MonitorCondSinceResult<TDatabase>;
+                    if (monitor.lastTransactionId === requestedTransactionId) {
+                        monitor.lastTransactionId = lastTransactionId;
+                    }
+                    if (monitor.subscription?.method === "monitor_cond_since") {
+                        monitor.subscription.found = found;
+                        monitor.subscription.emit("restored", updates);
+                    }
+                } else if (monitor.subscription?.method === "monitor") {
+                    monitor.subscription.emit("restored", result as TableUpdates<TDatabase>);
+                } else if (monitor.subscription?.method === "monitor_cond") {
+                    monitor.subscription.emit("restored", result as TableUpdates2<TDatabase>);
+                }
+                this.flushBacklog(monitor);
+                monitors.push({
+                    method: monitor.method,
+                    monitorId: monitor.monitorId,
+                    dbName: monitor.dbName,
+                    result
+                } as OvsdbRestoredMonitor<TDatabase>);
+            } catch (error) {
+                if (!(error instanceof OvsdbRpcError)) {
+                    throw error;
+                }
+                this.monitors.delete(key);
+                monitor.backlog = null;
+                monitor.subscription?.emit("stale", error);
+                monitor.subscription?.emit("end", error);
+                monitors.push({
+                    method: monitor.method,
+                    monitorId: monitor.monitorId,
+                    dbName: monitor.dbName,
+                    error
+                });
+            }
+        }
+
+        const locks: Array<{lockId: string; locked: boolean}> = [];
+        for (const lockId of this.locks) {
+            const result = await this.request<null | JsonObject>("lock", [lockId]);
+            locks.push({
+                lockId,
+                locked: result?.locked === true
+            });
+        }
+
+        return {
+            attempt,
+            monitors,
+            locks
+        };
     }
 }
 
 export * from "./types";
+export * from "./listener";
+export * from "./tracing";
+export * from "./database";
+export * from "./memory";
+export * from "./server";
+export * from "./validation";
+export * from "./codec";
+export * from "./json";
+export * from "./query";
+export * from "./repository";
+export * from "./replica";
+export * from "./changes";
+export * from "./diff";
+export * from "./election";
+export * from "./subscription";
+export * from "./stream";
+export type {
+    OvsdbAttributes,
+    OvsdbAttributeValue,
+    OvsdbCounterLike,
+    OvsdbHistogramLike,
+    OvsdbInstrumentationOptions,
+    OvsdbInstrumentOptions,
+    OvsdbMeterLike,
+    OvsdbSpanLike,
+    OvsdbTracerLike
+} from "./instrumentation";
 
 /**
  * Resolves the user-supplied transport options into an explicit connection mode.
+ *
+ * When `remote` lists several remotes, the first one is returned.
  */
 export function resolveConnectionOptions(options: OvsdbClientOptions = {}): OvsdbResolvedConnectionOptions {
+    return resolveRemotes(options)[0];
+}
+
+/**
+ * Resolves the user-supplied transport options into the ordered list of remotes
+ * the client rotates through.
+ */
+export function resolveRemotes(options: OvsdbClientOptions = {}): OvsdbResolvedConnectionOptions[] {
+    if (options.remote !== undefined) {
+        const remotes = (Array.isArray(options.remote) ? options.remote : [options.remote])
+            .flatMap((remote) => parseRemote(remote, options.tlsOptions));
+        if (remotes.length === 0) {
+            throw new Error("Expected at least one OVSDB remote");
+        }
+        return remotes;
+    }
+
+    return [resolveLegacyConnectionOptions(options)];
+}
+
+/**
+ * Parses Open vSwitch remote syntax into resolved connection options.
+ *
+ * Supports comma-separated lists of `unix:<path>`, `tcp:<host>[:<port>]`, and
+ * `ssl:<host>[:<port>]`. IPv6 hosts must be enclosed in brackets, as in
+ * `tcp:[::1]:6641`. The port defaults to `6640`.
+ *
+ * @param remote Remote string such as `"tcp:10.0.0.1:6641,tcp:10.0.0.2:6641"`.
+ * @param tlsOptions Extra TLS options applied to `ssl:` remotes.
+ */
+export function parseRemote(remote: string, tlsOptions: TlsConnectionOptions = {}): OvsdbResolvedConnectionOptions[] {
+    return remote
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry): OvsdbResolvedConnectionOptions => {
+            const separator = entry.indexOf(":");
+            const kind = separator === -1 ? entry : entry.slice(0, separator);
+            const target = separator === -1 ? "" : entry.slice(separator + 1);
+
+            if (kind === "unix") {
+                if (!target) {
+                    throw new Error(`Invalid OVSDB remote: ${entry}`);
+                }
+                return {
+                    transport: "unix",
+                    socketPath: target
+                };
+            }
+
+            if (kind !== "tcp" && kind !== "ssl") {
+                throw new Error(`Unsupported OVSDB remote: ${entry}`);
+            }
+
+            const {host, port} = parseHostPort(target, entry);
+            if (kind === "tcp") {
+                return {
+                    transport: "tcp",
+                    host,
+                    port
+                };
+            }
+
+            return {
+                transport: "tls",
+                host,
+                port,
+                tlsOptions: {
+                    host,
+                    port,
+                    ...tlsOptions
+                }
+            };
+        });
+}
+
+function resolveLegacyConnectionOptions(options: OvsdbClientOptions): OvsdbResolvedConnectionOptions {
     if (options.host) {
         const port = options.port ?? 6640;
         if (options.tls) {
@@ -985,81 +2584,158 @@ export function resolveConnectionOptions(options: OvsdbClientOptions = {}): Ovsd
     };
 }
 
-function createTransport(options: OvsdbResolvedConnectionOptions): OvsdbStream {
-    switch (options.transport) {
-        case "unix":
-            return createNetConnection(options.socketPath);
-        case "tcp":
-            return createNetConnection(options.port, options.host);
-        case "tls":
-            return connectTls(options.tlsOptions);
+function parseHostPort(target: string, remote: string): {host: string; port: number} {
+    const match = /^(?:\[([^\]]+)\]|([^:]+))(?::(\d+))?$/u.exec(target);
+    if (!match) {
+        throw new Error(`Invalid OVSDB remote: ${remote}`);
+    }
+
+    const port = match[3] === undefined ? 6640 : Number.parseInt(match[3], 10);
+    if (port < 1 || port > 65535) {
+        throw new Error(`Invalid OVSDB remote port: ${remote}`);
     }
+
+    return {
+        host: match[1] ?? match[2],
+        port
+    };
 }
 
-function isOvsdbError(value: unknown): value is OvsdbError {
-    return typeof value === "object" && value !== null && "error" in value && typeof value.error === "string";
+function resolveRetryOptions(options: OvsdbRetryOptions = {}): Required<OvsdbRetryOptions> {
+    return {
+        maxAttempts: Math.max(1, options.maxAttempts ?? 5),
+        initialDelay: options.initialDelay ?? 10,
+        maxDelay: options.maxDelay ?? 1000,
+        multiplier: options.multiplier ?? 2,
+        jitter: options.jitter ?? 0.2
+    };
 }
 
-function extractJsonFrame(buffer: string): {frame: string; rest: string} | null {
-    let startIndex = 0;
-    while (startIndex < buffer.length && /\s/u.test(buffer[startIndex])) {
-        startIndex += 1;
-    }
+/**
+ * A failed guard times out immediately; `"try again"` is how a server asks
+ * for the whole transaction to be retried.
+ */
+function isConflict(error: OvsdbTransactionError, guards: number): boolean {
+    return error.result.error === "try again" || (error.result.error === "timed out" && error.operationIndex < guards);
+}
 
-    if (startIndex >= buffer.length) {
-        return null;
-    }
+/**
+ * Waits `ms` milliseconds, or rejects with the signal's reason as soon as it
+ * aborts.
+ */
+function delay(ms: number, signal: AbortSignal | undefined): Promise<void> {
+    return new Promise((resolve, reject) => {
+        signal?.throwIfAborted();
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, {once: true});
+    });
+}
 
-    const opening = buffer[startIndex];
-    const closing = opening === "{" ? "}" : opening === "[" ? "]" : null;
-    if (!closing) {
+function resolveReconnectOptions(
+    options: OvsdbClientOptions["reconnect"]
+): Required<OvsdbReconnectOptions> | null {
+    if (!options) {
         return null;
     }
 
-    let depth = 0;
-    let inString = false;
-    let escaping = false;
+    const overrides = options === true ? {} : options;
+    return {
+        initialDelay: overrides.initialDelay ?? 1000,
+        maxDelay: overrides.maxDelay ?? 8000,
+        multiplier: overrides.multiplier ?? 2,
+        jitter: overrides.jitter ?? 0.2,
+        maxAttempts: overrides.maxAttempts ?? Number.POSITIVE_INFINITY
+    };
+}
 
-    for (let index = startIndex; index < buffer.length; index += 1) {
-        const char = buffer[index];
+const CLUSTER_MONITOR_ID = "node-ovsdb:_Server";
 
-        if (inString) {
-            if (escaping) {
-                escaping = false;
-                continue;
-            }
+function describeClusterProblem(
+    options: Required<OvsdbClusterOptions>,
+    status: OvsdbClusterStatus | null
+): string | null {
+    if (!status) {
+        return `Database ${options.database} is not served by this server`;
+    }
 
-            if (char === "\\") {
-                escaping = true;
-                continue;
-            }
+    if (!status.connected) {
+        return `Database ${options.database} is not connected to its cluster`;
+    }
 
-            if (char === "\"") {
-                inString = false;
-            }
-            continue;
-        }
+    if (options.leaderOnly && !status.leader) {
+        return `Database ${options.database} is not the cluster leader on this server`;
+    }
 
-        if (char === "\"") {
-            inString = true;
-            continue;
-        }
+    return null;
+}
 
-        if (char === "{" || char === "[") {
-            depth += 1;
-            continue;
+function toClusterStatus(row: Record<string, OvsdbValue>): OvsdbClusterStatus {
+    const optionalAtom = (value: OvsdbValue | undefined): OvsdbValue | null => {
+        if (Array.isArray(value) && value[0] === "set") {
+            return (value[1] as OvsdbValue[])[0] ?? null;
         }
+        return value ?? null;
+    };
+    const optionalUuid = (value: OvsdbValue | undefined): string | null => {
+        const atom = optionalAtom(value);
+        return Array.isArray(atom) && atom[0] === "uuid" ? atom[1] as string : null;
+    };
+    const index = optionalAtom(row.index);
 
-        if (char === "}" || char === "]") {
-            depth -= 1;
-            if (depth === 0) {
-                return {
-                    frame: buffer.slice(startIndex, index + 1),
-                    rest: buffer.slice(index + 1)
-                };
-            }
-        }
+    return {
+        database: row.name as string,
+        model: row.model as OvsdbClusterStatus["model"],
+        connected: row.connected === true,
+        leader: row.leader === true,
+        index: typeof index === "number" ? index : null,
+        cid: optionalUuid(row.cid),
+        sid: optionalUuid(row.sid)
+    };
+}
+
+function isUpdateNotification<TDatabase extends DatabaseTableMap>(
+    notification: OvsdbNotification<TDatabase>
+): notification is UpdateNotification<TDatabase> | Update2Notification<TDatabase> | Update3Notification<TDatabase> {
+    return notification.method === "update" || notification.method === "update2" || notification.method === "update3";
+}
+
+function toMonitorKey(monitorId: JsonValue): string {
+    return JSON.stringify(monitorId);
+}
+
+function createTransport(options: OvsdbResolvedConnectionOptions): OvsdbStream {
+    switch (options.transport) {
+        case "unix":
+            return createNetConnection(options.socketPath);
+        case "tcp":
+            return createNetConnection(options.port, options.host);
+        case "tls":
+            return connectTls(options.tlsOptions);
+    }
+}
+
+function toOvsdbErrorPayload(error: unknown): JsonObject {
+    if (error instanceof OvsdbRpcError) {
+        return {...error.response} as JsonObject;
     }
 
-    return null;
+    if (isOvsdbError(error)) {
+        return {...error} as JsonObject;
+    }
+
+    return {
+        error: "internal error",
+        details: error instanceof Error ? error.message : String(error)
+    };
+}
+
+function isOvsdbError(value: unknown): value is OvsdbError {
+    return typeof value === "object" && value !== null && "error" in value && typeof value.error === "string";
 }
@@ -0,0 +1,210 @@
+import type {JsonValue} from "./types";
+
+/**
+ * Attribute values accepted by spans and metric instruments.
+ */
+export type OvsdbAttributeValue = string | number | boolean;
+
+/**
+ * Attributes attached to spans and metric measurements.
+ */
+export type OvsdbAttributes = Record<string, OvsdbAttributeValue>;
+
+/**
+ * Minimal span interface, compatible with an OpenTelemetry `Span`.
+ */
+export interface OvsdbSpanLike {
+    setAttribute(key: string, value: OvsdbAttributeValue): unknown;
+    setStatus(status: {code: number; message?: string}): unknown;
+    recordException?(exception: Error): unknown;
+    end(): void;
+}
+
+/**
+ * Minimal tracer interface, compatible with an OpenTelemetry `Tracer`.
+ */
+export interface OvsdbTracerLike {
+    startSpan(name: string, options?: {kind?: number; attributes?: OvsdbAttributes}): OvsdbSpanLike;
+}
+
+/**
+ * Minimal histogram interface, compatible with an OpenTelemetry `Histogram`.
+ */
+export interface OvsdbHistogramLike {
+    record(value: number, attributes?: OvsdbAttributes): void;
+}
+
+/**
+ * Minimal counter interface, compatible with OpenTelemetry `Counter` and `UpDownCounter`.
+ */
+export interface OvsdbCounterLike {
+    add(value: number, attributes?: OvsdbAttributes): void;
+}
+
+/**
+ * Options accepted when creating a metric instrument.
+ */
+export interface OvsdbInstrumentOptions {
+    description?: string;
+    unit?: string;
+}
+
+/**
+ * Minimal meter interface, compatible with an OpenTelemetry `Meter`.
+ */
+export interface OvsdbMeterLike {
+    createHistogram(name: string, options?: OvsdbInstrumentOptions): OvsdbHistogramLike;
+    createCounter(name: string, options?: OvsdbInstrumentOptions): OvsdbCounterLike;
+    createUpDownCounter(name: string, options?: OvsdbInstrumentOptions): OvsdbCounterLike;
+}
+
+/**
+ * Instrumentation settings for an {@link OVSDBClient}.
+ *
+ * Pass an OpenTelemetry tracer and meter, for example
+ * `trace.getTracer("ovsdb")` and `metrics.getMeter("ovsdb")`, or any object
+ * with the same shape.
+ */
+export interface OvsdbInstrumentationOptions {
+    /**
+     * Creates one span per JSON-RPC request.
+     */
+    tracer?: OvsdbTracerLike;
+
+    /**
+     * Records request, notification, reconnect, and protocol error metrics.
+     */
+    meter?: OvsdbMeterLike;
+}
+
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+const DATABASE_METHODS = new Set(["get_schema", "transact", "monitor", "monitor_cond", "monitor_cond_since"]);
+
+/**
+ * Records spans and metrics for client activity.
+ */
+export class OvsdbClientInstrumentation {
+    private readonly tracer?: OvsdbTracerLike;
+    private readonly requestDuration?: OvsdbHistogramLike;
+    private readonly requestsInFlight?: OvsdbCounterLike;
+    private readonly notifications?: OvsdbCounterLike;
+    private readonly reconnects?: OvsdbCounterLike;
+    private readonly protocolErrors?: OvsdbCounterLike;
+
+    /**
+     * Creates the metric instruments.
+     */
+    constructor(options: OvsdbInstrumentationOptions) {
+        this.tracer = options.tracer;
+        this.requestDuration = options.meter?.createHistogram("ovsdb.client.request.duration", {
+            description: "Duration of OVSDB JSON-RPC requests",
+            unit: "ms"
+        });
+        this.requestsInFlight = options.meter?.createUpDownCounter("ovsdb.client.requests.in_flight", {
+            description: "OVSDB JSON-RPC requests awaiting a response"
+        });
+        this.notifications = options.meter?.createCounter("ovsdb.client.notifications", {
+            description: "OVSDB notifications received"
+        });
+        this.reconnects = options.meter?.createCounter("ovsdb.client.reconnects", {
+            description: "OVSDB reconnect attempts"
+        });
+        this.protocolErrors = options.meter?.createCounter("ovsdb.client.protocol_errors", {
+            description: "Malformed or unexpected OVSDB messages"
+        });
+    }
+
+    /**
+     * Starts measuring a request and returns a callback that completes it.
+     */
+    public startRequest(method: string, params: JsonValue[]): (error: unknown, result?: unknown) => void {
+        const attributes: OvsdbAttributes = {
+            "rpc.system": "ovsdb",
+            "rpc.method": method
+        };
+        if (DATABASE_METHODS.has(method) && typeof params[0] === "string") {
+            attributes["db.name"] = params[0];
+        }
+        if (method === "transact") {
+            attributes["ovsdb.transact.operation_count"] = params.length - 1;
+        }
+
+        const span = this.tracer?.startSpan(`ovsdb ${method}`, {
+            kind: SPAN_KIND_CLIENT,
+            attributes
+        });
+        const startedAt = performance.now();
+        this.requestsInFlight?.add(1, {"rpc.method": method});
+
+        return (error, result) => {
+            this.requestsInFlight?.add(-1, {"rpc.method": method});
+
+            const errorType = error === null ? findOperationError(method, result) : describeError(error);
+            const metricAttributes: OvsdbAttributes = {...attributes};
+            if (errorType) {
+                metricAttributes["error.type"] = errorType;
+            }
+            this.requestDuration?.record(performance.now() - startedAt, metricAttributes);
+
+            if (!span) {
+                return;
+            }
+
+            if (errorType) {
+                span.setAttribute("error.type", errorType);
+                span.setStatus({
+                    code: SPAN_STATUS_ERROR,
+                    message: error instanceof Error ? error.message : errorType
+                });
+                if (error instanceof Error) {
+                    span.recordException?.(error);
+                }
+            }
+            span.end();
+        };
+    }
+
+    /**
+     * Counts a received notification.
+     */
+    public recordNotification(method: string): void {
+        this.notifications?.add(1, {"rpc.method": method});
+    }
+
+    /**
+     * Counts a reconnect attempt.
+     */
+    public recordReconnect(): void {
+        this.reconnects?.add(1);
+    }
+
+    /**
+     * Counts a protocol error.
+     */
+    public recordProtocolError(): void {
+        this.protocolErrors?.add(1);
+    }
+}
+
+function describeError(error: unknown): string {
+    if (error instanceof Error) {
+        return error.name;
+    }
+
+    return typeof error;
+}
+
+function findOperationError(method: string, result: unknown): string | null {
+    if (method !== "transact" || !Array.isArray(result)) {
+        return null;
+    }
+
+    for (const item of result) {
+        if (typeof item === "object" && item !== null && typeof item.error === "string") {
+            return item.error;
+        }
+    }
+
+    return null;
+}
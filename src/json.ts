@@ -0,0 +1,200 @@
+import type {JsonObject, JsonValue} from "./types";
+
+/**
+ * Options for {@link parseJson}.
+ */
+export interface JsonParseOptions {
+    /**
+     * Parses integer literals outside `Number.MIN_SAFE_INTEGER` to
+     * `Number.MAX_SAFE_INTEGER` as `bigint` instead of rounding them.
+     *
+     * @defaultValue `false`
+     */
+    bigint?: boolean;
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/uy;
+const WHITESPACE_PATTERN = /[ \t\n\r]*/uy;
+
+/**
+ * Parses a JSON document.
+ *
+ * Without the `bigint` option, or when the text holds no literal long enough
+ * to be unsafe, this is plain `JSON.parse`.
+ *
+ * @throws SyntaxError When the text is not valid JSON.
+ */
+export function parseJson(text: string, options: JsonParseOptions = {}): JsonValue {
+    if (!options.bigint || !/\d{16}/u.test(text)) {
+        return JSON.parse(text) as JsonValue;
+    }
+
+    const parser = new BigIntJsonParser(text);
+    const value = parser.parseValue();
+    parser.expectEnd();
+    return value;
+}
+
+/**
+ * Serializes a JSON value like `JSON.stringify`, writing `bigint` values as
+ * JSON integer literals.
+ */
+export function stringifyJson(value: JsonValue): string {
+    if (typeof value === "bigint") {
+        return value.toString();
+    }
+
+    if (value === null || typeof value !== "object") {
+        return JSON.stringify(value) ?? "null";
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map((item) => item === undefined ? "null" : stringifyJson(item)).join(",")}]`;
+    }
+
+    const members: string[] = [];
+    for (const [key, item] of Object.entries(value)) {
+        if (item !== undefined) {
+            members.push(`${JSON.stringify(key)}:${stringifyJson(item)}`);
+        }
+    }
+    return `{${members.join(",")}}`;
+}
+
+class BigIntJsonParser {
+    private readonly text: string;
+    private index = 0;
+
+    constructor(text: string) {
+        this.text = text;
+    }
+
+    public parseValue(): JsonValue {
+        this.skipWhitespace();
+        switch (this.text[this.index]) {
+            case "{":
+                return this.parseObject();
+            case "[":
+                return this.parseArray();
+            case "\"":
+                return this.parseString();
+            case "t":
+                return this.parseLiteral("true", true);
+            case "f":
+                return this.parseLiteral("false", false);
+            case "n":
+                return this.parseLiteral("null", null);
+            default:
+                return this.parseNumber();
+        }
+    }
+
+    public expectEnd(): void {
+        this.skipWhitespace();
+        if (this.index < this.text.length) {
+            this.fail();
+        }
+    }
+
+    private parseObject(): JsonObject {
+        const object: JsonObject = {};
+        this.index += 1;
+        this.skipWhitespace();
+        if (this.text[this.index] === "}") {
+            this.index += 1;
+            return object;
+        }
+
+        for (;;) {
+            this.skipWhitespace();
+            if (this.text[this.index] !== "\"") {
+                this.fail();
+            }
+            const key = this.parseString();
+            this.skipWhitespace();
+            this.expect(":");
+            Object.defineProperty(object, key, {value: this.parseValue(), enumerable: true, writable: true, configurable: true});
+            this.skipWhitespace();
+            if (this.text[this.index] === "}") {
+                this.index += 1;
+                return object;
+            }
+            this.expect(",");
+        }
+    }
+
+    private parseArray(): JsonValue[] {
+        const array: JsonValue[] = [];
+        this.index += 1;
+        this.skipWhitespace();
+        if (this.text[this.index] === "]") {
+            this.index += 1;
+            return array;
+        }
+
+        for (;;) {
+            array.push(this.parseValue());
+            this.skipWhitespace();
+            if (this.text[this.index] === "]") {
+                this.index += 1;
+                return array;
+            }
+            this.expect(",");
+        }
+    }
+
+    private parseString(): string {
+        const start = this.index;
+        for (let index = start + 1; index < this.text.length; index += 1) {
+            const char = this.text[index];
+            if (char === "\\") {
+                index += 1;
+            } else if (char === "\"") {
+                this.index = index + 1;
+                return JSON.parse(this.text.slice(start, this.index)) as string;
+            }
+        }
+        return this.fail();
+    }
+
+    private parseNumber(): number | bigint {
+        NUMBER_PATTERN.lastIndex = this.index;
+        const match = NUMBER_PATTERN.exec(this.text);
+        if (!match) {
+            return this.fail();
+        }
+
+        this.index = NUMBER_PATTERN.lastIndex;
+        const value = Number(match[0]);
+        if (match[1] === undefined && match[2] === undefined && !Number.isSafeInteger(value)) {
+            return BigInt(match[0]);
+        }
+        return value;
+    }
+
+    private parseLiteral<TValue extends JsonValue>(literal: string, value: TValue): TValue {
+        if (!this.text.startsWith(literal, this.index)) {
+            this.fail();
+        }
+        this.index += literal.length;
+        return value;
+    }
+
+    private expect(char: string): void {
+        if (this.text[this.index] !== char) {
+            this.fail();
+        }
+        this.index += 1;
+    }
+
+    private skipWhitespace(): void {
+        WHITESPACE_PATTERN.lastIndex = this.index;
+        WHITESPACE_PATTERN.exec(this.text);
+        this.index = WHITESPACE_PATTERN.lastIndex;
+    }
+
+    private fail(): never {
+        const found = this.index < this.text.length ? `token ${JSON.stringify(this.text[this.index])}` : "end";
+        throw new SyntaxError(`Unexpected ${found} in JSON at position ${this.index}`);
+    }
+}
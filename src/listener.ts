@@ -0,0 +1,252 @@
+import {EventEmitter} from "node:events";
+import {createServer as createNetServer, type AddressInfo, type Server, type Socket} from "node:net";
+import {createServer as createTlsServer, type TLSSocket, type TlsOptions} from "node:tls";
+
+import {OVSDBClient} from "./index";
+import type {OvsdbClientOptions} from "./index";
+import type {DatabaseTableMap} from "./types";
+
+/**
+ * Resolved passive Unix socket settings.
+ */
+export interface OvsdbPassiveUnixOptions {
+    transport: "unix";
+    socketPath: string;
+}
+
+/**
+ * Resolved passive TCP settings.
+ */
+export interface OvsdbPassiveTcpOptions {
+    transport: "tcp";
+    port: number;
+    host?: string;
+}
+
+/**
+ * Resolved passive TLS settings.
+ */
+export interface OvsdbPassiveTlsOptions {
+    transport: "tls";
+    port: number;
+    host?: string;
+}
+
+/**
+ * Fully resolved settings for a passive (listening) remote.
+ */
+export type OvsdbPassiveRemote =
+    | OvsdbPassiveUnixOptions
+    | OvsdbPassiveTcpOptions
+    | OvsdbPassiveTlsOptions;
+
+/**
+ * Typed events emitted by {@link OvsdbPassiveListener}.
+ */
+export interface OvsdbPassiveListenerEvents<TDatabase extends DatabaseTableMap = DatabaseTableMap> {
+    listening: [];
+    connection: [OVSDBClient<TDatabase>];
+    error: [Error];
+    close: [];
+}
+
+/**
+ * Options for configuring an {@link OvsdbPassiveListener}.
+ */
+export interface OvsdbPassiveListenerOptions {
+    /**
+     * Passive remote in Open vSwitch syntax: `ptcp:<port>[:<ip>]`,
+     * `pssl:<port>[:<ip>]`, or `punix:<path>`.
+     *
+     * @defaultValue `"ptcp:6640"`
+     */
+    remote?: string;
+
+    /**
+     * TLS server options forwarded to `node:tls`. Required for `pssl:` remotes.
+     */
+    tlsOptions?: TlsOptions;
+
+    /**
+     * Options for every client created for an inbound connection.
+     *
+     * Transport and reconnect settings do not apply to adopted connections.
+     */
+    clientOptions?: Omit<OvsdbClientOptions, "remote" | "socketPath" | "host" | "port" | "tls" | "tlsOptions" | "connectionFactory" | "reconnect" | "cluster">;
+}
+
+/**
+ * Accepts connections from `ovsdb-server` instances that were configured with a
+ * manager such as `ovs-vsctl set-manager tcp:controller:6640`.
+ *
+ * Every inbound connection is handed out as a connected {@link OVSDBClient}.
+ */
+export class OvsdbPassiveListener<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap
+> extends EventEmitter<OvsdbPassiveListenerEvents<TDatabase>> implements AsyncDisposable {
+    private readonly passiveRemote: OvsdbPassiveRemote;
+    private readonly tlsOptions?: TlsOptions;
+    private readonly clientOptions: OvsdbPassiveListenerOptions["clientOptions"];
+    private readonly connectedClients = new Set<OVSDBClient<TDatabase>>();
+
+    private server: Server | null = null;
+
+    /**
+     * Creates a new passive listener instance.
+     */
+    constructor(options: OvsdbPassiveListenerOptions = {}) {
+        super();
+        this.passiveRemote = parsePassiveRemote(options.remote ?? "ptcp:6640");
+        this.tlsOptions = options.tlsOptions;
+        this.clientOptions = options.clientOptions;
+
+        if (this.passiveRemote.transport === "tls" && !this.tlsOptions) {
+            throw new Error("TLS options are required for pssl remotes");
+        }
+    }
+
+    /**
+     * Returns the bound address, or `null` while not listening.
+     */
+    public get address(): AddressInfo | string | null {
+        return this.server?.address() ?? null;
+    }
+
+    /**
+     * Returns the clients of all currently open inbound connections.
+     */
+    public get clients(): ReadonlySet<OVSDBClient<TDatabase>> {
+        return this.connectedClients;
+    }
+
+    /**
+     * Starts accepting inbound connections.
+     *
+     * @returns The listening instance for chaining.
+     */
+    public async listen(): Promise<this> {
+        if (this.server) {
+            return this;
+        }
+
+        const server = this.passiveRemote.transport === "tls"
+            ? createTlsServer(this.tlsOptions ?? {})
+            : createNetServer();
+        const connectionEvent = this.passiveRemote.transport === "tls" ? "secureConnection" : "connection";
+
+        server.on(connectionEvent, this.handleConnection);
+        server.on("error", this.handleServerError);
+        this.server = server;
+
+        await new Promise<void>((resolve, reject) => {
+            const onError = (error: Error) => {
+                this.server = null;
+                server.off(connectionEvent, this.handleConnection);
+                server.off("error", this.handleServerError);
+                reject(error);
+            };
+
+            server.once("error", onError);
+            const onListening = () => {
+                server.off("error", onError);
+                resolve();
+            };
+
+            if (this.passiveRemote.transport === "unix") {
+                server.listen(this.passiveRemote.socketPath, onListening);
+            } else {
+                server.listen(this.passiveRemote.port, this.passiveRemote.host, onListening);
+            }
+        });
+
+        this.emit("listening");
+        return this;
+    }
+
+    /**
+     * Stops listening and closes every open inbound connection.
+     */
+    public async close(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+
+        await Promise.all([...this.connectedClients].map(async (client) => await client.close()));
+        this.connectedClients.clear();
+
+        if (server) {
+            await new Promise<void>((resolve) => {
+                server.close(() => resolve());
+            });
+            this.emit("close");
+        }
+    }
+
+    /**
+     * Implements `AsyncDisposable`.
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.close();
+    }
+
+    private readonly handleConnection = (socket: Socket | TLSSocket): void => {
+        const client = new OVSDBClient<TDatabase>(this.clientOptions);
+        client.once("close", () => {
+            this.connectedClients.delete(client);
+        });
+        client.adopt(socket);
+        this.connectedClients.add(client);
+        this.emit("connection", client);
+    };
+
+    private readonly handleServerError = (error: Error): void => {
+        if (this.server) {
+            this.emit("error", error);
+        }
+    };
+}
+
+/**
+ * Parses a passive remote in Open vSwitch syntax.
+ *
+ * Supports `ptcp:[<port>][:<ip>]`, `pssl:[<port>][:<ip>]`, and `punix:<path>`.
+ * IPv6 addresses must be enclosed in brackets, as in `ptcp:6640:[::1]`. The
+ * port defaults to `6640`.
+ *
+ * @param remote Passive remote string.
+ */
+export function parsePassiveRemote(remote: string): OvsdbPassiveRemote {
+    const separator = remote.indexOf(":");
+    const kind = separator === -1 ? remote : remote.slice(0, separator);
+    const target = separator === -1 ? "" : remote.slice(separator + 1);
+
+    if (kind === "punix") {
+        if (!target) {
+            throw new Error(`Invalid passive OVSDB remote: ${remote}`);
+        }
+        return {
+            transport: "unix",
+            socketPath: target
+        };
+    }
+
+    if (kind !== "ptcp" && kind !== "pssl") {
+        throw new Error(`Unsupported passive OVSDB remote: ${remote}`);
+    }
+
+    const match = /^(\d*)(?::(?:\[([^\]]+)\]|([^:]+)))?$/u.exec(target);
+    if (!match) {
+        throw new Error(`Invalid passive OVSDB remote: ${remote}`);
+    }
+
+    const port = match[1] ? Number.parseInt(match[1], 10) : 6640;
+    if (port > 65535) {
+        throw new Error(`Invalid passive OVSDB remote port: ${remote}`);
+    }
+
+    const host = match[2] ?? match[3];
+    return {
+        transport: kind === "ptcp" ? "tcp" : "tls",
+        port,
+        ...(host ? {host} : {})
+    };
+}
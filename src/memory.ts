@@ -0,0 +1,220 @@
+import {Duplex} from "node:stream";
+
+import {OvsdbMemoryDatabase} from "./database";
+import {OvsdbRpcError} from "./index";
+import {OvsdbServer} from "./server";
+import type {
+    OvsdbServerOptions,
+    OvsdbStorageBackend,
+    OvsdbStorageContext,
+    OvsdbStorageMonitor,
+    OvsdbStorageMonitorRequest,
+    OvsdbStorageUpdateListener
+} from "./server";
+import type {DatabaseOperation, DatabaseSchema, JsonValue} from "./types";
+
+/**
+ * Options for configuring an {@link OvsdbMemoryStorage}.
+ */
+export interface OvsdbMemoryStorageOptions {
+    /**
+     * Schemas of the databases to serve. Every database starts out empty.
+     */
+    schemas?: DatabaseSchema[];
+
+    /**
+     * Number of committed transactions each database keeps for `monitor_cond_since`.
+     *
+     * @defaultValue `100`
+     */
+    historySize?: number;
+}
+
+/**
+ * Options for configuring an {@link OvsdbMemoryServer}.
+ */
+export interface OvsdbMemoryServerOptions extends OvsdbMemoryStorageOptions, Omit<OvsdbServerOptions, "storage"> {
+}
+
+/**
+ * An {@link OvsdbStorageBackend} that keeps every database in memory.
+ */
+export class OvsdbMemoryStorage implements OvsdbStorageBackend {
+    private readonly historySize?: number;
+    private readonly databases = new Map<string, OvsdbMemoryDatabase>();
+
+    /**
+     * Creates a new in-memory storage.
+     */
+    constructor(options: OvsdbMemoryStorageOptions = {}) {
+        this.historySize = options.historySize;
+        for (const schema of options.schemas ?? []) {
+            this.addDatabase(schema);
+        }
+    }
+
+    /**
+     * Adds an empty database.
+     *
+     * @throws Error When a database with the same name is already served.
+     */
+    public addDatabase(schema: DatabaseSchema): OvsdbMemoryDatabase {
+        if (this.databases.has(schema.name)) {
+            throw new Error(`Database ${schema.name} already exists`);
+        }
+
+        const database = new OvsdbMemoryDatabase(schema, {historySize: this.historySize});
+        this.databases.set(schema.name, database);
+        return database;
+    }
+
+    /**
+     * Returns a served database, for seeding or inspecting data without a client.
+     */
+    public database(name: string): OvsdbMemoryDatabase | undefined {
+        return this.databases.get(name);
+    }
+
+    /**
+     * Implements {@link OvsdbStorageBackend.listDatabases}.
+     */
+    public listDatabases(): string[] {
+        return [...this.databases.keys()];
+    }
+
+    /**
+     * Implements {@link OvsdbStorageBackend.getSchema}.
+     */
+    public getSchema(database: string): DatabaseSchema | null {
+        return this.databases.get(database)?.schema ?? null;
+    }
+
+    /**
+     * Implements {@link OvsdbStorageBackend.transact}.
+     */
+    public async transact(database: string, operations: DatabaseOperation[], context: OvsdbStorageContext): Promise<JsonValue[]> {
+        return await this.requireDatabase(database).transact(operations as unknown as JsonValue[], context);
+    }
+
+    /**
+     * Implements {@link OvsdbStorageBackend.monitor}.
+     */
+    public monitor(database: string, request: OvsdbStorageMonitorRequest, listener: OvsdbStorageUpdateListener): OvsdbStorageMonitor {
+        return this.requireDatabase(database).monitor(
+            request.method,
+            request.requests as unknown as JsonValue,
+            request.lastTransactionId,
+            listener
+        );
+    }
+
+    private requireDatabase(name: string): OvsdbMemoryDatabase {
+        const database = this.databases.get(name);
+        if (!database) {
+            throw new OvsdbRpcError({error: "unknown database", details: `${JSON.stringify(name)} is not a valid database name`});
+        }
+        return database;
+    }
+}
+
+/**
+ * An in-process OVSDB server for hermetic tests: an {@link OvsdbServer} over
+ * {@link OvsdbMemoryStorage}.
+ *
+ * Connect a client through {@link OvsdbMemoryServer.createConnection}, or
+ * call {@link OvsdbServer.listen} to serve the databases over a socket:
+ *
+ * ```ts
+ * const server = new OvsdbMemoryServer({schemas: [schema]});
+ * const client = new OVSDBClient({connectionFactory: () => server.createConnection()});
+ * ```
+ */
+export class OvsdbMemoryServer extends OvsdbServer {
+    /**
+     * Storage that serves the databases.
+     */
+    public declare readonly storage: OvsdbMemoryStorage;
+
+    /**
+     * Creates a new in-memory server.
+     */
+    constructor(options: OvsdbMemoryServerOptions = {}) {
+        super({
+            remote: options.remote,
+            tlsOptions: options.tlsOptions,
+            storage: new OvsdbMemoryStorage(options)
+        });
+    }
+
+    /**
+     * Adds an empty database.
+     *
+     * @throws Error When a database with the same name is already served.
+     */
+    public addDatabase(schema: DatabaseSchema): OvsdbMemoryDatabase {
+        return this.storage.addDatabase(schema);
+    }
+
+    /**
+     * Returns a served database, for seeding or inspecting data without a client.
+     */
+    public database(name: string): OvsdbMemoryDatabase | undefined {
+        return this.storage.database(name);
+    }
+
+    /**
+     * Opens an in-process connection and returns the client end of it.
+     *
+     * The stream emits `connect` on the next tick, so it can be returned
+     * directly from an `OVSDBClient` `connectionFactory`.
+     */
+    public createConnection(): Duplex {
+        const clientEnd = new MemoryStream();
+        const serverEnd = new MemoryStream();
+        clientEnd.peer = serverEnd;
+        serverEnd.peer = clientEnd;
+
+        this.accept(serverEnd);
+        process.nextTick(() => clientEnd.emit("connect"));
+        return clientEnd;
+    }
+}
+
+class MemoryStream extends Duplex {
+    public peer: MemoryStream | null = null;
+
+    public override _read(): void {
+    }
+
+    public override _write(
+        chunk: string | Buffer,
+        _encoding: BufferEncoding,
+        callback: (error?: Error | null) => void
+    ): void {
+        const peer = this.peer;
+        if (peer) {
+            process.nextTick(() => {
+                if (!peer.destroyed) {
+                    peer.push(chunk);
+                }
+            });
+        }
+        callback();
+    }
+
+    public override _final(callback: (error?: Error | null) => void): void {
+        const peer = this.peer;
+        process.nextTick(() => peer?.push(null));
+        callback();
+    }
+
+    public override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        const peer = this.peer;
+        this.peer = null;
+        if (peer) {
+            peer.peer = null;
+            process.nextTick(() => peer.destroy());
+        }
+        callback(error);
+    }
+}
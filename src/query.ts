@@ -0,0 +1,262 @@
+import type {
+    ConditionForTable,
+    ConditionFunction,
+    DatabaseOperation,
+    DatabaseTableMap,
+    DeleteOperation,
+    MutateOperation,
+    MutationForTable,
+    OvsMap,
+    OvsSet,
+    RowRecord,
+    SelectOperation,
+    TableName,
+    TableRow,
+    UpdateOperation,
+    Uuid
+} from "./types";
+
+/**
+ * Row of a table as seen by queries, including the `_uuid` and `_version`
+ * columns every table has.
+ */
+export type QueryRow<
+    TDatabase extends DatabaseTableMap,
+    TTable extends TableName<TDatabase>
+> = TableRow<TDatabase, TTable> & {_uuid: Uuid; _version: Uuid};
+
+/**
+ * Column names that can be referenced by a query on a table.
+ */
+export type QueryColumnName<
+    TDatabase extends DatabaseTableMap,
+    TTable extends TableName<TDatabase>
+> = Extract<keyof QueryRow<TDatabase, TTable>, string>;
+
+/**
+ * Wire value of a column, without the `undefined` of optional columns.
+ */
+export type QueryColumnValue<
+    TDatabase extends DatabaseTableMap,
+    TTable extends TableName<TDatabase>,
+    TColumn extends QueryColumnName<TDatabase, TTable>
+> = Exclude<QueryRow<TDatabase, TTable>[TColumn], undefined>;
+
+/**
+ * Columns that support the ordering functions `<`, `<=`, `>`, and `>=`:
+ * scalar `integer` and `real` columns.
+ */
+export type ComparableColumnName<
+    TDatabase extends DatabaseTableMap,
+    TTable extends TableName<TDatabase>
+> = string extends keyof TableRow<TDatabase, TTable>
+    ? string
+    : {
+        [TColumn in QueryColumnName<TDatabase, TTable>]:
+            QueryColumnValue<TDatabase, TTable, TColumn> extends number | bigint ? TColumn : never
+    }[QueryColumnName<TDatabase, TTable>];
+
+/**
+ * Values accepted by `includes` and `excludes`: the column value itself or,
+ * for sets, a single element, which OVSDB reads as a one-element set.
+ */
+export type QueryElementValue<TValue> =
+    TValue extends OvsSet<infer TElement> ? TValue | TElement :
+        TValue extends OvsMap ? TValue :
+            TValue;
+
+/**
+ * Collects the `where` clause of a query. Every method adds a condition and
+ * returns the builder, so conditions chain and are combined with AND.
+ */
+export class OvsdbConditionBuilder<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TTable extends TableName<TDatabase> = TableName<TDatabase>
+> {
+    private readonly clauses: Array<ConditionForTable<TDatabase, TTable>> = [];
+
+    /**
+     * Returns the conditions added so far.
+     */
+    public get conditions(): ReadonlyArray<ConditionForTable<TDatabase, TTable>> {
+        return this.clauses;
+    }
+
+    /**
+     * Matches rows whose column equals `value`.
+     */
+    public eq<TColumn extends QueryColumnName<TDatabase, TTable>>(
+        column: TColumn,
+        value: QueryColumnValue<TDatabase, TTable, TColumn>
+    ): this {
+        return this.add(column, "==", value);
+    }
+
+    /**
+     * Matches rows whose column differs from `value`.
+     */
+    public ne<TColumn extends QueryColumnName<TDatabase, TTable>>(
+        column: TColumn,
+        value: QueryColumnValue<TDatabase, TTable, TColumn>
+    ): this {
+        return this.add(column, "!=", value);
+    }
+
+    /**
+     * Matches rows whose numeric column is less than `value`.
+     */
+    public lt<TColumn extends ComparableColumnName<TDatabase, TTable>>(
+        column: TColumn,
+        value: QueryColumnValue<TDatabase, TTable, TColumn & QueryColumnName<TDatabase, TTable>>
+    ): this {
+        return this.add(column, "<", value);
+    }
+
+    /**
+     * Matches rows whose numeric column is less than or equal to `value`.
+     */
+    public le<TColumn extends ComparableColumnName<TDatabase, TTable>>(
+        column: TColumn,
+        value: QueryColumnValue<TDatabase, TTable, TColumn & QueryColumnName<TDatabase, TTable>>
+    ): this {
+        return this.add(column, "<=", value);
+    }
+
+    /**
+     * Matches rows whose numeric column is greater than `value`.
+     */
+    public gt<TColumn extends ComparableColumnName<TDatabase, TTable>>(
+        column: TColumn,
+        value: QueryColumnValue<TDatabase, TTable, TColumn & QueryColumnName<TDatabase, TTable>>
+    ): this {
+        return this.add(column, ">", value);
+    }
+
+    /**
+     * Matches rows whose numeric column is greater than or equal to `value`.
+     */
+    public ge<TColumn extends ComparableColumnName<TDatabase, TTable>>(
+        column: TColumn,
+        value: QueryColumnValue<TDatabase, TTable, TColumn & QueryColumnName<TDatabase, TTable>>
+    ): this {
+        return this.add(column, ">=", value);
+    }
+
+    /**
+     * Matches rows whose set or map column contains every element of `value`.
+     */
+    public includes<TColumn extends QueryColumnName<TDatabase, TTable>>(
+        column: TColumn,
+        value: QueryElementValue<QueryColumnValue<TDatabase, TTable, TColumn>>
+    ): this {
+        return this.add(column, "includes", value);
+    }
+
+    /**
+     * Matches rows whose set or map column contains no element of `value`.
+     */
+    public excludes<TColumn extends QueryColumnName<TDatabase, TTable>>(
+        column: TColumn,
+        value: QueryElementValue<QueryColumnValue<TDatabase, TTable, TColumn>>
+    ): this {
+        return this.add(column, "excludes", value);
+    }
+
+    private add(column: string, func: ConditionFunction, value: unknown): this {
+        this.clauses.push([column, func, value] as ConditionForTable<TDatabase, TTable>);
+        return this;
+    }
+}
+
+/**
+ * Fluent builder for operations on a single table.
+ *
+ * Created by `OvsdbTransaction.from()`. The terminal methods build the
+ * operation, stage it on the transaction, and return it.
+ */
+export class OvsdbTableQuery<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TTable extends TableName<TDatabase> = TableName<TDatabase>
+> {
+    private readonly table: TTable;
+    private readonly stage: (operation: DatabaseOperation<TDatabase>) => void;
+    private readonly conditions = new OvsdbConditionBuilder<TDatabase, TTable>();
+
+    /**
+     * Creates a query on `table` that hands finished operations to `stage`.
+     */
+    constructor(table: TTable, stage: (operation: DatabaseOperation<TDatabase>) => void = () => undefined) {
+        this.table = table;
+        this.stage = stage;
+    }
+
+    /**
+     * Adds conditions to the query. Repeated calls are combined with AND;
+     * without any, the operation matches every row.
+     */
+    public where(build: (conditions: OvsdbConditionBuilder<TDatabase, TTable>) => unknown): this {
+        build(this.conditions);
+        return this;
+    }
+
+    /**
+     * Stages a `select`. When `columns` is given, the result rows are typed
+     * with only those columns.
+     */
+    public select(): SelectOperation<TDatabase, TTable>;
+    public select<const TColumns extends QueryColumnName<TDatabase, TTable>[]>(
+        columns: TColumns
+    ): SelectOperation<TDatabase, TTable> & {columns: TColumns};
+    public select(columns?: string[]): SelectOperation<TDatabase, TTable> {
+        return this.finish({
+            op: "select",
+            table: this.table,
+            where: this.currentConditions(),
+            ...(columns ? {columns: [...columns]} : {})
+        });
+    }
+
+    /**
+     * Stages an `update` that writes `row` to every matching row.
+     */
+    public update(row: Partial<TableRow<TDatabase, TTable>> & RowRecord): UpdateOperation<TDatabase, TTable> {
+        return this.finish({
+            op: "update",
+            table: this.table,
+            where: this.currentConditions(),
+            row
+        });
+    }
+
+    /**
+     * Stages a `mutate` that applies `mutations` to every matching row.
+     */
+    public mutate(mutations: Array<MutationForTable<TDatabase, TTable>>): MutateOperation<TDatabase, TTable> {
+        return this.finish({
+            op: "mutate",
+            table: this.table,
+            where: this.currentConditions(),
+            mutations
+        });
+    }
+
+    /**
+     * Stages a `delete` of every matching row.
+     */
+    public delete(): DeleteOperation<TDatabase, TTable> {
+        return this.finish({
+            op: "delete",
+            table: this.table,
+            where: this.currentConditions()
+        });
+    }
+
+    private currentConditions(): Array<ConditionForTable<TDatabase, TTable>> {
+        return [...this.conditions.conditions];
+    }
+
+    private finish<TOperation extends DatabaseOperation<TDatabase>>(operation: TOperation): TOperation {
+        this.stage(operation);
+        return operation;
+    }
+}
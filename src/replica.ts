@@ -0,0 +1,379 @@
+import {EventEmitter} from "node:events";
+
+import {stringifyJson} from "./json";
+import {applyRowUpdate, normalizeDatum} from "./rows";
+import {parseDatum, resolveTableColumns} from "./schema";
+import type {OVSDBClient, OvsdbRequestOptions, OvsdbRpcError, OvsdbSessionRestore} from "./index";
+import type {QueryRow} from "./query";
+import type {ColumnInfo} from "./schema";
+import type {
+    DatabaseSchema,
+    DatabaseTableMap,
+    JsonValue,
+    MonitorCondRequest,
+    MonitorCondSinceResult,
+    RowRecord,
+    RowUpdate2,
+    TableName,
+    TableRow,
+    TableUpdates2,
+    Update3Notification,
+    Uuid
+} from "./types";
+
+/**
+ * Settings for an {@link OvsdbReplica}.
+ */
+export interface OvsdbReplicaOptions<TDatabase extends DatabaseTableMap = DatabaseTableMap> {
+    /**
+     * Database to replicate.
+     *
+     * @defaultValue `"Open_vSwitch"`
+     */
+    database?: string;
+
+    /**
+     * Tables to replicate, with optional column lists and `where` clauses.
+     * Tables without a column list replicate every column.
+     */
+    tables: Partial<Record<TableName<TDatabase>, MonitorCondRequest<TDatabase>>>;
+
+    /**
+     * Monitor id used for the underlying `monitor_cond_since`.
+     *
+     * @defaultValue `"replica:<database>"`
+     */
+    monitorId?: JsonValue;
+}
+
+/**
+ * Events emitted by {@link OvsdbReplica}.
+ */
+export interface OvsdbReplicaEvents<TDatabase extends DatabaseTableMap = DatabaseTableMap> {
+    /**
+     * The replica replaced its contents with a full snapshot, either on start
+     * or because the server could not resume from the last transaction id.
+     */
+    resync: [];
+    /**
+     * Updates were applied. `transactionId` is the new last transaction id.
+     */
+    update: [updates: TableUpdates2<TDatabase>, transactionId: string | null];
+    /**
+     * The server rejected the monitor when it was re-issued after a reconnect;
+     * the replica no longer receives updates.
+     */
+    stale: [OvsdbRpcError];
+}
+
+interface ReplicaIndex {
+    columns: string[];
+    rows: Map<string, string>;
+}
+
+interface ReplicaTable {
+    columns: Map<string, ColumnInfo>;
+    rows: Map<string, RowRecord>;
+    indexes: ReplicaIndex[];
+}
+
+/**
+ * In-memory copy of monitored tables, kept current from a
+ * `monitor_cond_since` monitor, like the IDL of the C and Python OVS
+ * libraries.
+ *
+ * Rows are stored in wire format with every monitored column present: columns
+ * the server omitted hold their default, sets are always `["set", [...]]`, and
+ * `_uuid` is filled in. The replica tracks the last transaction id, so after a
+ * reconnect the client's re-issued monitor only transfers what changed.
+ *
+ * {@link start} throws when the client uses `decodeValues`.
+ */
+export class OvsdbReplica<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap
+> extends EventEmitter<OvsdbReplicaEvents<TDatabase>> implements AsyncDisposable {
+    /**
+     * Replicated database.
+     */
+    public readonly database: string;
+
+    private readonly client: OVSDBClient<TDatabase>;
+    private readonly requests: Record<string, MonitorCondRequest<TDatabase>>;
+    private readonly monitorId: JsonValue;
+    private readonly monitorKey: string;
+    private readonly tables = new Map<string, ReplicaTable>();
+    private transactionId: string | null = null;
+    private buffered: Update3Notification<TDatabase>[] | null = null;
+    private started = false;
+
+    /**
+     * Creates a replica. Call {@link start} to fetch the initial snapshot.
+     */
+    constructor(client: OVSDBClient<TDatabase>, options: OvsdbReplicaOptions<TDatabase>) {
+        super();
+        this.client = client;
+        this.database = options.database ?? "Open_vSwitch";
+        this.requests = options.tables as Record<string, MonitorCondRequest<TDatabase>>;
+        this.monitorId = options.monitorId ?? `replica:${this.database}`;
+        this.monitorKey = stringifyJson(this.monitorId);
+    }
+
+    /**
+     * Last transaction id applied to the replica, or `null` before the first
+     * snapshot or when the server does not report one.
+     */
+    public get lastTransactionId(): string | null {
+        return this.transactionId;
+    }
+
+    /**
+     * Fetches the schema, starts the monitor, and loads the initial snapshot.
+     *
+     * @throws Error When the client uses `decodeValues`.
+     */
+    public async start(options?: OvsdbRequestOptions): Promise<this> {
+        if (this.started) {
+            return this;
+        }
+        if (this.client.decodesValues) {
+            throw new Error("The replica needs wire values; create the client without decodeValues");
+        }
+
+        const schema = await this.client.getSchema(this.database, options);
+        this.createTables(schema);
+
+        this.client.on("update3", this.handleUpdate);
+        this.client.on("close", this.handleClose);
+        this.client.on("reconnected", this.handleReconnected);
+        this.started = true;
+        this.buffered = [];
+
+        try {
+            const {found, lastTransactionId, initial} = await this.client.monitorCondSince(
+                this.database,
+                this.monitorId,
+                this.requests,
+                this.transactionId,
+                options
+            );
+            this.applyMonitorResult([found, lastTransactionId, initial]);
+        } catch (error) {
+            this.detach();
+            throw error;
+        }
+
+        return this;
+    }
+
+    /**
+     * Cancels the monitor and stops following updates. The replicated rows
+     * stay readable.
+     */
+    public async stop(options?: OvsdbRequestOptions): Promise<void> {
+        if (!this.started) {
+            return;
+        }
+
+        this.detach();
+        if (this.client.isConnected) {
+            await this.client.monitorCancel(this.monitorId, options);
+        }
+    }
+
+    /**
+     * Returns the row with the given UUID, or `undefined` when there is none.
+     *
+     * @throws Error When the table is not replicated.
+     */
+    public get<TTable extends TableName<TDatabase>>(table: TTable, uuid: Uuid | string): QueryRow<TDatabase, TTable> | undefined {
+        const row = this.requireTable(table).rows.get(typeof uuid === "string" ? uuid : uuid[1]);
+        return row as QueryRow<TDatabase, TTable> | undefined;
+    }
+
+    /**
+     * Returns every row of a replicated table.
+     *
+     * @throws Error When the table is not replicated.
+     */
+    public rows<TTable extends TableName<TDatabase>>(table: TTable): Array<QueryRow<TDatabase, TTable>> {
+        return [...this.requireTable(table).rows.values()] as Array<QueryRow<TDatabase, TTable>>;
+    }
+
+    /**
+     * Finds a row by the values of one of the table's schema `indexes`.
+     *
+     * @throws Error When the table is not replicated or the columns of `key`
+     * are not an index whose columns are all replicated.
+     */
+    public findByIndex<TTable extends TableName<TDatabase>>(
+        table: TTable,
+        key: Partial<TableRow<TDatabase, TTable>>
+    ): QueryRow<TDatabase, TTable> | undefined {
+        const replicaTable = this.requireTable(table);
+        const columns = Object.keys(key).sort();
+        const index = replicaTable.indexes.find((candidate) =>
+            candidate.columns.length === columns.length &&
+            [...candidate.columns].sort().every((column, position) => column === columns[position])
+        );
+        if (!index) {
+            throw new Error(`Columns ${columns.join(", ") || "(none)"} do not form a replicated index of table ${table}`);
+        }
+
+        const normalized = index.columns.map((column) => {
+            const info = replicaTable.columns.get(column) as ColumnInfo;
+            return normalizeDatum(parseDatum((key as RowRecord)[column], info.type), info.type);
+        });
+        const uuid = index.rows.get(stringifyJson(normalized as JsonValue));
+        return uuid === undefined ? undefined : replicaTable.rows.get(uuid) as QueryRow<TDatabase, TTable>;
+    }
+
+    /**
+     * Stops the replica.
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.stop().catch(() => undefined);
+    }
+
+    private readonly handleUpdate = (notification: Update3Notification<TDatabase>): void => {
+        if (stringifyJson(notification.params[0]) !== this.monitorKey) {
+            return;
+        }
+
+        if (this.buffered) {
+            this.buffered.push(notification);
+            return;
+        }
+
+        const [, transactionId, updates] = notification.params;
+        this.applyUpdates(updates);
+        this.transactionId = transactionId;
+        this.emit("update", updates, transactionId);
+    };
+
+    private readonly handleClose = (): void => {
+        // Updates that arrive after the re-issued monitor reply but before the
+        // client reports the restored session must wait for that reply.
+        this.buffered = [];
+    };
+
+    private readonly handleReconnected = (restore: OvsdbSessionRestore<TDatabase>): void => {
+        const restored = restore.monitors.find((monitor) => stringifyJson(monitor.monitorId) === this.monitorKey);
+        if (!restored) {
+            return;
+        }
+
+        if ("error" in restored) {
+            this.detach();
+            this.emit("stale", restored.error);
+            return;
+        }
+
+        this.applyMonitorResult(restored.result as MonitorCondSinceResult<TDatabase>);
+    };
+
+    private applyMonitorResult([found, transactionId, updates]: MonitorCondSinceResult<TDatabase>): void {
+        if (!found) {
+            for (const table of this.tables.values()) {
+                table.rows.clear();
+                table.indexes.forEach((index) => index.rows.clear());
+            }
+        }
+
+        this.applyUpdates(updates);
+        this.transactionId = transactionId;
+        if (found) {
+            this.emit("update", updates, transactionId);
+        } else {
+            this.emit("resync");
+        }
+
+        const buffered = this.buffered ?? [];
+        this.buffered = null;
+        buffered.forEach(this.handleUpdate);
+    }
+
+    private applyUpdates(updates: TableUpdates2<TDatabase>): void {
+        for (const [name, rows] of Object.entries(updates)) {
+            const table = this.tables.get(name);
+            if (!table) {
+                continue;
+            }
+
+            for (const [uuid, update] of Object.entries(rows as Record<string, RowUpdate2>)) {
+                const previous = table.rows.get(uuid);
+                if (previous) {
+                    removeFromIndexes(table, uuid, previous);
+                }
+
+                const next = applyRowUpdate(table.columns, uuid, previous, update);
+                if (next) {
+                    table.rows.set(uuid, next);
+                    addToIndexes(table, uuid, next);
+                } else {
+                    table.rows.delete(uuid);
+                }
+            }
+        }
+    }
+
+    private createTables(schema: DatabaseSchema): void {
+        this.tables.clear();
+        for (const [name, request] of Object.entries(this.requests)) {
+            const tableSchema = schema.tables[name];
+            if (!tableSchema) {
+                throw new Error(`Table ${name} does not exist in database ${this.database}`);
+            }
+
+            const allColumns = resolveTableColumns(tableSchema);
+            const names = request.columns ?? Object.keys(tableSchema.columns);
+            const columns = new Map(names.map((column) => {
+                const info = allColumns.get(column);
+                if (!info) {
+                    throw new Error(`Column ${column} does not exist in table ${name}`);
+                }
+                return [column, info] as const;
+            }));
+
+            this.tables.set(name, {
+                columns,
+                rows: new Map(),
+                indexes: (tableSchema.indexes ?? [])
+                    .filter((index) => index.every((column) => columns.has(column)))
+                    .map((index) => ({columns: index, rows: new Map()}))
+            });
+        }
+    }
+
+    private requireTable(table: string): ReplicaTable {
+        const replicaTable = this.tables.get(table);
+        if (!replicaTable) {
+            throw new Error(`Table ${table} is not replicated`);
+        }
+        return replicaTable;
+    }
+
+    private detach(): void {
+        this.client.off("update3", this.handleUpdate);
+        this.client.off("close", this.handleClose);
+        this.client.off("reconnected", this.handleReconnected);
+        this.started = false;
+        this.buffered = null;
+    }
+}
+
+function indexKey(index: ReplicaIndex, row: RowRecord): string {
+    return stringifyJson(index.columns.map((column) => row[column]) as JsonValue);
+}
+
+function addToIndexes(table: ReplicaTable, uuid: string, row: RowRecord): void {
+    table.indexes.forEach((index) => index.rows.set(indexKey(index, row), uuid));
+}
+
+function removeFromIndexes(table: ReplicaTable, uuid: string, row: RowRecord): void {
+    for (const index of table.indexes) {
+        const key = indexKey(index, row);
+        if (index.rows.get(key) === uuid) {
+            index.rows.delete(key);
+        }
+    }
+}
@@ -0,0 +1,312 @@
+import {OvsdbConditionBuilder} from "./query";
+import type {OVSDBClient, OvsdbRequestOptions} from "./index";
+import type {QueryRow} from "./query";
+import type {
+    ConditionForTable,
+    DatabaseOperation,
+    DatabaseSchema,
+    DatabaseTableMap,
+    OperationResult,
+    OvsMap,
+    OvsSet,
+    RowRecord,
+    TableName,
+    TableRow,
+    Uuid
+} from "./types";
+
+/**
+ * Columns of a table whose values are OVSDB sets.
+ */
+export type SetColumnName<
+    TDatabase extends DatabaseTableMap,
+    TTable extends TableName<TDatabase>
+> = string extends keyof TableRow<TDatabase, TTable>
+    ? string
+    : {
+        [TColumn in Extract<keyof TableRow<TDatabase, TTable>, string>]:
+            Exclude<TableRow<TDatabase, TTable>[TColumn], undefined> extends OvsSet ? TColumn : never
+    }[Extract<keyof TableRow<TDatabase, TTable>, string>];
+
+/**
+ * Columns of a table whose values are OVSDB maps.
+ */
+export type MapColumnName<
+    TDatabase extends DatabaseTableMap,
+    TTable extends TableName<TDatabase>
+> = string extends keyof TableRow<TDatabase, TTable>
+    ? string
+    : {
+        [TColumn in Extract<keyof TableRow<TDatabase, TTable>, string>]:
+            Exclude<TableRow<TDatabase, TTable>[TColumn], undefined> extends OvsMap ? TColumn : never
+    }[Extract<keyof TableRow<TDatabase, TTable>, string>];
+
+/**
+ * Element type of a set column.
+ */
+export type SetElement<TValue> = TValue extends OvsSet<infer TElement> ? TElement : unknown;
+
+/**
+ * Key and value types of a map column.
+ */
+export type MapEntry<TValue> = TValue extends OvsMap<infer TKey, infer TItem> ? [TKey, TItem] : [unknown, unknown];
+
+/**
+ * Changes applied to a set column by {@link OvsdbTableRepository.mutateSet}.
+ */
+export interface SetMutation<TElement> {
+    /**
+     * Elements to add. Elements already present are ignored.
+     */
+    insert?: TElement[];
+
+    /**
+     * Elements to remove. Missing elements are ignored.
+     */
+    delete?: TElement[];
+}
+
+/**
+ * Changes applied to a map column by {@link OvsdbTableRepository.mutateMap}.
+ */
+export interface MapMutation<TKey, TValue> {
+    /**
+     * Pairs to add or overwrite.
+     */
+    set?: Array<[TKey, TValue]>;
+
+    /**
+     * Keys to remove. Missing keys are ignored.
+     */
+    delete?: TKey[];
+}
+
+/**
+ * Typed access to the rows of one table, returned by `OVSDBClient.table()`.
+ *
+ * Every method sends exactly one `transact` request. A failed operation
+ * rejects with an `OvsdbTransactionError`.
+ */
+export class OvsdbTableRepository<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TTable extends TableName<TDatabase> = TableName<TDatabase>
+> {
+    /**
+     * Database the table belongs to.
+     */
+    public readonly database: string;
+
+    /**
+     * Table name.
+     */
+    public readonly table: TTable;
+
+    private readonly client: OVSDBClient<TDatabase>;
+    private readonly loadSchema: (options?: OvsdbRequestOptions) => Promise<DatabaseSchema>;
+
+    /**
+     * Creates a repository. Use `OVSDBClient.table()` instead of calling this
+     * directly.
+     *
+     * @param loadSchema Returns the database schema, used for index lookups.
+     */
+    constructor(
+        client: OVSDBClient<TDatabase>,
+        database: string,
+        table: TTable,
+        loadSchema: (options?: OvsdbRequestOptions) => Promise<DatabaseSchema>
+    ) {
+        this.client = client;
+        this.database = database;
+        this.table = table;
+        this.loadSchema = loadSchema;
+    }
+
+    /**
+     * Finds the row identified by `key`, or `null` when there is none.
+     *
+     * The columns of `key` must be exactly `_uuid` or one of the `indexes`
+     * declared for the table in the schema, so at most one row can match.
+     *
+     * @throws Error When `key` does not name an index of the table.
+     */
+    public async findOne(
+        key: Partial<QueryRow<TDatabase, TTable>>,
+        options?: OvsdbRequestOptions
+    ): Promise<QueryRow<TDatabase, TTable> | null> {
+        const columns = Object.keys(key).sort();
+        const schema = await this.loadSchema(options);
+        const indexes = [["_uuid"], ...(schema.tables[this.table]?.indexes ?? [])];
+        if (!indexes.some((index) => sameColumns(index, columns))) {
+            throw new Error(`Columns ${columns.join(", ") || "(none)"} do not form an index of table ${this.table}`);
+        }
+
+        const where = Object.entries(key).map(([column, value]) => [column, "==", value]);
+        const rows = await this.select(where as Array<ConditionForTable<TDatabase, TTable>>, options);
+        return rows[0] ?? null;
+    }
+
+    /**
+     * Returns every row matching the conditions added by `build`, or every row
+     * of the table without it.
+     */
+    public async findAll(
+        build?: (conditions: OvsdbConditionBuilder<TDatabase, TTable>) => unknown,
+        options?: OvsdbRequestOptions
+    ): Promise<Array<QueryRow<TDatabase, TTable>>> {
+        const conditions = new OvsdbConditionBuilder<TDatabase, TTable>();
+        build?.(conditions);
+        return await this.select([...conditions.conditions], options);
+    }
+
+    /**
+     * Returns the row with the given UUID, or `null` when there is none.
+     */
+    public async getByUuid(uuid: Uuid | string, options?: OvsdbRequestOptions): Promise<QueryRow<TDatabase, TTable> | null> {
+        const rows = await this.select([byUuid(uuid)], options);
+        return rows[0] ?? null;
+    }
+
+    /**
+     * Inserts a row and returns its UUID in wire form, also when the client
+     * uses `decodeValues`.
+     */
+    public async insert(row: Partial<TableRow<TDatabase, TTable>> & RowRecord, options?: OvsdbRequestOptions): Promise<Uuid> {
+        const operation: DatabaseOperation<TDatabase> = {op: "insert", table: this.table, row};
+        const result = await this.run(operation, options);
+        if (!("uuid" in result)) {
+            throw unexpectedResult(operation);
+        }
+        // With `decodeValues` the client hands out the UUID as a bare string.
+        const uuid: Uuid | string = result.uuid;
+        return typeof uuid === "string" ? ["uuid", uuid] : uuid;
+    }
+
+    /**
+     * Writes the given columns of the row with the given UUID.
+     *
+     * @returns Number of rows updated: `1`, or `0` when the row does not exist.
+     */
+    public async patch(
+        uuid: Uuid | string,
+        row: Partial<TableRow<TDatabase, TTable>> & RowRecord,
+        options?: OvsdbRequestOptions
+    ): Promise<number> {
+        return await this.count({op: "update", table: this.table, where: [byUuid(uuid)], row}, options);
+    }
+
+    /**
+     * Deletes the row with the given UUID.
+     *
+     * @returns Number of rows deleted: `1`, or `0` when the row does not exist.
+     */
+    public async remove(uuid: Uuid | string, options?: OvsdbRequestOptions): Promise<number> {
+        return await this.count({op: "delete", table: this.table, where: [byUuid(uuid)]}, options);
+    }
+
+    /**
+     * Adds and removes elements of a set column in place, without reading
+     * the row first. Removals are applied before insertions.
+     *
+     * @returns Number of rows mutated: `1`, or `0` when the row does not exist.
+     */
+    public async mutateSet<TColumn extends SetColumnName<TDatabase, TTable>>(
+        uuid: Uuid | string,
+        column: TColumn,
+        mutation: SetMutation<SetElement<Exclude<TableRow<TDatabase, TTable>[TColumn], undefined>>>,
+        options?: OvsdbRequestOptions
+    ): Promise<number> {
+        const mutations: Array<[string, "insert" | "delete", unknown]> = [];
+        if (mutation.delete?.length) {
+            mutations.push([column, "delete", ["set", mutation.delete]]);
+        }
+        if (mutation.insert?.length) {
+            mutations.push([column, "insert", ["set", mutation.insert]]);
+        }
+        return await this.mutate(uuid, mutations, options);
+    }
+
+    /**
+     * Sets and removes keys of a map column in place, without reading the row
+     * first. Keys being set are removed first so their values are replaced.
+     *
+     * @returns Number of rows mutated: `1`, or `0` when the row does not exist.
+     */
+    public async mutateMap<TColumn extends MapColumnName<TDatabase, TTable>>(
+        uuid: Uuid | string,
+        column: TColumn,
+        mutation: MapMutation<
+            MapEntry<Exclude<TableRow<TDatabase, TTable>[TColumn], undefined>>[0],
+            MapEntry<Exclude<TableRow<TDatabase, TTable>[TColumn], undefined>>[1]
+        >,
+        options?: OvsdbRequestOptions
+    ): Promise<number> {
+        const pairs = mutation.set ?? [];
+        const removed = [...(mutation.delete ?? []), ...pairs.map(([key]) => key)];
+        const mutations: Array<[string, "insert" | "delete", unknown]> = [];
+        if (removed.length > 0) {
+            mutations.push([column, "delete", ["set", removed]]);
+        }
+        if (pairs.length > 0) {
+            mutations.push([column, "insert", ["map", pairs]]);
+        }
+        return await this.mutate(uuid, mutations, options);
+    }
+
+    private async mutate(
+        uuid: Uuid | string,
+        mutations: Array<[string, "insert" | "delete", unknown]>,
+        options?: OvsdbRequestOptions
+    ): Promise<number> {
+        return await this.count({
+            op: "mutate",
+            table: this.table,
+            where: [byUuid(uuid)],
+            mutations
+        } as DatabaseOperation<TDatabase>, options);
+    }
+
+    private async select(
+        where: Array<ConditionForTable<TDatabase, TTable>>,
+        options?: OvsdbRequestOptions
+    ): Promise<Array<QueryRow<TDatabase, TTable>>> {
+        const operation: DatabaseOperation<TDatabase> = {op: "select", table: this.table, where};
+        const result = await this.run(operation, options);
+        if (!("rows" in result)) {
+            throw unexpectedResult(operation);
+        }
+        // Without `columns` the server returns every column of the table.
+        return result.rows as Array<QueryRow<TDatabase, TTable>>;
+    }
+
+    private async count(operation: DatabaseOperation<TDatabase>, options?: OvsdbRequestOptions): Promise<number> {
+        const result = await this.run(operation, options);
+        if (!("count" in result)) {
+            throw unexpectedResult(operation);
+        }
+        return result.count;
+    }
+
+    private async run(
+        operation: DatabaseOperation<TDatabase>,
+        options?: OvsdbRequestOptions
+    ): Promise<OperationResult<TDatabase, DatabaseOperation<TDatabase>>> {
+        const {results: [result]} = await this.client.transaction(this.database, (transaction) => {
+            transaction.add(operation);
+        }, {...options, autoCommit: false});
+        return result;
+    }
+}
+
+function unexpectedResult(operation: DatabaseOperation): Error {
+    return new Error(`Unexpected result for ${operation.op} operation`);
+}
+
+function byUuid<TCondition>(uuid: Uuid | string): TCondition {
+    return ["_uuid", "==", typeof uuid === "string" ? ["uuid", uuid] : uuid] as TCondition;
+}
+
+function sameColumns(index: readonly string[], sortedColumns: readonly string[]): boolean {
+    const sortedIndex = [...index].sort();
+    return sortedIndex.length === sortedColumns.length && sortedIndex.every((column, position) => column === sortedColumns[position]);
+}
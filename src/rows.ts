@@ -0,0 +1,118 @@
+import {applyResolvedDiff} from "./diff";
+import {stringifyJson} from "./json";
+import {compareAtoms, datumEquals, defaultDatum, parseDatum} from "./schema";
+import type {Atom, ColumnInfo, ColumnTypeInfo, Datum} from "./schema";
+import type {JsonValue, OvsdbValue, RowRecord, RowUpdate2} from "./types";
+
+/**
+ * Change of one column between two versions of a row, as computed by
+ * {@link diffColumn}.
+ */
+export type ColumnChange =
+    | {kind: "scalar"; old: OvsdbValue; new: OvsdbValue}
+    | {kind: "set"; old: OvsdbValue; new: OvsdbValue; added: Atom[]; removed: Atom[]}
+    | {kind: "map"; old: OvsdbValue; new: OvsdbValue; added: Array<[Atom, Atom]>; removed: Array<[Atom, Atom]>; changed: Array<[Atom, Atom, Atom]>};
+
+/**
+ * Builds a row in normalized wire format from the columns of an `initial`,
+ * `insert`, or `new` entry: every column in `columns` is present, missing
+ * ones hold their default, sets are always `["set", [...]]`, and `_uuid` is
+ * filled in.
+ */
+export function normalizeRow(columns: Map<string, ColumnInfo>, uuid: string, row: RowRecord): RowRecord {
+    const normalized: RowRecord = {_uuid: ["uuid", uuid]};
+    for (const [name, {type}] of columns) {
+        normalized[name] = normalizeDatum(name in row ? parseDatum(row[name] as OvsdbValue, type) : defaultDatum(type), type);
+    }
+    return normalized;
+}
+
+/**
+ * Applies an update2 row update to the normalized `previous` row.
+ *
+ * @returns The new normalized row, or `null` when the row was deleted.
+ */
+export function applyRowUpdate(
+    columns: Map<string, ColumnInfo>,
+    uuid: string,
+    previous: RowRecord | undefined,
+    update: RowUpdate2
+): RowRecord | null {
+    const inserted = update.initial ?? update.insert;
+    if (inserted) {
+        return normalizeRow(columns, uuid, inserted as RowRecord);
+    }
+
+    if (update.modify && previous) {
+        const row: RowRecord = {...previous};
+        for (const [name, diff] of Object.entries(update.modify)) {
+            const info = columns.get(name);
+            if (info) {
+                row[name] = normalizeDatum(parseDatum(applyResolvedDiff(info.type, previous[name], diff as OvsdbValue), info.type), info.type);
+            }
+        }
+        return row;
+    }
+
+    return "delete" in update ? null : previous ?? null;
+}
+
+/**
+ * Serializes a datum in normalized wire format: maps as `["map", [...]]`,
+ * scalar columns as bare atoms, and every other column as `["set", [...]]`.
+ */
+export function normalizeDatum(datum: Datum, type: ColumnTypeInfo): OvsdbValue {
+    if (datum.values) {
+        const values = datum.values;
+        return ["map", datum.keys.map((key, index) => [key, values[index]])] as OvsdbValue;
+    }
+    if (type.min === 1 && type.max === 1) {
+        return datum.keys[0] as OvsdbValue;
+    }
+    return ["set", datum.keys] as OvsdbValue;
+}
+
+/**
+ * Compares one column of two normalized rows.
+ *
+ * @returns The change, or `null` when both values are equal.
+ */
+export function diffColumn(oldValue: OvsdbValue, newValue: OvsdbValue, type: ColumnTypeInfo): ColumnChange | null {
+    const before = parseDatum(oldValue, type);
+    const after = parseDatum(newValue, type);
+    if (datumEquals(before, after)) {
+        return null;
+    }
+
+    if (!type.value && type.min === 1 && type.max === 1) {
+        return {kind: "scalar", old: oldValue, new: newValue};
+    }
+
+    const lookup = (datum: Datum): Map<string, [Atom, Atom | null]> => new Map(datum.keys.map((key, index) =>
+        [stringifyJson(key as JsonValue), [key, datum.values?.[index] ?? null]]
+    ));
+    const beforeEntries = lookup(before);
+    const afterEntries = lookup(after);
+    const added = [...afterEntries].filter(([id]) => !beforeEntries.has(id)).map(([, entry]) => entry);
+    const removed = [...beforeEntries].filter(([id]) => !afterEntries.has(id)).map(([, entry]) => entry);
+
+    if (!type.value) {
+        return {kind: "set", old: oldValue, new: newValue, added: added.map(([key]) => key), removed: removed.map(([key]) => key)};
+    }
+
+    const changed: Array<[Atom, Atom, Atom]> = [];
+    for (const [id, [key, value]] of afterEntries) {
+        const previous = beforeEntries.get(id);
+        if (previous && compareAtoms(previous[1] as Atom, value as Atom) !== 0) {
+            changed.push([key, previous[1] as Atom, value as Atom]);
+        }
+    }
+    return {
+        kind: "map",
+        old: oldValue,
+        new: newValue,
+        added: added as Array<[Atom, Atom]>,
+        removed: removed as Array<[Atom, Atom]>,
+        changed
+    };
+}
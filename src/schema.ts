@@ -0,0 +1,396 @@
+import {OvsdbRpcError} from "./index";
+import {stringifyJson} from "./json";
+import type {AtomicType, BaseType, JsonValue, OvsdbValue, TableSchema, Type, Uuid} from "./types";
+
+/**
+ * A single OVSDB atom in its JSON representation.
+ */
+export type Atom = string | number | bigint | boolean | Uuid;
+
+/**
+ * A parsed OVSDB datum: sorted, duplicate-free keys and, for maps, the values
+ * that belong to them.
+ */
+export interface Datum {
+    keys: Atom[];
+    values: Atom[] | null;
+}
+
+/**
+ * Resolved base type with every optional constraint made explicit.
+ */
+export interface BaseTypeInfo {
+    type: AtomicType;
+    enum: Atom[] | null;
+    minInteger: number;
+    maxInteger: number;
+    minReal: number;
+    maxReal: number;
+    minLength: number;
+    maxLength: number;
+    refTable: string | null;
+    refType: "strong" | "weak";
+}
+
+/**
+ * Resolved column type.
+ */
+export interface ColumnTypeInfo {
+    key: BaseTypeInfo;
+    value: BaseTypeInfo | null;
+    min: number;
+    max: number;
+}
+
+/**
+ * Resolved column metadata.
+ */
+export interface ColumnInfo {
+    name: string;
+    type: ColumnTypeInfo;
+    mutable: boolean;
+    ephemeral: boolean;
+}
+
+/**
+ * Maps the name of a `named-uuid` atom to the UUID it stands for.
+ */
+export type NamedUuidResolver = (name: string) => string;
+
+/**
+ * UUID used by Open vSwitch for "no row" and "no transaction".
+ */
+export const ZERO_UUID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * Canonical lowercase UUID string.
+ */
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/u;
+
+const UUID_COLUMN_TYPE: ColumnTypeInfo = {
+    key: resolveBaseType("uuid"),
+    value: null,
+    min: 1,
+    max: 1
+};
+
+/**
+ * Resolves the columns of a table schema, including the implicit `_uuid` and
+ * `_version` columns.
+ */
+export function resolveTableColumns(table: TableSchema): Map<string, ColumnInfo> {
+    const columns = new Map<string, ColumnInfo>([
+        ["_uuid", {name: "_uuid", type: UUID_COLUMN_TYPE, mutable: false, ephemeral: false}],
+        ["_version", {name: "_version", type: UUID_COLUMN_TYPE, mutable: false, ephemeral: false}]
+    ]);
+
+    for (const [name, column] of Object.entries(table.columns)) {
+        columns.set(name, {
+            name,
+            type: resolveColumnType(column.type),
+            mutable: column.mutable ?? true,
+            ephemeral: column.ephemeral ?? false
+        });
+    }
+
+    return columns;
+}
+
+/**
+ * Resolves a column type, filling in the RFC 7047 defaults.
+ */
+export function resolveColumnType(type: Type): ColumnTypeInfo {
+    if (typeof type === "string") {
+        return {key: resolveBaseType(type), value: null, min: 1, max: 1};
+    }
+
+    return {
+        key: resolveBaseType(type.key),
+        value: type.value === undefined ? null : resolveBaseType(type.value),
+        min: type.min ?? 1,
+        max: type.max === "unlimited" ? Number.POSITIVE_INFINITY : type.max ?? 1
+    };
+}
+
+/**
+ * Resolves a base type, filling in the RFC 7047 defaults.
+ */
+export function resolveBaseType(base: BaseType): BaseTypeInfo {
+    const info: BaseTypeInfo = {
+        type: typeof base === "string" ? base : base.type,
+        enum: null,
+        minInteger: Number.NEGATIVE_INFINITY,
+        maxInteger: Number.POSITIVE_INFINITY,
+        minReal: Number.NEGATIVE_INFINITY,
+        maxReal: Number.POSITIVE_INFINITY,
+        minLength: 0,
+        maxLength: Number.POSITIVE_INFINITY,
+        refTable: null,
+        refType: "strong"
+    };
+
+    if (typeof base === "string") {
+        return info;
+    }
+
+    info.minInteger = base.minInteger ?? info.minInteger;
+    info.maxInteger = base.maxInteger ?? info.maxInteger;
+    info.minReal = base.minReal ?? info.minReal;
+    info.maxReal = base.maxReal ?? info.maxReal;
+    info.minLength = base.minLength ?? info.minLength;
+    info.maxLength = base.maxLength ?? info.maxLength;
+    info.refTable = base.refTable ?? null;
+    info.refType = base.refType ?? "strong";
+
+    if (base.enum !== undefined) {
+        const plain = {...info, enum: null};
+        info.enum = parseDatum(base.enum, {key: plain, value: null, min: 0, max: Number.POSITIVE_INFINITY}).keys;
+    }
+
+    return info;
+}
+
+/**
+ * Parses a JSON atom of the given base type.
+ *
+ * @param resolveNamedUuid Resolves `named-uuid` references. When omitted,
+ * `named-uuid` atoms are rejected.
+ */
+export function parseAtom(json: JsonValue | OvsdbValue, base: BaseTypeInfo, resolveNamedUuid?: NamedUuidResolver): Atom {
+    switch (base.type) {
+        case "integer":
+            if ((typeof json === "number" && Number.isInteger(json)) || typeof json === "bigint") {
+                return json;
+            }
+            break;
+        case "real":
+            if (typeof json === "number") {
+                return json;
+            }
+            break;
+        case "boolean":
+            if (typeof json === "boolean") {
+                return json;
+            }
+            break;
+        case "string":
+            if (typeof json === "string") {
+                return json;
+            }
+            break;
+        case "uuid":
+            if (Array.isArray(json) && json.length === 2 && typeof json[1] === "string") {
+                if (json[0] === "uuid" && UUID_PATTERN.test(json[1])) {
+                    return ["uuid", json[1]];
+                }
+                if (json[0] === "named-uuid" && resolveNamedUuid) {
+                    return ["uuid", resolveNamedUuid(json[1])];
+                }
+            }
+            break;
+    }
+
+    throw new OvsdbRpcError({error: "syntax error", details: `${stringifyJson(json)} is not a valid ${base.type}`});
+}
+
+/**
+ * Parses a JSON datum of the given column type.
+ *
+ * Cardinality and base type constraints are not checked; use
+ * {@link checkDatum} for that.
+ */
+export function parseDatum(json: JsonValue | OvsdbValue, type: ColumnTypeInfo, resolveNamedUuid?: NamedUuidResolver): Datum {
+    if (type.value) {
+        if (!Array.isArray(json) || json[0] !== "map" || !Array.isArray(json[1])) {
+            throw new OvsdbRpcError({error: "syntax error", details: `${stringifyJson(json)} is not a valid map`});
+        }
+
+        const pairs = (json[1] as JsonValue[]).map((pair): [Atom, Atom] => {
+            if (!Array.isArray(pair) || pair.length !== 2) {
+                throw new OvsdbRpcError({error: "syntax error", details: `${stringifyJson(pair)} is not a valid map pair`});
+            }
+            return [
+                parseAtom(pair[0], type.key, resolveNamedUuid),
+                parseAtom(pair[1], type.value as BaseTypeInfo, resolveNamedUuid)
+            ];
+        });
+        return createDatum(pairs.map(([key]) => key), pairs.map(([, value]) => value));
+    }
+
+    if (Array.isArray(json) && json[0] === "set") {
+        if (!Array.isArray(json[1])) {
+            throw new OvsdbRpcError({error: "syntax error", details: `${stringifyJson(json)} is not a valid set`});
+        }
+        return createDatum((json[1] as JsonValue[]).map((atom) => parseAtom(atom, type.key, resolveNamedUuid)), null);
+    }
+
+    return {keys: [parseAtom(json, type.key, resolveNamedUuid)], values: null};
+}
+
+/**
+ * Builds a datum from unsorted keys and values.
+ *
+ * @throws OvsdbRpcError When the keys contain duplicates.
+ */
+export function createDatum(keys: Atom[], values: Atom[] | null): Datum {
+    const order = keys.map((_, index) => index).sort((left, right) => compareAtoms(keys[left], keys[right]));
+    const datum: Datum = {
+        keys: order.map((index) => keys[index]),
+        values: values ? order.map((index) => values[index]) : null
+    };
+
+    for (let index = 1; index < datum.keys.length; index += 1) {
+        if (compareAtoms(datum.keys[index - 1], datum.keys[index]) === 0) {
+            throw new OvsdbRpcError({
+                error: "constraint violation",
+                details: `${datum.values ? "map" : "set"} contains duplicate ${stringifyJson(datum.keys[index])}`
+            });
+        }
+    }
+
+    return datum;
+}
+
+/**
+ * Checks a datum against the cardinality and base type constraints of its
+ * column type.
+ *
+ * @throws OvsdbRpcError With a `constraint violation` describing the problem.
+ */
+export function checkDatum(datum: Datum, type: ColumnTypeInfo, column: string): void {
+    if (datum.keys.length < type.min || datum.keys.length > type.max) {
+        const max = type.max === Number.POSITIVE_INFINITY ? "unlimited" : type.max;
+        throw new OvsdbRpcError({
+            error: "constraint violation",
+            details: `${column} must have between ${type.min} and ${max} elements, not ${datum.keys.length}`
+        });
+    }
+
+    for (const atom of datum.keys) {
+        checkAtom(atom, type.key, column);
+    }
+    for (const atom of datum.values ?? []) {
+        checkAtom(atom, type.value as BaseTypeInfo, column);
+    }
+}
+
+/**
+ * Checks an atom against the constraints of its base type.
+ *
+ * @throws OvsdbRpcError With a `constraint violation` describing the problem.
+ */
+export function checkAtom(atom: Atom, base: BaseTypeInfo, column: string): void {
+    const fail = (reason: string): never => {
+        throw new OvsdbRpcError({
+            error: "constraint violation",
+            details: `${stringifyJson(atom)} ${reason} for column ${column}`
+        });
+    };
+
+    if (base.enum && !base.enum.some((candidate) => compareAtoms(candidate, atom) === 0)) {
+        fail("is not one of the allowed values");
+    }
+
+    if (base.type === "integer" && ((atom as number) < base.minInteger || (atom as number) > base.maxInteger)) {
+        fail(`is outside the range ${base.minInteger} to ${base.maxInteger}`);
+    }
+
+    if (base.type === "real" && ((atom as number) < base.minReal || (atom as number) > base.maxReal)) {
+        fail(`is outside the range ${base.minReal} to ${base.maxReal}`);
+    }
+
+    if (base.type === "string") {
+        const length = [...(atom as string)].length;
+        if (length < base.minLength || length > base.maxLength) {
+            fail(`must be between ${base.minLength} and ${base.maxLength} characters long`);
+        }
+    }
+}
+
+/**
+ * Returns the default datum of a column type: empty for optional columns and
+ * the zero value of the key (and value) type otherwise.
+ */
+export function defaultDatum(type: ColumnTypeInfo): Datum {
+    if (type.min === 0) {
+        return {keys: [], values: type.value ? [] : null};
+    }
+
+    return {
+        keys: [defaultAtom(type.key)],
+        values: type.value ? [defaultAtom(type.value)] : null
+    };
+}
+
+/**
+ * Serializes a datum to its JSON representation.
+ *
+ * Single-element sets are sent as bare atoms, like `ovsdb-server` does.
+ */
+export function datumToJson(datum: Datum): OvsdbValue {
+    if (datum.values) {
+        return ["map", datum.keys.map((key, index) => [key, (datum.values as Atom[])[index]])];
+    }
+
+    return datum.keys.length === 1 ? datum.keys[0] : ["set", datum.keys];
+}
+
+/**
+ * Orders two atoms of the same type.
+ */
+export function compareAtoms(left: Atom, right: Atom): number {
+    const leftValue = Array.isArray(left) ? left[1] : left;
+    const rightValue = Array.isArray(right) ? right[1] : right;
+    return leftValue < rightValue ? -1 : leftValue > rightValue ? 1 : 0;
+}
+
+/**
+ * Returns whether two datums hold the same keys and values.
+ */
+export function datumEquals(left: Datum, right: Datum): boolean {
+    if (left.keys.length !== right.keys.length) {
+        return false;
+    }
+
+    return left.keys.every((key, index) =>
+        compareAtoms(key, right.keys[index]) === 0 &&
+        (!left.values || compareAtoms(left.values[index], (right.values as Atom[])[index]) === 0)
+    );
+}
+
+/**
+ * Returns the index of a key in a datum, or `-1` when it is absent.
+ */
+export function findKey(datum: Datum, key: Atom): number {
+    let low = 0;
+    let high = datum.keys.length - 1;
+
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        const order = compareAtoms(datum.keys[middle], key);
+        if (order === 0) {
+            return middle;
+        }
+        if (order < 0) {
+            low = middle + 1;
+        } else {
+            high = middle - 1;
+        }
+    }
+
+    return -1;
+}
+
+function defaultAtom(base: BaseTypeInfo): Atom {
+    switch (base.type) {
+        case "integer":
+        case "real":
+            return 0;
+        case "boolean":
+            return false;
+        case "string":
+            return "";
+        case "uuid":
+            return ["uuid", ZERO_UUID];
+    }
+}
@@ -0,0 +1,570 @@
+import {EventEmitter} from "node:events";
+import {createServer as createNetServer, type AddressInfo, type Server} from "node:net";
+import {createServer as createTlsServer, type TlsOptions} from "node:tls";
+
+import {JsonFrameDecoder} from "./framing";
+import {OvsdbRpcError} from "./index";
+import type {OvsdbMonitorMethod, OvsdbStream} from "./index";
+import {parsePassiveRemote, type OvsdbPassiveRemote} from "./listener";
+import type {
+    DatabaseOperation,
+    DatabaseSchema,
+    JsonObject,
+    JsonValue,
+    LockedNotification,
+    MonitorCondRequest,
+    OvsdbRequest,
+    StolenNotification,
+    TableUpdates,
+    TableUpdates2,
+    Update2Notification,
+    Update3Notification,
+    UpdateNotification
+} from "./types";
+
+/**
+ * Per-transaction context handed to an {@link OvsdbStorageBackend}.
+ */
+export interface OvsdbStorageContext {
+    /**
+     * Returns whether the submitting connection owns a lock, for `assert` operations.
+     */
+    hasLock: (lockId: string) => boolean;
+
+    /**
+     * Aborted when the client cancels the request or disconnects.
+     */
+    signal: AbortSignal;
+}
+
+/**
+ * A monitor request handed to an {@link OvsdbStorageBackend}.
+ */
+export interface OvsdbStorageMonitorRequest {
+    method: OvsdbMonitorMethod;
+    requests: Record<string, MonitorCondRequest | MonitorCondRequest[]>;
+
+    /**
+     * Transaction id to resume from. Always `null` except for `monitor_cond_since`.
+     */
+    lastTransactionId: string | null;
+}
+
+/**
+ * Receives the table updates of a monitor. `transactionId` is the id of the
+ * transaction that produced them.
+ */
+export type OvsdbStorageUpdateListener = (updates: TableUpdates | TableUpdates2, transactionId: string) => void;
+
+/**
+ * A monitor registered with an {@link OvsdbStorageBackend}.
+ */
+export interface OvsdbStorageMonitor {
+    /**
+     * Result returned to the client: the initial table updates, or the
+     * `[found, lastTransactionId, updates]` tuple for `monitor_cond_since`.
+     */
+    result: JsonValue;
+
+    /**
+     * Stops delivering updates.
+     */
+    cancel(): void;
+}
+
+/**
+ * Storage behind an {@link OvsdbServer}.
+ *
+ * The server owns the connections, JSON-RPC framing, locks, and `echo`; the
+ * backend owns the data. Throw an `OvsdbRpcError` to answer a request with a
+ * specific OVSDB error, such as `unknown database`.
+ */
+export interface OvsdbStorageBackend {
+    /**
+     * Returns the names of the served databases.
+     */
+    listDatabases(): string[] | Promise<string[]>;
+
+    /**
+     * Returns the schema of a database, or `null` when it is not served.
+     */
+    getSchema(database: string): DatabaseSchema | null | Promise<DatabaseSchema | null>;
+
+    /**
+     * Executes a transaction and returns its results array.
+     */
+    transact(database: string, operations: DatabaseOperation[], context: OvsdbStorageContext): Promise<JsonValue[]>;
+
+    /**
+     * Registers a monitor. `listener` is invoked for every later transaction
+     * that changes monitored data, until the monitor is canceled.
+     */
+    monitor(
+        database: string,
+        request: OvsdbStorageMonitorRequest,
+        listener: OvsdbStorageUpdateListener
+    ): OvsdbStorageMonitor | Promise<OvsdbStorageMonitor>;
+}
+
+/**
+ * Typed events emitted by {@link OvsdbServer}.
+ */
+export interface OvsdbServerEvents {
+    listening: [];
+    connection: [OvsdbStream];
+    error: [Error];
+    close: [];
+}
+
+/**
+ * Options for configuring an {@link OvsdbServer}.
+ */
+export interface OvsdbServerOptions {
+    /**
+     * Storage that serves the databases.
+     */
+    storage: OvsdbStorageBackend;
+
+    /**
+     * Passive remote in Open vSwitch syntax: `ptcp:<port>[:<ip>]`,
+     * `pssl:<port>[:<ip>]`, or `punix:<path>`.
+     *
+     * @defaultValue `"ptcp:6640"`
+     */
+    remote?: string;
+
+    /**
+     * TLS server options forwarded to `node:tls`. Required for `pssl:` remotes.
+     */
+    tlsOptions?: TlsOptions;
+}
+
+/**
+ * An OVSDB JSON-RPC server that exposes an {@link OvsdbStorageBackend} to
+ * OVSDB clients such as `ovsdb-client`, `ovs-vsctl`, or {@link OVSDBClient}.
+ *
+ * The server handles `list_dbs`, `get_schema`, `transact`, `cancel`,
+ * `monitor`, `monitor_cond`, `monitor_cond_since`, `monitor_cancel`, `lock`,
+ * `steal`, `unlock`, `echo`, and `set_db_change_aware`.
+ */
+export class OvsdbServer extends EventEmitter<OvsdbServerEvents> implements AsyncDisposable {
+    /**
+     * Storage that serves the databases.
+     */
+    public readonly storage: OvsdbStorageBackend;
+
+    private readonly passiveRemote: OvsdbPassiveRemote;
+    private readonly tlsOptions?: TlsOptions;
+    private readonly sessions = new Set<ServerSession>();
+    private readonly lockTable = new LockTable();
+
+    private server: Server | null = null;
+
+    /**
+     * Creates a new server instance.
+     */
+    constructor(options: OvsdbServerOptions) {
+        super();
+        this.storage = options.storage;
+        this.passiveRemote = parsePassiveRemote(options.remote ?? "ptcp:6640");
+        this.tlsOptions = options.tlsOptions;
+
+        if (this.passiveRemote.transport === "tls" && !this.tlsOptions) {
+            throw new Error("TLS options are required for pssl remotes");
+        }
+    }
+
+    /**
+     * Returns the bound address, or `null` while not listening.
+     */
+    public get address(): AddressInfo | string | null {
+        return this.server?.address() ?? null;
+    }
+
+    /**
+     * Returns the number of open connections.
+     */
+    public get connections(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Starts accepting connections on the configured remote.
+     *
+     * @returns The listening instance for chaining.
+     */
+    public async listen(): Promise<this> {
+        if (this.server) {
+            return this;
+        }
+
+        const server = this.passiveRemote.transport === "tls"
+            ? createTlsServer(this.tlsOptions ?? {})
+            : createNetServer();
+        const connectionEvent = this.passiveRemote.transport === "tls" ? "secureConnection" : "connection";
+
+        server.on(connectionEvent, this.handleConnection);
+        server.on("error", this.handleServerError);
+        this.server = server;
+
+        await new Promise<void>((resolve, reject) => {
+            const onError = (error: Error) => {
+                this.server = null;
+                server.off(connectionEvent, this.handleConnection);
+                server.off("error", this.handleServerError);
+                reject(error);
+            };
+
+            server.once("error", onError);
+            const onListening = () => {
+                server.off("error", onError);
+                resolve();
+            };
+
+            if (this.passiveRemote.transport === "unix") {
+                server.listen(this.passiveRemote.socketPath, onListening);
+            } else {
+                server.listen(this.passiveRemote.port, this.passiveRemote.host, onListening);
+            }
+        });
+
+        this.emit("listening");
+        return this;
+    }
+
+    /**
+     * Serves an already established connection, such as one end of an
+     * in-process stream pair.
+     */
+    public accept(stream: OvsdbStream): void {
+        const session = new ServerSession(this.storage, this.lockTable, stream);
+        this.sessions.add(session);
+        stream.once("close", () => {
+            this.sessions.delete(session);
+            session.dispose();
+        });
+        this.emit("connection", stream);
+    }
+
+    /**
+     * Stops listening and closes every open connection.
+     */
+    public async close(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+
+        await Promise.all([...this.sessions].map(async (session) => await session.close()));
+
+        if (server) {
+            await new Promise<void>((resolve) => {
+                server.close(() => resolve());
+            });
+            this.emit("close");
+        }
+    }
+
+    /**
+     * Implements `AsyncDisposable`.
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.close();
+    }
+
+    private readonly handleConnection = (socket: OvsdbStream): void => {
+        this.accept(socket);
+    };
+
+    private readonly handleServerError = (error: Error): void => {
+        if (this.server) {
+            this.emit("error", error);
+        }
+    };
+}
+
+class LockTable {
+    private readonly waiters = new Map<string, ServerSession[]>();
+
+    public isOwner(session: ServerSession, lockId: string): boolean {
+        return this.waiters.get(lockId)?.[0] === session;
+    }
+
+    public lock(session: ServerSession, lockId: string): boolean {
+        const waiters = this.waiters.get(lockId) ?? [];
+        if (waiters.includes(session)) {
+            throw new OvsdbRpcError({error: "duplicate lock", details: `Lock ${lockId} already requested`});
+        }
+
+        waiters.push(session);
+        this.waiters.set(lockId, waiters);
+        return waiters[0] === session;
+    }
+
+    public steal(session: ServerSession, lockId: string): void {
+        const waiters = this.waiters.get(lockId) ?? [];
+        const previous = waiters[0];
+        const index = waiters.indexOf(session);
+        if (index !== -1) {
+            waiters.splice(index, 1);
+        }
+
+        waiters.unshift(session);
+        this.waiters.set(lockId, waiters);
+        if (previous && previous !== session) {
+            previous.notify({method: "stolen", params: [lockId], id: null});
+        }
+    }
+
+    public unlock(session: ServerSession, lockId: string): boolean {
+        const waiters = this.waiters.get(lockId);
+        const index = waiters?.indexOf(session) ?? -1;
+        if (!waiters || index === -1) {
+            return false;
+        }
+
+        waiters.splice(index, 1);
+        if (waiters.length === 0) {
+            this.waiters.delete(lockId);
+        } else if (index === 0) {
+            waiters[0].notify({method: "locked", params: [lockId], id: null});
+        }
+        return true;
+    }
+}
+
+class ServerSession {
+    private readonly storage: OvsdbStorageBackend;
+    private readonly lockTable: LockTable;
+    private readonly stream: OvsdbStream;
+    private readonly frameDecoder = new JsonFrameDecoder();
+    private readonly monitors = new Map<string, OvsdbStorageMonitor>();
+    private readonly transactions = new Map<string, AbortController>();
+    private readonly locks = new Set<string>();
+
+    constructor(storage: OvsdbStorageBackend, lockTable: LockTable, stream: OvsdbStream) {
+        this.storage = storage;
+        this.lockTable = lockTable;
+        this.stream = stream;
+        stream.on("data", this.handleData);
+        stream.on("error", this.handleError);
+    }
+
+    public notify(notification: UpdateNotification | Update2Notification | Update3Notification | LockedNotification | StolenNotification): void {
+        this.send(notification as unknown as JsonObject);
+    }
+
+    public async close(): Promise<void> {
+        if (this.stream.destroyed) {
+            return;
+        }
+
+        await new Promise<void>((resolve) => {
+            this.stream.once("close", () => resolve());
+            this.stream.destroy();
+        });
+    }
+
+    public dispose(): void {
+        for (const monitor of this.monitors.values()) {
+            monitor.cancel();
+        }
+        this.monitors.clear();
+
+        for (const controller of this.transactions.values()) {
+            controller.abort();
+        }
+        this.transactions.clear();
+
+        for (const lockId of this.locks) {
+            this.lockTable.unlock(this, lockId);
+        }
+        this.locks.clear();
+    }
+
+    private readonly handleData = (chunk: Buffer | string): void => {
+        for (const frame of this.frameDecoder.push(chunk)) {
+            if (frame.type !== "frame") {
+                this.stream.destroy();
+                return;
+            }
+
+            let message: JsonObject;
+            try {
+                message = JSON.parse(frame.text) as JsonObject;
+            } catch {
+                this.stream.destroy();
+                return;
+            }
+
+            // Responses to server-initiated requests carry no method.
+            if (typeof message.method !== "string") {
+                continue;
+            }
+
+            const request = {
+                ...message,
+                params: Array.isArray(message.params) ? message.params : []
+            } as unknown as OvsdbRequest;
+
+            if (request.method === "cancel") {
+                this.transactions.get(JSON.stringify(request.params[0]))?.abort();
+                continue;
+            }
+            if (request.id === null || request.id === undefined) {
+                continue;
+            }
+
+            void this.handleRequest(request);
+        }
+    };
+
+    private readonly handleError = (): void => {
+        this.stream.destroy();
+    };
+
+    private async handleRequest(request: Exclude<OvsdbRequest, {method: "cancel"}>): Promise<void> {
+        try {
+            const result = await this.dispatch(request);
+            this.send({id: request.id, result, error: null});
+        } catch (error) {
+            const response = error instanceof OvsdbRpcError
+                ? error.response as JsonObject
+                : {error: "internal error", details: error instanceof Error ? error.message : String(error)};
+            this.send({id: request.id, result: null, error: response});
+        }
+    }
+
+    private async dispatch(request: Exclude<OvsdbRequest, {method: "cancel"}>): Promise<JsonValue> {
+        switch (request.method) {
+            case "echo":
+                return request.params;
+            case "list_dbs":
+                return await this.storage.listDatabases();
+            case "get_schema": {
+                const schema = await this.storage.getSchema(requireDatabaseName(request.params[0]));
+                if (!schema) {
+                    throw unknownDatabase(request.params[0]);
+                }
+                return schema as unknown as JsonObject;
+            }
+            case "transact":
+                return await this.transact(request.params, request.id);
+            case "monitor":
+            case "monitor_cond":
+            case "monitor_cond_since":
+                return await this.monitor(request);
+            case "monitor_cancel": {
+                const key = JSON.stringify(request.params[0]);
+                const monitor = this.monitors.get(key);
+                if (!monitor) {
+                    throw new OvsdbRpcError({error: "unknown monitor", details: `No monitor with id ${key}`});
+                }
+                monitor.cancel();
+                this.monitors.delete(key);
+                return {};
+            }
+            case "lock":
+            case "steal": {
+                const lockId = requireLockId(request.params[0]);
+                let locked = true;
+                if (request.method === "steal") {
+                    this.lockTable.steal(this, lockId);
+                } else {
+                    locked = this.lockTable.lock(this, lockId);
+                }
+                this.locks.add(lockId);
+                return {locked};
+            }
+            case "unlock": {
+                const lockId = requireLockId(request.params[0]);
+                if (!this.lockTable.unlock(this, lockId)) {
+                    throw new OvsdbRpcError({error: "syntax error", details: `Unlock of lock ${lockId} that is not held`});
+                }
+                this.locks.delete(lockId);
+                return {};
+            }
+            case "set_db_change_aware":
+                return {};
+            default:
+                throw new OvsdbRpcError({
+                    error: "unknown method",
+                    details: `Unknown method ${(request as {method: string}).method}`
+                });
+        }
+    }
+
+    private async transact(params: [string, ...DatabaseOperation[]], id: JsonValue): Promise<JsonValue> {
+        const [database, ...operations] = params;
+        const key = JSON.stringify(id);
+        const controller = new AbortController();
+        this.transactions.set(key, controller);
+
+        try {
+            return await this.storage.transact(requireDatabaseName(database), operations, {
+                hasLock: (lockId) => this.lockTable.isOwner(this, lockId),
+                signal: controller.signal
+            });
+        } finally {
+            this.transactions.delete(key);
+        }
+    }
+
+    private async monitor(request: Extract<OvsdbRequest, {method: OvsdbMonitorMethod}>): Promise<JsonValue> {
+        const [database, monitorId, requests] = request.params;
+        const key = JSON.stringify(monitorId ?? null);
+        if (this.monitors.has(key)) {
+            throw new OvsdbRpcError({error: "duplicate monitor ID", details: `Monitor ${key} already exists`});
+        }
+
+        const lastTransactionId = request.method === "monitor_cond_since" && typeof request.params[3] === "string"
+            ? request.params[3]
+            : null;
+        const monitor = await this.storage.monitor(requireDatabaseName(database), {
+            method: request.method,
+            requests: requests ?? {},
+            lastTransactionId
+        }, (updates, transactionId) => {
+            if (request.method === "monitor") {
+                this.notify({method: "update", params: [monitorId, updates as TableUpdates], id: null});
+            } else if (request.method === "monitor_cond") {
+                this.notify({method: "update2", params: [monitorId, updates as TableUpdates2], id: null});
+            } else {
+                this.notify({method: "update3", params: [monitorId, transactionId, updates as TableUpdates2], id: null});
+            }
+        });
+
+        if (this.stream.destroyed) {
+            monitor.cancel();
+            return monitor.result;
+        }
+        if (this.monitors.has(key)) {
+            monitor.cancel();
+            throw new OvsdbRpcError({error: "duplicate monitor ID", details: `Monitor ${key} already exists`});
+        }
+        this.monitors.set(key, monitor);
+        return monitor.result;
+    }
+
+    private send(payload: JsonObject): void {
+        if (!this.stream.destroyed) {
+            this.stream.write(`${JSON.stringify(payload)}\n`);
+        }
+    }
+}
+
+function requireDatabaseName(value: JsonValue | undefined): string {
+    if (typeof value !== "string") {
+        throw unknownDatabase(value);
+    }
+    return value;
+}
+
+function requireLockId(value: JsonValue | undefined): string {
+    if (typeof value !== "string") {
+        throw new OvsdbRpcError({error: "syntax error", details: "lock id must be a string"});
+    }
+    return value;
+}
+
+function unknownDatabase(name: JsonValue | undefined): OvsdbRpcError {
+    return new OvsdbRpcError({error: "unknown database", details: `${JSON.stringify(name ?? null)} is not a valid database name`});
+}
@@ -0,0 +1,395 @@
+import {stringifyJson} from "./json";
+import type {
+    JsonValue,
+    OvsdbNotification,
+    RowUpdate,
+    RowUpdate2,
+    TableUpdates,
+    TableUpdates2
+} from "./types";
+
+/**
+ * What a stream does with a notification that arrives while its buffer is
+ * full.
+ *
+ * - `dropOldest`: discards the oldest buffered notification and counts it in
+ *   {@link OvsdbNotificationStream.dropped}.
+ * - `error`: fails the stream with an {@link OvsdbStreamOverflowError} once
+ *   the buffered notifications were consumed.
+ * - `coalesce`: merges the notification into the last buffered one of the
+ *   same monitor, so every row appears once with its combined change. For
+ *   `update2` and `update3`, two diffs of the same column cannot be combined
+ *   without the row they apply to; the stream then fails as with `error`.
+ *   Notifications carrying `decoded` table updates (see `decodeValues`) are
+ *   never merged and fail the stream the same way.
+ */
+export type OvsdbOverflowPolicy = "dropOldest" | "error" | "coalesce";
+
+/**
+ * Buffering settings of an {@link OvsdbNotificationStream}.
+ */
+export interface OvsdbStreamOptions {
+    /**
+     * Maximum number of notifications held for a consumer that falls behind.
+     *
+     * @defaultValue `1000`
+     */
+    bufferSize?: number;
+
+    /**
+     * What to do when a notification arrives while the buffer is full.
+     *
+     * @defaultValue `"error"`
+     */
+    overflow?: OvsdbOverflowPolicy;
+
+    /**
+     * Ends the stream when aborted. Buffered notifications are discarded.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Notification method names.
+ */
+export type OvsdbNotificationMethod = OvsdbNotification["method"];
+
+/**
+ * Settings for {@link OVSDBClient.notifications}.
+ */
+export interface OvsdbNotificationStreamOptions<
+    TMethod extends OvsdbNotificationMethod = OvsdbNotificationMethod
+> extends OvsdbStreamOptions {
+    /**
+     * Only yield notifications with one of these methods.
+     */
+    method?: TMethod | readonly TMethod[];
+
+    /**
+     * Only yield `update`, `update2`, and `update3` notifications of this
+     * monitor.
+     */
+    monitorId?: JsonValue;
+}
+
+/**
+ * Receives the notifications of an {@link OvsdbNotificationStream} from its
+ * source.
+ */
+export interface OvsdbStreamSink<T> {
+    push(value: T): void;
+    end(): void;
+    fail(error: Error): void;
+}
+
+/**
+ * A stream overflowed its buffer under the `error` policy, or under
+ * `coalesce` with a notification it could not merge.
+ */
+export class OvsdbStreamOverflowError extends Error {
+    /**
+     * Buffer size that was exceeded.
+     */
+    public readonly bufferSize: number;
+
+    constructor(bufferSize: number, reason = "the consumer fell behind") {
+        super(`Notification stream buffer of ${bufferSize} overflowed: ${reason}`);
+        this.name = "OvsdbStreamOverflowError";
+        this.bufferSize = bufferSize;
+    }
+}
+
+/**
+ * Async-iterable sequence of notifications, for use with `for await`.
+ *
+ * Notifications are buffered until the consumer asks for them. The stream
+ * ends when its source ends, on `return()` (for example `break` in a
+ * `for await` loop), or when the `signal` aborts. When the source fails,
+ * the buffered notifications are yielded first and then the error is
+ * thrown.
+ */
+export class OvsdbNotificationStream<T extends OvsdbNotification = OvsdbNotification>
+    implements AsyncIterableIterator<T>, AsyncDisposable {
+    private readonly bufferSize: number;
+    private readonly overflow: OvsdbOverflowPolicy;
+    private readonly signal: AbortSignal | undefined;
+    private readonly buffer: T[] = [];
+    private readonly waiters: Array<{resolve: (result: IteratorResult<T>) => void; reject: (reason: unknown) => void}> = [];
+    private readonly detach: (() => void) | null = null;
+    private error: Error | null = null;
+    private closed = false;
+    private droppedCount = 0;
+
+    /**
+     * Creates a stream. `attach` connects the sink to the notification source
+     * and returns a function that disconnects it again.
+     *
+     * @throws Error When `bufferSize` is not a positive integer.
+     */
+    constructor(attach: (sink: OvsdbStreamSink<T>) => () => void, options: OvsdbStreamOptions = {}) {
+        this.bufferSize = options.bufferSize ?? 1000;
+        if (!Number.isInteger(this.bufferSize) || this.bufferSize < 1) {
+            throw new Error(`Stream buffer size must be a positive integer, not ${this.bufferSize}`);
+        }
+        this.overflow = options.overflow ?? "error";
+        this.signal = options.signal;
+
+        if (this.signal?.aborted) {
+            this.closed = true;
+            return;
+        }
+        this.signal?.addEventListener("abort", this.handleAbort, {once: true});
+        this.detach = attach({
+            push: (value) => this.push(value),
+            end: () => this.finish(null),
+            fail: (error) => this.finish(error)
+        });
+        if (this.closed) {
+            this.release();
+        }
+    }
+
+    /**
+     * Number of notifications currently buffered.
+     */
+    public get size(): number {
+        return this.buffer.length;
+    }
+
+    /**
+     * Number of notifications discarded by the `dropOldest` policy.
+     */
+    public get dropped(): number {
+        return this.droppedCount;
+    }
+
+    /**
+     * Resolves with the next notification, or `done` once the stream ended.
+     */
+    public next(): Promise<IteratorResult<T>> {
+        const value = this.buffer.shift();
+        if (value !== undefined) {
+            return Promise.resolve({value, done: false});
+        }
+        if (this.error) {
+            const error = this.error;
+            this.error = null;
+            return Promise.reject(error);
+        }
+        if (this.closed) {
+            return Promise.resolve({value: undefined, done: true});
+        }
+        return new Promise((resolve, reject) => this.waiters.push({resolve, reject}));
+    }
+
+    /**
+     * Ends the stream and discards buffered notifications.
+     */
+    public async return(): Promise<IteratorResult<T>> {
+        this.buffer.length = 0;
+        this.error = null;
+        this.finish(null);
+        return {value: undefined, done: true};
+    }
+
+    /**
+     * Returns the stream itself.
+     */
+    public [Symbol.asyncIterator](): this {
+        return this;
+    }
+
+    /**
+     * Ends the stream.
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.return();
+    }
+
+    private readonly handleAbort = (): void => {
+        void this.return();
+    };
+
+    private push(value: T): void {
+        if (this.closed) {
+            return;
+        }
+
+        const waiter = this.waiters.shift();
+        if (waiter) {
+            waiter.resolve({value, done: false});
+            return;
+        }
+
+        if (this.buffer.length < this.bufferSize) {
+            this.buffer.push(value);
+            return;
+        }
+
+        switch (this.overflow) {
+            case "dropOldest":
+                this.buffer.shift();
+                this.buffer.push(value);
+                this.droppedCount += 1;
+                break;
+            case "error":
+                this.finish(new OvsdbStreamOverflowError(this.bufferSize));
+                break;
+            case "coalesce":
+                if (!this.coalesce(value)) {
+                    this.finish(new OvsdbStreamOverflowError(this.bufferSize, `cannot coalesce ${value.method} notification`));
+                }
+                break;
+        }
+    }
+
+    private coalesce(value: T): boolean {
+        for (let index = this.buffer.length - 1; index >= 0; index -= 1) {
+            const previous = this.buffer[index];
+            if (previous.method !== value.method || !isSameMonitor(previous, value)) {
+                continue;
+            }
+
+            const merged = mergeNotifications(previous, value);
+            if (!merged) {
+                return false;
+            }
+            this.buffer[index] = merged;
+            return true;
+        }
+        return false;
+    }
+
+    private finish(error: Error | null): void {
+        if (this.closed) {
+            return;
+        }
+
+        this.closed = true;
+        this.release();
+        const waiters = this.waiters.splice(0);
+        if (error && waiters.length > 0) {
+            waiters.shift()?.reject(error);
+        } else {
+            this.error = error;
+        }
+        for (const waiter of waiters) {
+            waiter.resolve({value: undefined, done: true});
+        }
+    }
+
+    private release(): void {
+        this.signal?.removeEventListener("abort", this.handleAbort);
+        this.detach?.();
+    }
+}
+
+function isSameMonitor(left: OvsdbNotification, right: OvsdbNotification): boolean {
+    return stringifyJson(left.params[0]) === stringifyJson(right.params[0]);
+}
+
+function mergeNotifications<T extends OvsdbNotification>(previous: T, next: T): T | null {
+    // Decoded table updates cannot be merged without the schema, and a merged
+    // notification must not carry `decoded` of only one of its parts.
+    if ("decoded" in previous || "decoded" in next) {
+        return null;
+    }
+
+    switch (next.method) {
+        case "update": {
+            const updates = mergeTableUpdates(previous.params[1] as TableUpdates, next.params[1], mergeRowUpdate);
+            return updates ? {...next, params: [next.params[0], updates]} : null;
+        }
+        case "update2": {
+            const updates = mergeTableUpdates(previous.params[1] as TableUpdates2, next.params[1], mergeRowUpdate2);
+            return updates ? {...next, params: [next.params[0], updates]} : null;
+        }
+        case "update3": {
+            const updates = mergeTableUpdates(previous.params[2] as TableUpdates2, next.params[2], mergeRowUpdate2);
+            return updates ? {...next, params: [next.params[0], next.params[1], updates]} : null;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Combines the row updates of two notifications. `merge` returns
+ * `undefined` when the changes cancel out and `null` when they cannot be
+ * combined.
+ */
+function mergeTableUpdates<TRowUpdate>(
+    previous: Partial<Record<string, Partial<Record<string, TRowUpdate>>>>,
+    next: Partial<Record<string, Partial<Record<string, TRowUpdate>>>>,
+    merge: (previous: TRowUpdate, next: TRowUpdate) => TRowUpdate | undefined | null
+): Record<string, Record<string, TRowUpdate>> | null {
+    const result: Record<string, Record<string, TRowUpdate>> = {};
+    for (const [table, rows] of Object.entries(previous)) {
+        result[table] = {...rows} as Record<string, TRowUpdate>;
+    }
+
+    for (const [table, rows] of Object.entries(next)) {
+        const merged = result[table] ??= {};
+        for (const [uuid, update] of Object.entries(rows ?? {}) as Array<[string, TRowUpdate]>) {
+            const existing = merged[uuid];
+            if (existing === undefined) {
+                merged[uuid] = update;
+                continue;
+            }
+
+            const combined = merge(existing, update);
+            if (combined === null) {
+                return null;
+            }
+            if (combined === undefined) {
+                delete merged[uuid];
+            } else {
+                merged[uuid] = combined;
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * `old` keeps each column's value from before the first change and `new`
+ * comes from the last one.
+ */
+function mergeRowUpdate(previous: RowUpdate, next: RowUpdate): RowUpdate | undefined | null {
+    if (previous.new === undefined) {
+        return null;
+    }
+    if (previous.old === undefined && next.new === undefined) {
+        return undefined;
+    }
+
+    return {
+        ...(previous.old === undefined ? {} : {old: {...next.old, ...previous.old}}),
+        ...(next.new === undefined ? {} : {new: next.new})
+    } as RowUpdate;
+}
+
+/**
+ * A `modify` after an `initial` or `insert` is folded into the row only for
+ * columns the row omitted, which hold their default value, so the diff
+ * yields the new value unchanged.
+ */
+function mergeRowUpdate2(previous: RowUpdate2, next: RowUpdate2): RowUpdate2 | undefined | null {
+    if (next.delete !== undefined) {
+        if (previous.modify !== undefined) {
+            return next;
+        }
+        return previous.insert !== undefined || previous.initial !== undefined ? undefined : null;
+    }
+
+    const base = previous.modify ?? previous.insert ?? previous.initial;
+    if (base === undefined || next.modify === undefined || Object.keys(next.modify).some((column) => column in base)) {
+        return null;
+    }
+
+    const row = {...base, ...next.modify};
+    if (previous.modify !== undefined) {
+        return {modify: row};
+    }
+    return previous.insert !== undefined ? {insert: row} : {initial: row};
+}
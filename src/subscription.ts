@@ -0,0 +1,217 @@
+import {EventEmitter} from "node:events";
+
+import {OvsdbNotificationStream} from "./stream";
+import type {OVSDBClient, OvsdbMonitorMethod, OvsdbRequestOptions, OvsdbRpcError} from "./index";
+import type {OvsdbStreamOptions} from "./stream";
+import type {
+    DatabaseTableMap,
+    JsonObject,
+    JsonValue,
+    TableUpdates,
+    TableUpdates2,
+    Update2Notification,
+    Update3Notification,
+    UpdateNotification
+} from "./types";
+
+/**
+ * Snapshot returned by a monitor method: `monitor` replies with
+ * {@link TableUpdates}, the conditional methods with {@link TableUpdates2}.
+ */
+export type OvsdbMonitorSnapshot<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TMethod extends OvsdbMonitorMethod = OvsdbMonitorMethod
+> = TMethod extends "monitor" ? TableUpdates<TDatabase> : TableUpdates2<TDatabase>;
+
+/**
+ * Notification that carries updates for a monitor started with `TMethod`.
+ */
+export type OvsdbMonitorNotification<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TMethod extends OvsdbMonitorMethod = OvsdbMonitorMethod
+> = TMethod extends "monitor"
+    ? UpdateNotification<TDatabase>
+    : TMethod extends "monitor_cond"
+        ? Update2Notification<TDatabase>
+        : Update3Notification<TDatabase>;
+
+/**
+ * State of a monitor tracked by the client. The client keeps it current
+ * when the monitor id changes or a new transaction id arrives.
+ */
+export interface OvsdbMonitorState {
+    readonly method: OvsdbMonitorMethod;
+    readonly dbName: string;
+    readonly monitorId: JsonValue;
+    readonly lastTransactionId: string | null;
+}
+
+/**
+ * Events emitted by {@link OvsdbMonitorSubscription}.
+ */
+export interface OvsdbMonitorSubscriptionEvents<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TMethod extends OvsdbMonitorMethod = OvsdbMonitorMethod
+> {
+    /**
+     * A notification for this monitor arrived.
+     */
+    update: [OvsdbMonitorNotification<TDatabase, TMethod>];
+    /**
+     * The monitor was re-issued after a reconnect. For `monitor_cond_since`,
+     * check {@link OvsdbMonitorSubscription.found} to tell a resumed monitor
+     * from a fresh snapshot.
+     */
+    restored: [initial: OvsdbMonitorSnapshot<TDatabase, TMethod>];
+    /**
+     * The server rejected the monitor when it was re-issued after a
+     * reconnect. No further updates follow.
+     */
+    stale: [OvsdbRpcError];
+    /**
+     * No further updates follow: the monitor was cancelled or the client
+     * closed. `error` is set when the monitor went stale or the connection
+     * was lost for good.
+     */
+    end: [error?: Error];
+}
+
+/**
+ * A running monitor, returned by {@link OVSDBClient.monitor},
+ * {@link OVSDBClient.monitorCond}, and {@link OVSDBClient.monitorCondSince}.
+ *
+ * It carries the initial snapshot and emits `update` only for notifications
+ * of its own monitor id. Notifications that arrive before the caller had a
+ * chance to attach listeners are held back and delivered on the next turn
+ * of the event loop.
+ *
+ * The subscription is also async-iterable; see {@link updates}.
+ */
+export class OvsdbMonitorSubscription<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap,
+    TMethod extends OvsdbMonitorMethod = OvsdbMonitorMethod
+> extends EventEmitter<OvsdbMonitorSubscriptionEvents<TDatabase, TMethod>> implements AsyncDisposable {
+    /**
+     * Monitor method that started the subscription.
+     */
+    public readonly method: TMethod;
+
+    /**
+     * Database the monitor watches.
+     */
+    public readonly dbName: string;
+
+    /**
+     * Rows returned by the monitor request.
+     */
+    public readonly initial: OvsdbMonitorSnapshot<TDatabase, TMethod>;
+
+    /**
+     * For `monitor_cond_since`, whether the server resumed from the requested
+     * transaction id, so {@link initial} only holds the changes since then.
+     * Always `false` for the other methods.
+     */
+    public found: boolean;
+
+    private readonly client: OVSDBClient<TDatabase>;
+    private readonly state: OvsdbMonitorState;
+    private ended = false;
+
+    /**
+     * Creates a subscription. The client creates these; call one of its
+     * monitor methods instead.
+     */
+    constructor(
+        client: OVSDBClient<TDatabase>,
+        state: OvsdbMonitorState,
+        initial: OvsdbMonitorSnapshot<TDatabase, TMethod>,
+        found = false
+    ) {
+        super();
+        this.client = client;
+        this.state = state;
+        this.method = state.method as TMethod;
+        this.dbName = state.dbName;
+        this.initial = initial;
+        this.found = found;
+        this.once("end", () => {
+            this.ended = true;
+        });
+    }
+
+    /**
+     * Current monitor id. Changes when {@link OVSDBClient.monitorCondChange}
+     * moves the monitor to a new id.
+     */
+    public get monitorId(): JsonValue {
+        return this.state.monitorId;
+    }
+
+    /**
+     * Last transaction id seen by a `monitor_cond_since` monitor.
+     */
+    public get lastTransactionId(): string | null {
+        return this.state.lastTransactionId;
+    }
+
+    /**
+     * Whether the subscription still delivers updates.
+     */
+    public get active(): boolean {
+        return !this.ended;
+    }
+
+    /**
+     * Returns an async-iterable stream of this monitor's notifications. The
+     * stream ends with the subscription and throws when it ends with an
+     * error.
+     *
+     * @param options Buffer size, overflow policy, and abort signal.
+     */
+    public updates(options?: OvsdbStreamOptions): OvsdbNotificationStream<OvsdbMonitorNotification<TDatabase, TMethod>> {
+        return new OvsdbNotificationStream((sink) => {
+            const end = (error?: Error): void => {
+                if (error) {
+                    sink.fail(error);
+                } else {
+                    sink.end();
+                }
+            };
+            if (this.ended) {
+                sink.end();
+            }
+            this.on("update", sink.push);
+            this.on("end", end);
+            return () => {
+                this.off("update", sink.push);
+                this.off("end", end);
+            };
+        }, options);
+    }
+
+    /**
+     * Iterates over this monitor's notifications with the default stream
+     * settings.
+     */
+    public [Symbol.asyncIterator](): AsyncIterator<OvsdbMonitorNotification<TDatabase, TMethod>> {
+        return this.updates();
+    }
+
+    /**
+     * Cancels the monitor with `monitor_cancel`.
+     *
+     * @param options Per-call timeout and abort signal.
+     */
+    public async cancel(options?: OvsdbRequestOptions): Promise<null | JsonObject> {
+        return await this.client.monitorCancel(this.monitorId, options);
+    }
+
+    /**
+     * Cancels the monitor if it is still running and the client is connected.
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        if (!this.ended && this.client.isConnected) {
+            await this.cancel().catch(() => undefined);
+        }
+    }
+}
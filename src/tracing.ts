@@ -0,0 +1,154 @@
+import type {JsonObject, JsonValue} from "./types";
+
+/**
+ * Direction of a traced JSON-RPC message.
+ */
+export type OvsdbTraceDirection = "outbound" | "inbound";
+
+/**
+ * A JSON-RPC message observed on the wire.
+ */
+export interface OvsdbTraceEvent {
+    /**
+     * Whether the client sent or received the message.
+     */
+    direction: OvsdbTraceDirection;
+
+    /**
+     * Wall-clock time in milliseconds since the Unix epoch.
+     */
+    timestamp: number;
+
+    /**
+     * JSON-RPC id, or `null` for notifications.
+     */
+    id: JsonValue | null;
+
+    /**
+     * RPC method. For responses this is the method of the matching request,
+     * or `null` when it is unknown.
+     */
+    method: string | null;
+
+    /**
+     * Round-trip time in milliseconds for inbound responses to client requests,
+     * otherwise `null`.
+     */
+    latency: number | null;
+
+    /**
+     * The message after redaction.
+     */
+    message: JsonObject;
+}
+
+/**
+ * Context passed to a {@link OvsdbTraceRedactor}.
+ */
+export interface OvsdbTraceRedactionContext {
+    direction: OvsdbTraceDirection;
+    method: string | null;
+}
+
+/**
+ * Masks sensitive data before a message reaches the tracer.
+ *
+ * The redactor receives a private copy of the message and may modify it in place.
+ */
+export type OvsdbTraceRedactor = (message: JsonObject, context: OvsdbTraceRedactionContext) => JsonObject;
+
+/**
+ * Tracing settings for an {@link OVSDBClient}.
+ */
+export interface OvsdbTraceOptions {
+    /**
+     * Receives every outbound and inbound JSON-RPC message.
+     *
+     * Exceptions thrown by the tracer are ignored.
+     */
+    tracer: (event: OvsdbTraceEvent) => void;
+
+    /**
+     * Masks sensitive data before messages reach the tracer.
+     */
+    redact?: OvsdbTraceRedactor;
+}
+
+/**
+ * Creates a redactor that masks column values in traced messages.
+ *
+ * Columns are given as `"Table.column"` or as a bare `"column"` that matches in
+ * every table. Values are masked in inserted and updated rows, conditions,
+ * mutations, selected rows, and monitor updates. Where a message does not
+ * reveal its table, such as `select` results, every listed column name is
+ * masked regardless of table.
+ *
+ * @param columns Columns to mask, such as `["SSL.private_key", "external_ids"]`.
+ * @param mask Replacement value.
+ */
+export function redactColumns(columns: string[], mask: JsonValue = "<redacted>"): OvsdbTraceRedactor {
+    const rules = columns.map((column) => {
+        const separator = column.indexOf(".");
+        return separator === -1
+            ? {table: null, column}
+            : {table: column.slice(0, separator), column: column.slice(separator + 1)};
+    });
+
+    const matches = (table: string | null, column: string): boolean => {
+        return rules.some((rule) => rule.column === column && (rule.table === null || table === null || rule.table === table));
+    };
+
+    const redact = (value: JsonValue, table: string | null): JsonValue => {
+        if (Array.isArray(value)) {
+            if (
+                value.length === 3 &&
+                typeof value[0] === "string" &&
+                typeof value[1] === "string" &&
+                matches(table, value[0])
+            ) {
+                return [value[0], value[1], mask];
+            }
+            return value.map((item) => redact(item, table));
+        }
+
+        if (value !== null && typeof value === "object") {
+            const scope = typeof value.table === "string" ? value.table : table;
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+                key,
+                matches(scope, key) ? mask : redact(item, scope)
+            ]));
+        }
+
+        return value;
+    };
+
+    const redactTableUpdates = (updates: JsonValue): JsonValue => {
+        if (updates === null || typeof updates !== "object" || Array.isArray(updates)) {
+            return redact(updates, null);
+        }
+
+        return Object.fromEntries(Object.entries(updates).map(([table, rows]) => [table, redact(rows, table)]));
+    };
+
+    return (message, context) => {
+        const params = Array.isArray(message.params) ? message.params : null;
+        if (params && (message.method === "update" || message.method === "update2")) {
+            return {...message, params: [params[0], redactTableUpdates(params[1]), ...params.slice(2)]};
+        }
+
+        if (params && message.method === "update3") {
+            return {...message, params: [params[0], params[1], redactTableUpdates(params[2])]};
+        }
+
+        if ("result" in message && (context.method === "monitor" || context.method === "monitor_cond")) {
+            return {...message, result: redactTableUpdates(message.result)};
+        }
+
+        if ("result" in message && context.method === "monitor_cond_since" && Array.isArray(message.result)) {
+            const [found, lastTransactionId, updates] = message.result;
+            return {...message, result: [found, lastTransactionId, redactTableUpdates(updates)]};
+        }
+
+        return redact(message, null) as JsonObject;
+    };
+}
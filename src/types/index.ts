@@ -1,7 +1,12 @@
+import type {DecodedTableUpdates} from "../codec";
+
 /**
  * JSON primitive values.
+ *
+ * Integers outside the safe `number` range are `bigint` when the client is
+ * created with the `bigint` option.
  */
-export type JsonPrimitive = string | number | boolean | null;
+export type JsonPrimitive = string | number | bigint | boolean | null;
 
 /**
  * A JSON object value.
@@ -437,6 +442,24 @@ export interface SelectResult<TRow extends RowRecord = RowRecord> {
  */
 export type EmptyResult = Record<string, never>;
 
+/**
+ * Row returned by a select on `TTable` that lists `TColumns`.
+ *
+ * Without a literal column list the full row is returned.
+ */
+export type SelectedRow<
+    TDatabase extends DatabaseTableMap,
+    TTable extends TableName<TDatabase>,
+    TColumns
+> = TColumns extends readonly (infer TColumn)[]
+    ? string extends TColumn
+        ? TableRow<TDatabase, TTable>
+        : Pick<
+            TableRow<TDatabase, TTable> & {_uuid: Uuid; _version: Uuid},
+            Extract<TColumn, keyof TableRow<TDatabase, TTable> | "_uuid" | "_version">
+        >
+    : TableRow<TDatabase, TTable>;
+
 /**
  * Maps a transaction operation type to its result payload.
  */
@@ -445,7 +468,8 @@ export type OperationResult<
     TOperation extends DatabaseOperation<TDatabase>
 > =
     TOperation extends InsertOperation<TDatabase> ? InsertResult :
-        TOperation extends SelectOperation<TDatabase, infer TTable> ? SelectResult<TableRow<TDatabase, TTable>> :
+        TOperation extends SelectOperation<TDatabase, infer TTable>
+            ? SelectResult<SelectedRow<TDatabase, TTable, TOperation["columns"]>> :
             TOperation extends UpdateOperation<TDatabase> ? CountResult :
                 TOperation extends MutateOperation<TDatabase> ? CountResult :
                     TOperation extends DeleteOperation<TDatabase> ? CountResult :
@@ -599,13 +623,42 @@ export interface SetDbChangeAwareRequest {
     id: JsonValue;
 }
 
+/**
+ * Any request a client can send to an OVSDB server.
+ */
+export type OvsdbRequest<TDatabase extends DatabaseTableMap = DatabaseTableMap> =
+    | ListDbsRequest
+    | GetSchemaRequest
+    | TransactRequest<TDatabase>
+    | CancelRequest
+    | MonitorRpcRequest<TDatabase>
+    | MonitorCondRpcRequest<TDatabase>
+    | MonitorCondSinceRpcRequest<TDatabase>
+    | MonitorCancelRequest
+    | LockRequest
+    | StealRequest
+    | UnlockRequest
+    | EchoRequest
+    | SetDbChangeAwareRequest;
+
+/**
+ * Fields shared by the `update`, `update2`, and `update3` notifications.
+ */
+export interface UpdateNotificationFields {
+    /**
+     * Table updates of `params` decoded against the schema. Only set when the
+     * client uses `decodeValues`; `params` keeps the wire values.
+     */
+    decoded?: DecodedTableUpdates;
+}
+
 /**
  * RFC 7047 `update` notification payload.
  */
 export type UpdateNotification<TDatabase extends DatabaseTableMap = DatabaseTableMap> = OvsdbNotificationBase<
     "update",
     [JsonValue, TableUpdates<TDatabase>]
->;
+> & UpdateNotificationFields;
 
 /**
  * Open vSwitch `update2` notification payload.
@@ -613,15 +666,17 @@ export type UpdateNotification<TDatabase extends DatabaseTableMap = DatabaseTabl
 export type Update2Notification<TDatabase extends DatabaseTableMap = DatabaseTableMap> = OvsdbNotificationBase<
     "update2",
     [JsonValue, TableUpdates2<TDatabase>]
->;
+> & UpdateNotificationFields;
 
 /**
  * Open vSwitch `update3` notification payload.
+ *
+ * The second parameter is the id of the transaction that produced the update.
  */
 export type Update3Notification<TDatabase extends DatabaseTableMap = DatabaseTableMap> = OvsdbNotificationBase<
     "update3",
-    [JsonValue, TableUpdates2<TDatabase>, string | null]
->;
+    [JsonValue, string, TableUpdates2<TDatabase>]
+> & UpdateNotificationFields;
 
 /**
  * Lock acquisition notification payload.
@@ -0,0 +1,251 @@
+import {OvsdbRpcError} from "./index";
+import {checkDatum, parseAtom, parseDatum, resolveTableColumns, ZERO_UUID} from "./schema";
+import type {ColumnInfo, ColumnTypeInfo} from "./schema";
+import type {DatabaseOperation, DatabaseSchema, DatabaseTableMap, JsonValue, OvsdbValue} from "./types";
+
+/**
+ * Raised when an operation does not match the database schema.
+ */
+export class OvsdbValidationError<
+    TDatabase extends DatabaseTableMap = DatabaseTableMap
+> extends Error {
+    /**
+     * Zero-based index of the invalid operation in the transaction.
+     */
+    public readonly operationIndex: number;
+
+    /**
+     * Operation that failed validation.
+     */
+    public readonly operation: DatabaseOperation<TDatabase>;
+
+    /**
+     * Description of the problem, without the operation prefix.
+     */
+    public readonly reason: string;
+
+    /**
+     * Creates a new validation error.
+     */
+    constructor(operationIndex: number, operation: DatabaseOperation<TDatabase>, reason: string) {
+        const target = "table" in operation ? ` on ${operation.table}` : "";
+        super(`Operation ${operationIndex} (${operation.op}${target}): ${reason}`);
+        this.name = "OvsdbValidationError";
+        this.operationIndex = operationIndex;
+        this.operation = operation;
+        this.reason = reason;
+    }
+}
+
+/**
+ * Checks transaction operations against a database schema without sending
+ * anything to the server.
+ *
+ * Validates table and column names, atomic types, enum values, integer, real,
+ * and string length bounds, set and map cardinality, mutation operators per
+ * column type, and writes to immutable columns. `named-uuid` references are
+ * accepted wherever a UUID is.
+ *
+ * @throws OvsdbValidationError For the first invalid operation.
+ */
+export function validateOperations<TDatabase extends DatabaseTableMap = DatabaseTableMap>(
+    schema: DatabaseSchema,
+    operations: readonly DatabaseOperation<TDatabase>[]
+): void {
+    const tables = new Map<string, Map<string, ColumnInfo>>();
+    const columnsOf = (table: string): Map<string, ColumnInfo> => {
+        let columns = tables.get(table);
+        if (!columns) {
+            const tableSchema = schema.tables[table];
+            if (!tableSchema) {
+                throw invalid(`table ${table} does not exist in database ${schema.name}`);
+            }
+            columns = resolveTableColumns(tableSchema);
+            tables.set(table, columns);
+        }
+        return columns;
+    };
+
+    for (const [index, operation] of operations.entries()) {
+        try {
+            validateOperation(operation as DatabaseOperation, columnsOf);
+        } catch (error) {
+            if (error instanceof OvsdbRpcError) {
+                throw new OvsdbValidationError<TDatabase>(index, operation, error.response.details ?? error.response.error);
+            }
+            throw error;
+        }
+    }
+}
+
+function validateOperation(operation: DatabaseOperation, columnsOf: (table: string) => Map<string, ColumnInfo>): void {
+    switch (operation.op) {
+        case "insert":
+            validateRow(columnsOf(operation.table), operation.row, false);
+            return;
+        case "select": {
+            const columns = columnsOf(operation.table);
+            validateConditions(columns, operation.where);
+            operation.columns?.forEach((column) => requireColumn(columns, column));
+            return;
+        }
+        case "update": {
+            const columns = columnsOf(operation.table);
+            validateConditions(columns, operation.where);
+            validateRow(columns, operation.row, true);
+            return;
+        }
+        case "mutate": {
+            const columns = columnsOf(operation.table);
+            validateConditions(columns, operation.where);
+            for (const [name, operator, value] of operation.mutations) {
+                validateMutation(requireColumn(columns, name), operator, value);
+            }
+            return;
+        }
+        case "delete":
+            validateConditions(columnsOf(operation.table), operation.where);
+            return;
+        case "wait": {
+            const columns = columnsOf(operation.table);
+            validateConditions(columns, operation.where);
+            if (operation.until !== "==" && operation.until !== "!=") {
+                throw invalid(`until must be "==" or "!=", not ${JSON.stringify(operation.until)}`);
+            }
+            const waited = operation.columns.map((column) => requireColumn(columns, column));
+            for (const row of operation.rows) {
+                for (const [name, value] of Object.entries(row)) {
+                    const column = waited.find((candidate) => candidate.name === name);
+                    if (!column) {
+                        throw invalid(`wait row column ${name} is not listed in columns`);
+                    }
+                    validateDatum(column, value, column.type);
+                }
+            }
+            return;
+        }
+        case "commit":
+        case "abort":
+        case "comment":
+        case "assert":
+            return;
+        default:
+            throw invalid(`unknown operation ${JSON.stringify((operation as {op: unknown}).op)}`);
+    }
+}
+
+function validateRow(columns: Map<string, ColumnInfo>, row: Record<string, OvsdbValue>, forUpdate: boolean): void {
+    for (const [name, value] of Object.entries(row)) {
+        const column = requireColumn(columns, name);
+        if (name.startsWith("_") || (forUpdate && !column.mutable)) {
+            throw invalid(`column ${name} is immutable`);
+        }
+        validateDatum(column, value, column.type);
+    }
+}
+
+function validateConditions(columns: Map<string, ColumnInfo>, where: readonly unknown[]): void {
+    for (const condition of where) {
+        if (typeof condition === "boolean") {
+            continue;
+        }
+
+        const [name, func, value] = condition as [string, string, OvsdbValue];
+        const column = requireColumn(columns, name);
+        const {type} = column;
+
+        switch (func) {
+            case "==":
+            case "!=":
+                validateDatum(column, value, type);
+                break;
+            case "includes":
+            case "excludes":
+                validateDatum(column, value, {...type, min: 0});
+                break;
+            case "<":
+            case "<=":
+            case ">":
+            case ">=":
+                if (!isNumeric(type) || type.max !== 1) {
+                    throw invalid(`function ${func} is not supported by column ${name}`);
+                }
+                validateDatum(column, value, {...type, min: 1});
+                break;
+            default:
+                throw invalid(`unknown condition function ${JSON.stringify(func)}`);
+        }
+    }
+}
+
+function validateMutation(column: ColumnInfo, operator: string, value: OvsdbValue): void {
+    const {name, type} = column;
+    if (!column.mutable) {
+        throw invalid(`column ${name} is immutable`);
+    }
+
+    switch (operator) {
+        case "+=":
+        case "-=":
+        case "*=":
+        case "/=":
+        case "%=": {
+            if (!isNumeric(type) || (operator === "%=" && type.key.type !== "integer")) {
+                throw invalid(`mutator ${operator} is not supported by column ${name}`);
+            }
+            let operand;
+            try {
+                operand = parseAtom(value as JsonValue, type.key);
+            } catch {
+                throw invalid(`mutator ${operator} on column ${name} needs a ${type.key.type} operand`);
+            }
+            if ((operator === "/=" || operator === "%=") && Number(operand) === 0) {
+                throw invalid(`mutator ${operator} on column ${name} divides by zero`);
+            }
+            return;
+        }
+        case "insert":
+        case "delete":
+            if (type.min === 1 && type.max === 1) {
+                throw invalid(`mutator ${operator} is not supported by scalar column ${name}`);
+            }
+            if (operator === "delete" && type.value && !(Array.isArray(value) && value[0] === "map")) {
+                // Deleting from a map by key takes a set of keys.
+                validateDatum(column, value, {key: type.key, value: null, min: 0, max: Number.POSITIVE_INFINITY});
+                return;
+            }
+            validateDatum(column, value, {...type, min: 0, max: operator === "delete" ? Number.POSITIVE_INFINITY : type.max});
+            return;
+        default:
+            throw invalid(`unknown mutator ${JSON.stringify(operator)}`);
+    }
+}
+
+function validateDatum(column: ColumnInfo, value: OvsdbValue, type: ColumnTypeInfo): void {
+    let datum;
+    try {
+        datum = parseDatum(value, type, () => ZERO_UUID);
+    } catch (error) {
+        if (error instanceof OvsdbRpcError) {
+            throw invalid(`column ${column.name}: ${error.response.details ?? error.response.error}`);
+        }
+        throw error;
+    }
+    checkDatum(datum, type, column.name);
+}
+
+function requireColumn(columns: Map<string, ColumnInfo>, name: string): ColumnInfo {
+    const column = columns.get(name);
+    if (!column) {
+        throw invalid(`column ${name} does not exist`);
+    }
+    return column;
+}
+
+function isNumeric(type: ColumnTypeInfo): boolean {
+    return (type.key.type === "integer" || type.key.type === "real") && type.value === null;
+}
+
+function invalid(details: string): OvsdbRpcError {
+    return new OvsdbRpcError({error: "syntax error", details});
+}
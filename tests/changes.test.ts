@@ -0,0 +1,123 @@
+import {describe, expect, expectTypeOf, test} from "vitest";
+
+import {OVSDBClient, OvsdbChangeFeed, OvsdbMemoryServer} from "../src";
+import type {
+    DatabaseSchema,
+    OvsdbMapDiff,
+    OvsdbMonitorMethod,
+    OvsdbRowUpdated,
+    OvsdbScalarDiff,
+    OvsdbSetDiff,
+    OvsMap,
+    OvsSet
+} from "../src";
+
+type TestDatabase = {
+    Bridge: {
+        name: string;
+        stp_priority: number;
+        flood_vlans: OvsSet<number>;
+        external_ids: OvsMap<string, string>;
+    };
+};
+
+const schema: DatabaseSchema = {
+    name: "Open_vSwitch",
+    version: "8.3.1",
+    tables: {
+        Bridge: {
+            columns: {
+                name: {type: "string"},
+                stp_priority: {type: "integer"},
+                flood_vlans: {type: {key: {type: "integer", minInteger: 0, maxInteger: 4095}, min: 0, max: 4096}},
+                external_ids: {type: {key: "string", value: "string", min: 0, max: "unlimited"}}
+            },
+            isRoot: true
+        }
+    }
+};
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+    const deadline = Date.now() + 1000;
+    while (!condition() && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    expect(condition()).toBe(true);
+};
+
+describe("OvsdbChangeFeed", () => {
+    test.each<OvsdbMonitorMethod>(["monitor", "monitor_cond", "monitor_cond_since"])(
+        "reports the same row events for %s",
+        async (method) => {
+            await using server = new OvsdbMemoryServer({schemas: [schema]});
+            await using client = new OVSDBClient<TestDatabase>({connectionFactory: () => server.createConnection()});
+            await client.connect();
+            const bridges = client.table("Bridge");
+            const existing = await bridges.insert({name: "br-int", external_ids: ["map", [["owner", "ops"], ["zone", "a"]]]});
+
+            const events: unknown[] = [];
+            await using feed = new OvsdbChangeFeed(client, {method, tables: {Bridge: {}}});
+            const changes = feed.table("Bridge");
+            changes.on("inserted", ({uuid, row, initial}) => events.push(["inserted", uuid, row.name, initial]));
+            changes.on("updated", ({uuid, changes: diff}) => events.push(["updated", uuid, diff]));
+            changes.on("deleted", ({uuid, row}) => events.push(["deleted", uuid, row.name]));
+            await feed.start();
+            expect(events).toEqual([["inserted", existing, "br-int", true]]);
+
+            const added = await bridges.insert({name: "br-ex"});
+            await bridges.mutateSet(added, "flood_vlans", {insert: [10, 20]});
+            await bridges.mutateMap(existing, "external_ids", {set: [["owner", "dev"], ["rack", "1"]], delete: ["zone"]});
+            await bridges.patch(existing, {stp_priority: 7});
+            await bridges.patch(existing, {stp_priority: 7});
+            await bridges.remove(added);
+            await waitFor(() => events.length === 6);
+
+            expect(events.slice(1)).toEqual([
+                ["inserted", added, "br-ex", false],
+                ["updated", added, {
+                    flood_vlans: {kind: "set", old: ["set", []], new: ["set", [10, 20]], added: [10, 20], removed: []}
+                }],
+                ["updated", existing, {
+                    external_ids: {
+                        kind: "map",
+                        old: ["map", [["owner", "ops"], ["zone", "a"]]],
+                        new: ["map", [["owner", "dev"], ["rack", "1"]]],
+                        added: [["rack", "1"]],
+                        removed: [["zone", "a"]],
+                        changed: [["owner", "ops", "dev"]]
+                    }
+                }],
+                ["updated", existing, {stp_priority: {kind: "scalar", old: 0, new: 7}}],
+                ["deleted", added, "br-ex"]
+            ]);
+        }
+    );
+
+    test("rejects where clauses for the monitor method", () => {
+        const client = new OVSDBClient<TestDatabase>();
+        expect(() => new OvsdbChangeFeed(client, {method: "monitor", tables: {Bridge: {where: [["name", "==", "br-int"]]}}}))
+            .toThrow("Table Bridge has where clauses, which the monitor method does not support");
+        expect(() => new OvsdbChangeFeed(client, {tables: {Bridge: {where: [["name", "==", "br-int"]]}}})).not.toThrow();
+    });
+
+    test("refuses to start on a client that decodes values", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = new OVSDBClient<TestDatabase>({
+            decodeValues: true,
+            connectionFactory: () => server.createConnection()
+        });
+        await client.connect();
+
+        const feed = new OvsdbChangeFeed(client, {tables: {Bridge: {}}});
+        await expect(feed.start()).rejects.toThrow("The feed needs wire values; create the client without decodeValues");
+        expect(client.listenerCount("notification")).toBe(0);
+    });
+
+    test("types column diffs after the column values", () => {
+        type Changes = OvsdbRowUpdated<TestDatabase, "Bridge">["changes"];
+        expectTypeOf<Exclude<Changes["stp_priority"], undefined>>().toEqualTypeOf<OvsdbScalarDiff<number>>();
+        expectTypeOf<Exclude<Changes["flood_vlans"], undefined>>().toEqualTypeOf<OvsdbSetDiff<OvsSet<number>, number>>();
+        expectTypeOf<Exclude<Changes["external_ids"], undefined>>()
+            .toEqualTypeOf<OvsdbMapDiff<OvsMap<string, string>, string, string>>();
+    });
+});
@@ -2,8 +2,32 @@ import {Duplex} from "node:stream";
 
 import {describe, expect, test, vi} from "vitest";
 
-import {OVSDBClient, OvsdbProtocolError, OvsdbRpcError, OvsdbTransactionError, type OvsdbStream, resolveConnectionOptions} from "../src";
-import type {DatabaseOperation, OvsSet, OvsdbNotification, UpdateNotification} from "../src";
+import {
+    OVSDBClient,
+    OvsdbClusterError,
+    OvsdbProtocolError,
+    OvsdbRpcError,
+    OvsdbTransactionError,
+    type OvsdbResolvedConnectionOptions,
+    type OvsdbTraceEvent,
+    type OvsdbStream,
+    parseRemote,
+    redactColumns,
+    resolveConnectionOptions,
+    resolveRemotes
+} from "../src";
+import {JsonFrameDecoder} from "../src/framing";
+import type {
+    DatabaseOperation,
+    OvsSet,
+    OvsdbAttributes,
+    OvsdbMeterLike,
+    OvsdbNotification,
+    OvsdbSessionRestore,
+    OvsdbTracerLike,
+    Update3Notification,
+    UpdateNotification
+} from "../src";
 
 type TestSchema = {
     Bridge: {
@@ -29,8 +53,8 @@ class MockSocket extends Duplex {
         this.emit("data", Buffer.from(`${JSON.stringify(payload)}\n`, "utf8"));
     }
 
-    public sendRaw(chunk: string): void {
-        this.emit("data", Buffer.from(chunk, "utf8"));
+    public sendRaw(chunk: string | Buffer): void {
+        this.emit("data", typeof chunk === "string" ? Buffer.from(chunk, "utf8") : chunk);
     }
 
     public closeNow(): void {
@@ -58,6 +82,44 @@ const createConnectionFactory = (socket: MockSocket): (() => OvsdbStream) => {
     return () => socket;
 };
 
+const createAutoConnectFactory = (sockets: MockSocket[]): (() => OvsdbStream) => {
+    return () => {
+        const socket = new MockSocket();
+        sockets.push(socket);
+        setImmediate(() => socket.connectNow());
+        return socket;
+    };
+};
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+    const deadline = Date.now() + 1000;
+    while (!condition() && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    expect(condition()).toBe(true);
+};
+
+const serverDatabaseRow = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+    name: "OVN_Northbound",
+    model: "clustered",
+    connected: true,
+    leader: true,
+    index: 42,
+    cid: ["uuid", "00000000-0000-0000-0000-0000000000c1"],
+    sid: ["uuid", "00000000-0000-0000-0000-0000000000s1"],
+    ...overrides
+});
+
+const respondTo = (socket: MockSocket, index: number, result: unknown): Record<string, unknown> => {
+    const request = JSON.parse(socket.writes[index]);
+    socket.sendMessage({
+        id: request.id,
+        error: null,
+        result
+    });
+    return request;
+};
+
 describe("OVSDBClient", () => {
     test("resolves unix socket connections by default", () => {
         expect(resolveConnectionOptions({socketPath: "/tmp/ovs.sock"})).toEqual({
@@ -99,6 +161,83 @@ describe("OVSDBClient", () => {
         });
     });
 
+    test("parses Open vSwitch remote strings", () => {
+        expect(parseRemote("tcp:10.0.0.1:6641, tcp:[::1]:6642,unix:/run/ovn/ovnnb_db.sock,tcp:ovsdb")).toEqual([
+            {transport: "tcp", host: "10.0.0.1", port: 6641},
+            {transport: "tcp", host: "::1", port: 6642},
+            {transport: "unix", socketPath: "/run/ovn/ovnnb_db.sock"},
+            {transport: "tcp", host: "ovsdb", port: 6640}
+        ]);
+
+        expect(parseRemote("ssl:ovn-nb:6641", {rejectUnauthorized: false})).toEqual([
+            {
+                transport: "tls",
+                host: "ovn-nb",
+                port: 6641,
+                tlsOptions: {
+                    host: "ovn-nb",
+                    port: 6641,
+                    rejectUnauthorized: false
+                }
+            }
+        ]);
+
+        expect(() => parseRemote("ptcp:6640")).toThrow("Unsupported OVSDB remote: ptcp:6640");
+        expect(() => parseRemote("tcp:host:port")).toThrow("Invalid OVSDB remote: tcp:host:port");
+    });
+
+    test("prefers remote strings over separate transport fields", () => {
+        expect(resolveRemotes({
+            remote: ["tcp:10.0.0.1:6641", "tcp:10.0.0.2:6641"],
+            host: "ignored"
+        })).toEqual([
+            {transport: "tcp", host: "10.0.0.1", port: 6641},
+            {transport: "tcp", host: "10.0.0.2", port: 6641}
+        ]);
+        expect(resolveConnectionOptions({remote: "unix:/tmp/ovs.sock"})).toEqual({
+            transport: "unix",
+            socketPath: "/tmp/ovs.sock"
+        });
+    });
+
+    test("rotates through remotes when a connection attempt fails", async () => {
+        const attempted: OvsdbResolvedConnectionOptions[] = [];
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            remote: "tcp:10.0.0.1:6641,tcp:10.0.0.2:6641",
+            connectionFactory: (options) => {
+                attempted.push(options);
+                if (attempted.length === 1) {
+                    throw new Error("connection refused");
+                }
+                setImmediate(() => socket.connectNow());
+                return socket;
+            }
+        });
+
+        await client.connect();
+
+        expect(attempted).toEqual([
+            {transport: "tcp", host: "10.0.0.1", port: 6641},
+            {transport: "tcp", host: "10.0.0.2", port: 6641}
+        ]);
+        expect(client.remote).toEqual({transport: "tcp", host: "10.0.0.2", port: 6641});
+        await client.close();
+    });
+
+    test("rejects connect when every remote fails", async () => {
+        const client = new OVSDBClient({
+            timeout: 100,
+            remote: "tcp:10.0.0.1:6641,tcp:10.0.0.2:6641",
+            connectionFactory: (options) => {
+                throw new Error(`refused ${options.transport === "tcp" ? options.host : ""}`);
+            }
+        });
+
+        await expect(client.connect()).rejects.toThrow("refused 10.0.0.2");
+    });
+
     test("sends requests and resolves typed responses", async () => {
         const socket = new MockSocket();
         const client = new OVSDBClient<TestSchema>({
@@ -122,6 +261,28 @@ describe("OVSDBClient", () => {
         await expect(requestPromise).resolves.toEqual(["Open_vSwitch", "hardware_vtep"]);
     });
 
+    test("keeps 64-bit integers intact with the bigint option", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            bigint: true,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const resultPromise = client.transact("Open_vSwitch", [
+            {op: "update", table: "Bridge", where: [["datapath_id", "==", 18446744073709551615n]], row: {ofport_request: 1n}}
+        ]);
+        expect(socket.writes[0]).toContain('[["datapath_id","==",18446744073709551615]],"row":{"ofport_request":1}');
+
+        const request = JSON.parse(socket.writes[0]);
+        socket.sendRaw(`{"id":${request.id},"error":null,"result":[{"count":1,"rx_packets":9007199254740993}]}\n`);
+        await expect(resultPromise).resolves.toEqual([{count: 1, rx_packets: 9007199254740993n}]);
+    });
+
     test("supports tuple inference for transact results", async () => {
         const socket = new MockSocket();
         const client = new OVSDBClient<TestSchema>({
@@ -208,6 +369,100 @@ describe("OVSDBClient", () => {
         await expect(requestPromise).resolves.toEqual(["Open_vSwitch"]);
     });
 
+    test("keeps multibyte characters intact across chunk boundaries", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const requestPromise = client.echo("brücke-€");
+        const request = JSON.parse(socket.writes[0]);
+        const bytes = Buffer.from(`{"id":${request.id},"error":null,"result":["brücke-€"]}`, "utf8");
+        const euroOffset = bytes.indexOf(Buffer.from("€", "utf8"));
+
+        socket.sendRaw(bytes.subarray(0, euroOffset + 1));
+        socket.sendRaw(bytes.subarray(euroOffset + 1, euroOffset + 2));
+        socket.sendRaw(bytes.subarray(euroOffset + 2));
+
+        await expect(requestPromise).resolves.toEqual(["brücke-€"]);
+    });
+
+    test("drops the connection when a message exceeds the maximum size", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            maxMessageSize: 32,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const protocolErrorListener = vi.fn();
+        client.on("protocolError", protocolErrorListener);
+
+        socket.sendRaw(`{"method":"update","params":["monitor-1",`);
+        socket.sendRaw(`{"Bridge":{}}],"id":null}`);
+
+        expect(protocolErrorListener).toHaveBeenCalledTimes(1);
+        expect(protocolErrorListener.mock.calls[0]?.[0].message).toBe("Inbound message exceeds the maximum size of 32 characters");
+        expect(client.isConnected).toBe(false);
+    });
+
+    test("counts string contents toward the maximum message size", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            maxMessageSize: 32,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const protocolErrorListener = vi.fn();
+        client.on("protocolError", protocolErrorListener);
+
+        // The closing quote and bracket complete the frame, so the size
+        // must be checked inside the string as well.
+        const value = "x".repeat(1000);
+        socket.sendRaw(`["${value.slice(0, 500)}`);
+        socket.sendRaw(`${value.slice(500)}"]`);
+
+        expect(protocolErrorListener).toHaveBeenCalledTimes(1);
+        expect(protocolErrorListener.mock.calls[0]?.[0].message).toBe("Inbound message exceeds the maximum size of 32 characters");
+        expect(client.isConnected).toBe(false);
+    });
+
+    test("decodes a large message split into many chunks in linear time", () => {
+        const chunk = "x".repeat(64 * 1024);
+        const decode = (chunks: number): number => {
+            const decoder = new JsonFrameDecoder();
+            const started = performance.now();
+            let frames = decoder.push("[\"").length;
+            for (let index = 0; index < chunks; index += 1) {
+                frames += decoder.push(chunk).length;
+            }
+            frames += decoder.push("\"]").length;
+            expect(frames).toBe(1);
+            return performance.now() - started;
+        };
+
+        decode(16);
+        const small = Math.min(decode(32), decode(32));
+        const large = decode(256);
+        // Eight times the data: about 8x when linear, about 64x when every
+        // chunk copies the whole message again.
+        expect(large / Math.max(small, 1)).toBeLessThan(24);
+    });
+
     test("emits typed notifications", async () => {
         const socket = new MockSocket();
         const client = new OVSDBClient<TestSchema>({
@@ -219,6 +474,10 @@ describe("OVSDBClient", () => {
         socket.connectNow();
         await connectPromise;
 
+        const monitorPromise = client.monitor("Open_vSwitch", "monitor-1", {Bridge: {}});
+        respondTo(socket, 0, {});
+        await monitorPromise;
+
         const updateListener = vi.fn<(notification: UpdateNotification<TestSchema>) => void>();
         const notificationListener = vi.fn<(notification: OvsdbNotification<TestSchema>) => void>();
         client.on("update", updateListener);
@@ -248,6 +507,94 @@ describe("OVSDBClient", () => {
         expect(notificationListener).toHaveBeenCalledTimes(1);
     });
 
+    test("types update3 notifications with the transaction id before the updates", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient<TestSchema>({
+            timeout: 100,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const monitorPromise = client.monitorCondSince("Open_vSwitch", "bridges", {Bridge: {}});
+        respondTo(socket, 0, [false, "txn-1", {}]);
+        await monitorPromise;
+
+        const update3Listener = vi.fn<(notification: Update3Notification<TestSchema>) => void>();
+        client.on("update3", update3Listener);
+
+        socket.sendMessage({
+            method: "update3",
+            params: ["bridges", "txn-2", {Bridge: {row1: {modify: {name: "br-ex"}}}}],
+            id: null
+        });
+
+        await nextTick();
+
+        expect(update3Listener).toHaveBeenCalledTimes(1);
+        const [notification] = update3Listener.mock.calls[0]!;
+        const lastTransactionId: string = notification.params[1];
+        const updates = notification.params[2];
+        expect(lastTransactionId).toBe("txn-2");
+        expect(updates.Bridge?.row1?.modify).toEqual({name: "br-ex"});
+    });
+
+    test("delivers updates to the subscription of their monitor", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient<TestSchema>({
+            timeout: 100,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const bridgesPromise = client.monitorCond("Open_vSwitch", "bridges", {Bridge: {columns: ["name"]}});
+        respondTo(socket, 0, {Bridge: {row1: {initial: {name: "br-int"}}}});
+        // Sent in the same read as the reply, before any listener is attached.
+        socket.sendMessage({method: "update2", params: ["bridges", {Bridge: {row1: {modify: {name: "br-ex"}}}}], id: null});
+        const bridges = await bridgesPromise;
+        expect(bridges.initial).toEqual({Bridge: {row1: {initial: {name: "br-int"}}}});
+
+        const portsPromise = client.monitor("Open_vSwitch", "ports", {Port: {}});
+        respondTo(socket, 1, {});
+        const ports = await portsPromise;
+
+        const bridgeUpdates = vi.fn();
+        const portUpdates = vi.fn();
+        bridges.on("update", bridgeUpdates);
+        ports.on("update", portUpdates);
+        await waitFor(() => bridgeUpdates.mock.calls.length === 1);
+        expect(bridgeUpdates.mock.calls[0]?.[0].params).toEqual(["bridges", {Bridge: {row1: {modify: {name: "br-ex"}}}}]);
+
+        const protocolErrorListener = vi.fn();
+        client.on("protocolError", protocolErrorListener);
+        socket.sendMessage({method: "update", params: ["ports", {Port: {row2: {new: {name: "eth0"}}}}], id: null});
+        socket.sendMessage({method: "update", params: ["unknown", {Port: {}}], id: null});
+        expect(portUpdates).toHaveBeenCalledTimes(1);
+        expect(bridgeUpdates).toHaveBeenCalledTimes(1);
+        expect(protocolErrorListener).toHaveBeenCalledTimes(1);
+        expect(protocolErrorListener.mock.calls[0]?.[0].message).toBe("Received an update for an unknown monitor");
+        socket.sendMessage({method: "update2", params: ["ports", {Port: {}}], id: null});
+        expect(portUpdates).toHaveBeenCalledTimes(1);
+        expect(protocolErrorListener.mock.calls[1]?.[0].message).toBe("Received an update2 notification for a monitor started with monitor");
+
+        await expect(client.monitor("Open_vSwitch", "ports", {Port: {}})).rejects.toThrow('Monitor "ports" is already running');
+
+        const cancelPromise = ports.cancel();
+        const cancelRequest = respondTo(socket, 2, {});
+        await cancelPromise;
+        expect(cancelRequest).toMatchObject({method: "monitor_cancel", params: ["ports"]});
+        socket.sendMessage({method: "update", params: ["ports", {Port: {}}], id: null});
+        expect(portUpdates).toHaveBeenCalledTimes(1);
+        expect(protocolErrorListener).toHaveBeenCalledTimes(3);
+
+        await client.close();
+    });
+
     test("automatically responds to server echo requests", async () => {
         const socket = new MockSocket();
         const client = new OVSDBClient({
@@ -274,6 +621,183 @@ describe("OVSDBClient", () => {
         });
     });
 
+    test("dispatches server requests to registered handlers", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        client.setRequestHandler("relay_status", async ([name]) => ({name, healthy: true}));
+        client.setRequestHandler("restricted", () => {
+            throw {error: "permission denied", details: "read-only relay"};
+        });
+        client.setRequestHandler("broken", () => {
+            throw new Error("handler crashed");
+        });
+
+        socket.sendMessage({method: "relay_status", params: ["sb-relay"], id: 1});
+        socket.sendMessage({method: "restricted", params: [], id: 2});
+        socket.sendMessage({method: "broken", params: [], id: 3});
+
+        await waitFor(() => socket.writes.length === 3);
+        const responses = socket.writes.map((write) => JSON.parse(write));
+        expect(responses).toEqual(expect.arrayContaining([
+            {id: 1, result: {name: "sb-relay", healthy: true}, error: null},
+            {id: 2, result: null, error: {error: "permission denied", details: "read-only relay"}},
+            {id: 3, result: null, error: {error: "internal error", details: "handler crashed"}}
+        ]));
+    });
+
+    test("reports server requests without a handler", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const unhandledRequest = vi.fn();
+        client.on("unhandledRequest", unhandledRequest);
+        expect(client.removeRequestHandler("echo")).toBe(true);
+
+        socket.sendMessage({method: "echo", params: ["keepalive"], id: 7});
+
+        await waitFor(() => socket.writes.length === 1);
+        expect(unhandledRequest).toHaveBeenCalledWith("echo", ["keepalive"], 7);
+        expect(JSON.parse(socket.writes[0])).toEqual({
+            id: 7,
+            result: null,
+            error: {
+                error: "not supported",
+                details: "Unsupported server request: echo"
+            }
+        });
+    });
+
+    test("traces outbound and inbound messages with latency and redaction", async () => {
+        const socket = new MockSocket();
+        const events: OvsdbTraceEvent[] = [];
+        const client = new OVSDBClient<TestSchema>({
+            timeout: 100,
+            trace: {
+                tracer: (event) => events.push(event),
+                redact: redactColumns(["Bridge.name"])
+            },
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const transactPromise = client.transact("Open_vSwitch", [
+            {op: "insert", table: "Bridge", row: {name: "br-secret"}}
+        ]);
+        respondTo(socket, 0, [{uuid: ["uuid", "00000000-0000-0000-0000-000000000001"]}]);
+        await transactPromise;
+
+        socket.sendMessage({method: "echo", params: [], id: "probe"});
+        await waitFor(() => events.length === 4);
+
+        expect(events.map(({direction, id, method}) => ({direction, id, method}))).toEqual([
+            {direction: "outbound", id: 1, method: "transact"},
+            {direction: "inbound", id: 1, method: "transact"},
+            {direction: "inbound", id: "probe", method: "echo"},
+            {direction: "outbound", id: "probe", method: "echo"}
+        ]);
+        expect(events[0].message.params).toEqual([
+            "Open_vSwitch",
+            {op: "insert", table: "Bridge", row: {name: "<redacted>"}}
+        ]);
+        expect(JSON.parse(socket.writes[0]).params[1].row.name).toBe("br-secret");
+        expect(events[0].latency).toBeNull();
+        expect(events[1].latency).toBeGreaterThanOrEqual(0);
+        expect(events[1].timestamp).toBeGreaterThan(0);
+    });
+
+    test("records spans and metrics through the instrumentation hooks", async () => {
+        const socket = new MockSocket();
+        const spans: Array<{name: string; attributes: OvsdbAttributes; status?: {code: number}; ended: boolean}> = [];
+        const measurements: Array<[string, number, OvsdbAttributes | undefined]> = [];
+        const tracer: OvsdbTracerLike = {
+            startSpan: (name, options) => {
+                const span = {name, attributes: {...options?.attributes}, status: undefined as {code: number} | undefined, ended: false};
+                spans.push(span);
+                return {
+                    setAttribute: (key, value) => {
+                        span.attributes[key] = value;
+                    },
+                    setStatus: (status) => {
+                        span.status = status;
+                    },
+                    end: () => {
+                        span.ended = true;
+                    }
+                };
+            }
+        };
+        const instrument = (name: string) => ({
+            add: (value: number, attributes?: OvsdbAttributes) => measurements.push([name, value, attributes]),
+            record: (value: number, attributes?: OvsdbAttributes) => measurements.push([name, value, attributes])
+        });
+        const meter: OvsdbMeterLike = {
+            createHistogram: instrument,
+            createCounter: instrument,
+            createUpDownCounter: instrument
+        };
+        const client = new OVSDBClient<TestSchema>({
+            timeout: 100,
+            instrumentation: {tracer, meter},
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const transactPromise = client.transact("Open_vSwitch", [
+            {op: "insert", table: "Bridge", row: {name: "br-int"}},
+            {op: "commit", durable: false}
+        ]);
+        respondTo(socket, 0, [{uuid: ["uuid", "00000000-0000-0000-0000-000000000001"]}, {error: "constraint violation"}]);
+        await transactPromise;
+
+        socket.sendMessage({method: "locked", params: ["leader"], id: null});
+        socket.sendRaw("not-json\n");
+
+        expect(spans).toEqual([
+            {
+                name: "ovsdb transact",
+                attributes: {
+                    "rpc.system": "ovsdb",
+                    "rpc.method": "transact",
+                    "db.name": "Open_vSwitch",
+                    "ovsdb.transact.operation_count": 2,
+                    "error.type": "constraint violation"
+                },
+                status: {code: 2, message: "constraint violation"},
+                ended: true
+            }
+        ]);
+        expect(measurements.map(([name, value]) => [name, name === "ovsdb.client.request.duration" ? "ms" : value])).toEqual([
+            ["ovsdb.client.requests.in_flight", 1],
+            ["ovsdb.client.requests.in_flight", -1],
+            ["ovsdb.client.request.duration", "ms"],
+            ["ovsdb.client.notifications", 1],
+            ["ovsdb.client.protocol_errors", 1]
+        ]);
+        expect(measurements[2][2]).toMatchObject({"rpc.method": "transact", "error.type": "constraint violation"});
+        expect(measurements[3][2]).toEqual({"rpc.method": "locked"});
+    });
+
     test("wraps server-side RPC errors", async () => {
         const socket = new MockSocket();
         const client = new OVSDBClient({
@@ -352,6 +876,69 @@ describe("OVSDBClient", () => {
         await expect(client.listDbs()).rejects.toThrow("Request timeout for method: list_dbs");
     });
 
+    test("applies per-call timeouts", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 1000,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        await expect(client.getSchema("Open_vSwitch", {timeout: 5})).rejects.toThrow("Request timeout for method: get_schema");
+        await expect(client.echoWithOptions(["ping"], {timeout: 5})).rejects.toThrow("Request timeout for method: echo");
+        expect(JSON.parse(socket.writes[1])).toMatchObject({method: "echo", params: ["ping"]});
+    });
+
+    test("rejects aborted calls and cancels the outstanding request", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient<TestSchema>({
+            timeout: 1000,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const controller = new AbortController();
+        const monitorPromise = client.monitorCond("Open_vSwitch", "bridges", {Bridge: {}}, {signal: controller.signal});
+        const request = JSON.parse(socket.writes[0]);
+
+        controller.abort(new Error("upstream request aborted"));
+
+        await expect(monitorPromise).rejects.toThrow("upstream request aborted");
+        await waitFor(() => socket.writes.length === 2);
+        expect(JSON.parse(socket.writes[1])).toEqual({
+            method: "cancel",
+            params: [request.id]
+        });
+
+        const protocolErrorListener = vi.fn();
+        client.on("protocolError", protocolErrorListener);
+        socket.sendMessage({id: request.id, error: {error: "canceled"}});
+        expect(protocolErrorListener).not.toHaveBeenCalled();
+    });
+
+    test("does not send requests with an already aborted signal", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient<TestSchema>({
+            timeout: 1000,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        await expect(client.transaction("Open_vSwitch", (transaction) => {
+            transaction.comment("never sent");
+        }, {signal: AbortSignal.abort()})).rejects.toThrow();
+        expect(socket.writes).toHaveLength(0);
+    });
+
     test("stages operations and auto-commits when the callback succeeds", async () => {
         const socket = new MockSocket();
         const client = new OVSDBClient<TestSchema>({
@@ -562,4 +1149,345 @@ describe("OVSDBClient", () => {
         await expect(connectPromise).resolves.toBe(client);
         expect(client.isConnected).toBe(true);
     });
+
+    test("reconnects and restores monitors and locks after the connection drops", async () => {
+        const sockets: MockSocket[] = [];
+        const client = new OVSDBClient<TestSchema>({
+            timeout: 100,
+            reconnect: {
+                initialDelay: 1,
+                jitter: 0
+            },
+            connectionFactory: createAutoConnectFactory(sockets)
+        });
+
+        await client.connect();
+
+        const monitorPromise = client.monitorCondSince("Open_vSwitch", "bridges", {
+            Bridge: {columns: ["name"]}
+        });
+        respondTo(sockets[0], 0, [false, "txn-1", {}]);
+        const subscription = await monitorPromise;
+        expect(subscription.found).toBe(false);
+        const restored = vi.fn();
+        subscription.on("restored", restored);
+
+        const lockPromise = client.lock("leader");
+        respondTo(sockets[0], 1, {locked: true});
+        await lockPromise;
+
+        sockets[0].sendMessage({
+            method: "update3",
+            params: ["bridges", "txn-2", {}],
+            id: null
+        });
+
+        const reconnecting = vi.fn();
+        const reconnected = vi.fn<(restore: OvsdbSessionRestore<TestSchema>) => void>();
+        client.on("reconnecting", reconnecting);
+        client.on("reconnected", reconnected);
+
+        sockets[0].closeNow();
+        expect(client.isConnected).toBe(false);
+
+        await waitFor(() => sockets[1]?.writes.length === 1);
+        const monitorRequest = respondTo(sockets[1], 0, [true, "txn-2", {}]);
+        expect(monitorRequest.method).toBe("monitor_cond_since");
+        expect(monitorRequest.params).toEqual(["Open_vSwitch", "bridges", {Bridge: {columns: ["name"]}}, "txn-2"]);
+
+        await waitFor(() => sockets[1].writes.length === 2);
+        const lockRequest = respondTo(sockets[1], 1, {locked: false});
+        expect(lockRequest.method).toBe("lock");
+        expect(lockRequest.params).toEqual(["leader"]);
+
+        await waitFor(() => reconnected.mock.calls.length === 1);
+        expect(reconnecting).toHaveBeenCalledWith(1, 1);
+        expect(reconnected.mock.calls[0]?.[0]).toEqual({
+            attempt: 1,
+            monitors: [
+                {
+                    method: "monitor_cond_since",
+                    monitorId: "bridges",
+                    dbName: "Open_vSwitch",
+                    result: [true, "txn-2", {}]
+                }
+            ],
+            locks: [{lockId: "leader", locked: false}]
+        });
+        expect(restored).toHaveBeenCalledWith({});
+        expect(subscription.found).toBe(true);
+        expect(subscription.lastTransactionId).toBe("txn-2");
+        expect(client.isConnected).toBe(true);
+
+        await client.close();
+    });
+
+    test("changes monitor conditions and restores the new conditions after a reconnect", async () => {
+        const sockets: MockSocket[] = [];
+        const client = new OVSDBClient<TestSchema>({
+            timeout: 100,
+            reconnect: {
+                initialDelay: 1,
+                jitter: 0
+            },
+            connectionFactory: createAutoConnectFactory(sockets)
+        });
+
+        await client.connect();
+
+        const monitorPromise = client.monitorCondSince("Open_vSwitch", "bridges", {
+            Bridge: {columns: ["name"], where: [["name", "==", "br-int"]]}
+        });
+        respondTo(sockets[0], 0, [false, "txn-1", {}]);
+        const subscription = await monitorPromise;
+
+        const changePromise = client.monitorCondChange("bridges", "bridges-2", {
+            Bridge: {where: [["name", "==", "br-ex"]]}
+        });
+        const changeRequest = respondTo(sockets[0], 1, {});
+        await expect(changePromise).resolves.toEqual({});
+        expect(changeRequest.method).toBe("monitor_cond_change");
+        expect(changeRequest.params).toEqual(["bridges", "bridges-2", {Bridge: [{where: [["name", "==", "br-ex"]]}]}]);
+        expect(subscription.monitorId).toBe("bridges-2");
+
+        sockets[0].closeNow();
+        await waitFor(() => sockets[1]?.writes.length === 1);
+        const monitorRequest = respondTo(sockets[1], 0, [true, "txn-1", {}]);
+        expect(monitorRequest.params).toEqual([
+            "Open_vSwitch",
+            "bridges-2",
+            {Bridge: {columns: ["name"], where: [["name", "==", "br-ex"]]}},
+            "txn-1"
+        ]);
+
+        await client.close();
+    });
+
+    test("rejects condition changes for plain monitors", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient<TestSchema>({
+            timeout: 100,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const monitorPromise = client.monitor("Open_vSwitch", "bridges", {Bridge: {columns: ["name"]}});
+        respondTo(socket, 0, {});
+        await monitorPromise;
+
+        await expect(client.monitorCondChange("bridges", "bridges", {
+            Bridge: {where: [["name", "==", "br-ex"]]}
+        })).rejects.toThrow('Monitor "bridges" was started with monitor, which does not support monitor_cond_change');
+        expect(socket.writes).toHaveLength(1);
+
+        await client.close();
+    });
+
+    test("stops reconnecting after close and gives up after max attempts", async () => {
+        let attempts = 0;
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            reconnect: {
+                initialDelay: 1,
+                maxAttempts: 2
+            },
+            connectionFactory: () => {
+                attempts += 1;
+                if (attempts > 1) {
+                    throw new Error("connection refused");
+                }
+                return socket;
+            }
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const reconnectFailed = vi.fn();
+        client.on("reconnectFailed", reconnectFailed);
+        socket.closeNow();
+
+        await waitFor(() => reconnectFailed.mock.calls.length === 1);
+        expect(attempts).toBe(3);
+
+        await client.close();
+        expect(client.isConnected).toBe(false);
+    });
+
+    test("does not reconnect after an explicit close", async () => {
+        const sockets: MockSocket[] = [];
+        const client = new OVSDBClient({
+            timeout: 100,
+            reconnect: {initialDelay: 1},
+            connectionFactory: createAutoConnectFactory(sockets)
+        });
+
+        await client.connect();
+        const reconnecting = vi.fn();
+        client.on("reconnecting", reconnecting);
+        await client.close();
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(reconnecting).not.toHaveBeenCalled();
+        expect(sockets).toHaveLength(1);
+    });
+
+    test("probes idle connections with echo and drops them when the probe goes unanswered", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            probeInterval: 5,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const inactivityTimeout = vi.fn();
+        const close = vi.fn();
+        client.on("inactivityTimeout", inactivityTimeout);
+        client.on("close", close);
+
+        await waitFor(() => socket.writes.length === 1);
+        expect(JSON.parse(socket.writes[0])).toMatchObject({method: "echo", params: []});
+
+        await waitFor(() => inactivityTimeout.mock.calls.length === 1);
+        expect(inactivityTimeout).toHaveBeenCalledWith(5);
+        expect(close).toHaveBeenCalledTimes(1);
+        expect(client.isConnected).toBe(false);
+    });
+
+    test("keeps probed connections open while the server answers", async () => {
+        const socket = new MockSocket();
+        const client = new OVSDBClient({
+            timeout: 100,
+            probeInterval: 5,
+            connectionFactory: createConnectionFactory(socket)
+        });
+
+        const connectPromise = client.connect();
+        socket.connectNow();
+        await connectPromise;
+
+        const inactivityTimeout = vi.fn();
+        client.on("inactivityTimeout", inactivityTimeout);
+
+        await waitFor(() => socket.writes.length === 1);
+        respondTo(socket, 0, []);
+        await waitFor(() => socket.writes.length === 2);
+
+        expect(inactivityTimeout).not.toHaveBeenCalled();
+        expect(client.isConnected).toBe(true);
+        await client.close();
+    });
+
+    test("tracks the cluster status of the connected server", async () => {
+        const sockets: MockSocket[] = [];
+        const client = new OVSDBClient({
+            timeout: 100,
+            cluster: {database: "OVN_Northbound"},
+            connectionFactory: createAutoConnectFactory(sockets)
+        });
+
+        const connectPromise = client.connect();
+        await waitFor(() => sockets[0]?.writes.length === 1);
+        const request = respondTo(sockets[0], 0, {
+            Database: {
+                row1: {new: serverDatabaseRow()},
+                row2: {new: serverDatabaseRow({name: "_Server", model: "standalone", index: ["set", []]})}
+            }
+        });
+        await connectPromise;
+
+        expect(request.method).toBe("monitor");
+        expect((request.params as unknown[])[0]).toBe("_Server");
+        expect(client.clusterStatus).toEqual({
+            database: "OVN_Northbound",
+            model: "clustered",
+            connected: true,
+            leader: true,
+            index: 42,
+            cid: "00000000-0000-0000-0000-0000000000c1",
+            sid: "00000000-0000-0000-0000-0000000000s1"
+        });
+        await client.close();
+    });
+
+    test("rotates to another remote when the server is not the leader", async () => {
+        const sockets: MockSocket[] = [];
+        const client = new OVSDBClient({
+            timeout: 100,
+            remote: "tcp:10.0.0.1:6641,tcp:10.0.0.2:6641",
+            cluster: {database: "OVN_Northbound"},
+            connectionFactory: createAutoConnectFactory(sockets)
+        });
+
+        const connectPromise = client.connect();
+        await waitFor(() => sockets[0]?.writes.length === 1);
+        respondTo(sockets[0], 0, {Database: {row1: {new: serverDatabaseRow({leader: false})}}});
+        await waitFor(() => sockets[1]?.writes.length === 1);
+        respondTo(sockets[1], 0, {Database: {row1: {new: serverDatabaseRow()}}});
+        await connectPromise;
+
+        expect(client.remote).toEqual({transport: "tcp", host: "10.0.0.2", port: 6641});
+        expect(client.clusterStatus?.leader).toBe(true);
+        await client.close();
+    });
+
+    test("rejects connect on a stale follower when configured to", async () => {
+        const sockets: MockSocket[] = [];
+        const client = new OVSDBClient({
+            timeout: 100,
+            remote: "tcp:10.0.0.1:6641,tcp:10.0.0.2:6641",
+            cluster: {
+                database: "OVN_Northbound",
+                leaderOnly: false,
+                onNotLeader: "reject"
+            },
+            connectionFactory: createAutoConnectFactory(sockets)
+        });
+
+        const connectPromise = client.connect();
+        await waitFor(() => sockets[0]?.writes.length === 1);
+        respondTo(sockets[0], 0, {Database: {row1: {new: serverDatabaseRow({leader: false, connected: false})}}});
+
+        await expect(connectPromise).rejects.toBeInstanceOf(OvsdbClusterError);
+        expect(sockets).toHaveLength(1);
+        expect(client.isConnected).toBe(false);
+    });
+
+    test("drops the connection when the server loses leadership", async () => {
+        const sockets: MockSocket[] = [];
+        const client = new OVSDBClient({
+            timeout: 100,
+            cluster: {database: "OVN_Northbound"},
+            connectionFactory: createAutoConnectFactory(sockets)
+        });
+
+        const connectPromise = client.connect();
+        await waitFor(() => sockets[0]?.writes.length === 1);
+        respondTo(sockets[0], 0, {Database: {row1: {new: serverDatabaseRow()}}});
+        await connectPromise;
+
+        const clusterStatus = vi.fn();
+        const update = vi.fn();
+        client.on("clusterStatus", clusterStatus);
+        client.on("update", update);
+
+        sockets[0].sendMessage({
+            method: "update",
+            params: ["node-ovsdb:_Server", {Database: {row1: {old: {leader: true}, new: serverDatabaseRow({leader: false})}}}],
+            id: null
+        });
+
+        expect(clusterStatus.mock.calls[0]?.[0]).toMatchObject({leader: false});
+        expect(update).not.toHaveBeenCalled();
+        expect(client.isConnected).toBe(false);
+    });
 });
@@ -0,0 +1,165 @@
+import {describe, expect, test} from "vitest";
+
+import {
+    decodeRow,
+    decodeTableUpdates,
+    decodeValue,
+    encodeConditions,
+    encodeMutations,
+    encodeRow,
+    encodeValue,
+    OVSDBClient,
+    OvsdbCodecError,
+    OvsdbMemoryServer
+} from "../src";
+import type {DatabaseSchema, DecodedTableUpdates, Update2Notification} from "../src";
+
+const PORT_A = "2f2b1c3e-7a4d-4e4a-9f0e-1d2c3b4a5f60";
+const PORT_B = "9b8a7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d";
+
+const schema: DatabaseSchema = {
+    name: "Open_vSwitch",
+    version: "8.3.1",
+    tables: {
+        Bridge: {
+            columns: {
+                name: {type: "string"},
+                ports: {type: {key: {type: "uuid", refTable: "Port"}, min: 0, max: "unlimited"}},
+                datapath_type: {type: {key: "string", min: 0, max: 1}},
+                stp_enable: {type: "boolean"},
+                external_ids: {type: {key: "string", value: "string", min: 0, max: "unlimited"}}
+            }
+        },
+        Port: {
+            columns: {
+                name: {type: "string"},
+                tag: {type: {key: {type: "integer", minInteger: 0, maxInteger: 4095}, min: 0, max: 1}}
+            }
+        }
+    }
+};
+
+describe("value codecs", () => {
+    test("decodes sets, maps, UUIDs, and optional columns", () => {
+        const ports = schema.tables.Bridge.columns.ports.type;
+        expect(decodeValue(["uuid", PORT_A], ports)).toEqual(new Set([PORT_A]));
+        expect(decodeValue(["set", [["uuid", PORT_A], ["uuid", PORT_B]]], ports)).toEqual(new Set([PORT_A, PORT_B]));
+        expect(decodeValue(["set", []], ports)).toEqual(new Set());
+
+        expect(decodeRow(schema, "Bridge", {
+            _uuid: ["uuid", PORT_B],
+            name: "br0",
+            datapath_type: ["set", []],
+            stp_enable: false,
+            external_ids: ["map", [["owner", "ops"]]]
+        })).toEqual({
+            _uuid: PORT_B,
+            name: "br0",
+            datapath_type: undefined,
+            stp_enable: false,
+            external_ids: new Map([["owner", "ops"]])
+        });
+        expect(decodeRow(schema, "Bridge", {datapath_type: "netdev"})).toEqual({datapath_type: "netdev"});
+
+        expect(() => decodeRow(schema, "Bridge", {name: 5})).toThrow(OvsdbCodecError);
+        expect(() => decodeRow(schema, "Bridge", {name: 5})).toThrow("Column Bridge.name: 5 is not a valid string");
+        expect(() => decodeRow(schema, "Mirror", {})).toThrow("Table Mirror: does not exist in database Open_vSwitch");
+    });
+
+    test("encodes rows, conditions, and mutations", () => {
+        expect(encodeRow(schema, "Bridge", {
+            name: "br0",
+            ports: new Set([PORT_A, "newPort"]),
+            datapath_type: undefined,
+            external_ids: new Map([["owner", "ops"]])
+        })).toEqual({
+            name: "br0",
+            ports: ["set", [["uuid", PORT_A], ["named-uuid", "newPort"]]],
+            datapath_type: ["set", []],
+            external_ids: ["map", [["owner", "ops"]]]
+        });
+        expect(encodeValue(["a", "b"], {key: "string", min: 0, max: "unlimited"})).toEqual(["set", ["a", "b"]]);
+
+        expect(encodeConditions(schema, "Bridge", [
+            ["ports", "includes", new Set([PORT_A])],
+            ["datapath_type", "==", undefined],
+            true
+        ])).toEqual([
+            ["ports", "includes", ["set", [["uuid", PORT_A]]]],
+            ["datapath_type", "==", ["set", []]],
+            true
+        ]);
+
+        expect(encodeMutations(schema, "Bridge", [
+            ["ports", "insert", new Set([PORT_B])],
+            ["external_ids", "delete", new Set(["owner"])]
+        ])).toEqual([
+            ["ports", "insert", ["set", [["uuid", PORT_B]]]],
+            ["external_ids", "delete", ["set", ["owner"]]]
+        ]);
+        expect(encodeMutations(schema, "Port", [["tag", "+=", 1]])).toEqual([["tag", "+=", 1]]);
+
+        expect(() => encodeRow(schema, "Bridge", {name: undefined})).toThrow("Column Bridge.name: a value is required");
+        expect(() => encodeRow(schema, "Bridge", {stp_enable: new Map()})).toThrow("a Map is only valid for map columns");
+        expect(() => encodeMutations(schema, "Port", [["tag", "+=", "1"]])).toThrow('"1" is not a valid integer');
+    });
+
+    test("decodes update2 diffs element-wise", () => {
+        expect(decodeTableUpdates(schema, {
+            Bridge: {
+                [PORT_B]: {
+                    modify: {
+                        name: "br1",
+                        ports: ["uuid", PORT_A],
+                        datapath_type: ["set", ["netdev", "system"]],
+                        external_ids: ["map", [["owner", "dev"]]]
+                    }
+                }
+            },
+            Unknown: {[PORT_A]: {delete: null}}
+        })).toEqual({
+            Bridge: {
+                [PORT_B]: {
+                    modify: {
+                        name: "br1",
+                        ports: new Set([PORT_A]),
+                        datapath_type: new Set(["netdev", "system"]),
+                        external_ids: new Map([["owner", "dev"]])
+                    }
+                }
+            }
+        });
+    });
+});
+
+describe("OVSDBClient decodeValues option", () => {
+    test("decodes transact results, monitor responses, and notifications", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = new OVSDBClient({
+            decodeValues: true,
+            connectionFactory: () => server.createConnection()
+        });
+        await client.connect();
+
+        const [port] = await client.transact("Open_vSwitch", [
+            {op: "insert", table: "Port", row: {name: "eth0", tag: 10}}
+        ]);
+        const portUuid = (port as unknown as {uuid: string}).uuid;
+        expect(portUuid).toMatch(/^[0-9a-f-]{36}$/u);
+
+        const {initial} = await client.monitorCond("Open_vSwitch", "ports", {Port: {columns: ["name", "tag"]}});
+        expect(initial as DecodedTableUpdates).toEqual({Port: {[portUuid]: {initial: {name: "eth0", tag: 10}}}});
+
+        const update = new Promise<Update2Notification>((resolve) => client.once("update2", resolve));
+        await client.transact("Open_vSwitch", [
+            {op: "mutate", table: "Port", where: [], mutations: encodeMutations(schema, "Port", [["tag", "+=", 1]])}
+        ]);
+        const notification = await update;
+        expect(notification.params).toEqual(["ports", {Port: {[portUuid]: {modify: {tag: ["set", [10, 11]]}}}}]);
+        expect(notification.decoded).toEqual({Port: {[portUuid]: {modify: {tag: new Set([10, 11])}}}});
+
+        await expect(client.transact("Open_vSwitch", [
+            {op: "select", table: "Port", where: [], columns: ["_uuid", "name", "tag"]}
+        ])).resolves.toEqual([{rows: [{_uuid: portUuid, name: "eth0", tag: 11}]}]);
+    });
+});
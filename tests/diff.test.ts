@@ -0,0 +1,109 @@
+import {describe, expect, expectTypeOf, test} from "vitest";
+
+import {applyColumnDiff, applyMapDiff, applyOptionalDiff, applyRowUpdate2, applyScalarDiff, applySetDiff} from "../src";
+import type {OvsMap, OvsSet, RowUpdate2, TableSchema, Uuid} from "../src";
+
+const bridge: TableSchema = {
+    columns: {
+        name: {type: "string"},
+        stp_priority: {type: "integer"},
+        datapath_type: {type: {key: "string", min: 0, max: 1}},
+        ports: {type: {key: {type: "uuid", refTable: "Port"}, min: 0, max: "unlimited"}},
+        external_ids: {type: {key: "string", value: "string", min: 0, max: "unlimited"}}
+    }
+};
+
+type BridgeRow = {
+    name: string;
+    stp_priority: number;
+    datapath_type: OvsSet<string> | string;
+    ports: OvsSet<Uuid> | Uuid;
+    external_ids: OvsMap<string, string>;
+};
+
+const PORT_A: Uuid = ["uuid", "2f2b1c3e-7a4d-4e4a-9f0e-1d2c3b4a5f60"];
+const PORT_B: Uuid = ["uuid", "7d1e0c9b-3a2f-4c5d-8e6f-0a1b2c3d4e5f"];
+
+describe("update2 diff helpers", () => {
+    test("replace scalar columns", () => {
+        expect(applyScalarDiff(100, 7)).toBe(7);
+        expect(applyColumnDiff("string", "br-int", "br-ex")).toBe("br-ex");
+    });
+
+    test("toggle set elements, including bare atoms", () => {
+        expect(applySetDiff(["set", [1, 2, 3]], ["set", [2, 4]])).toEqual(["set", [1, 3, 4]]);
+        expect(applySetDiff(["set", []], 5)).toEqual(["set", [5]]);
+        expect(applySetDiff(5, 5)).toEqual(["set", []]);
+        expect(applySetDiff<Uuid>(PORT_A, ["set", [PORT_A, PORT_B]])).toEqual(["set", [PORT_B]]);
+        expectTypeOf(applySetDiff<number>(["set", [1]], 2)).toEqualTypeOf<OvsSet<number>>();
+    });
+
+    test("set, clear, and replace optional columns", () => {
+        expect(applyOptionalDiff(["set", []], "netdev")).toEqual(["set", ["netdev"]]);
+        expect(applyOptionalDiff("netdev", "netdev")).toEqual(["set", []]);
+        expect(applyOptionalDiff("system", ["set", ["system", "netdev"]])).toEqual(["set", ["netdev"]]);
+        expect(() => applyOptionalDiff("system", "netdev")).toThrow('Diff "netdev" leaves 2 values in an optional column');
+        expect(applyColumnDiff({key: "string", min: 0, max: 1}, undefined, "netdev")).toEqual(["set", ["netdev"]]);
+    });
+
+    test("add, remove, and replace map keys", () => {
+        expect(applyMapDiff(
+            ["map", [["owner", "ops"], ["zone", "a"], ["rack", "1"]]],
+            ["map", [["zone", "a"], ["owner", "dev"], ["site", "ams"]]]
+        )).toEqual(["map", [["owner", "dev"], ["rack", "1"], ["site", "ams"]]]);
+        expectTypeOf(applyMapDiff<string, number>(["map", []], ["map", [["a", 1]]])).toEqualTypeOf<OvsMap<string, number>>();
+    });
+});
+
+describe("applyRowUpdate2", () => {
+    test("fills defaults of inserted rows and applies modify diffs", () => {
+        const inserted = applyRowUpdate2<BridgeRow>(bridge, undefined, {insert: {name: "br-int", ports: PORT_A}});
+        expect(inserted).toEqual({
+            name: "br-int",
+            stp_priority: 0,
+            datapath_type: ["set", []],
+            ports: PORT_A,
+            external_ids: ["map", []]
+        });
+
+        const modified = applyRowUpdate2<BridgeRow>(bridge, inserted, {
+            modify: {
+                stp_priority: 7,
+                datapath_type: "netdev",
+                ports: ["set", [PORT_A, PORT_B]],
+                external_ids: ["map", [["owner", "ops"]]]
+            }
+        });
+        expect(modified).toEqual({
+            name: "br-int",
+            stp_priority: 7,
+            datapath_type: ["set", ["netdev"]],
+            ports: ["set", [PORT_B]],
+            external_ids: ["map", [["owner", "ops"]]]
+        });
+        expect(inserted?.stp_priority).toBe(0);
+
+        expect(applyRowUpdate2(bridge, modified, {delete: {}})).toBeNull();
+    });
+
+    test("applies optional column diffs to a bare atom or a missing column", () => {
+        expect(applyRowUpdate2<BridgeRow>(bridge, {name: "br-int", datapath_type: "system"}, {modify: {datapath_type: "system"}}))
+            .toEqual({name: "br-int", datapath_type: ["set", []]});
+        expect(applyRowUpdate2<BridgeRow>(bridge, {name: "br-int"}, {modify: {datapath_type: "netdev"}}))
+            .toEqual({name: "br-int", datapath_type: ["set", ["netdev"]]});
+    });
+
+    test("limits default filling to the monitored columns", () => {
+        expect(applyRowUpdate2(bridge, null, {initial: {name: "br-int"}}, {columns: ["name", "ports"]}))
+            .toEqual({name: "br-int", ports: ["set", []]});
+    });
+
+    test("rejects modify updates it cannot apply", () => {
+        expect(() => applyRowUpdate2(bridge, null, {modify: {stp_priority: 1}}))
+            .toThrow("Cannot apply a modify update without the previous row");
+        expect(() => applyRowUpdate2(bridge, {name: "br-int"}, {modify: {mtu: 1500}} as RowUpdate2))
+            .toThrow("Column mtu does not exist");
+        expect(() => applyRowUpdate2<BridgeRow>(bridge, {datapath_type: "system"}, {modify: {datapath_type: "netdev"}}))
+            .toThrow('Diff "netdev" leaves 2 values in an optional column');
+    });
+});
@@ -0,0 +1,105 @@
+import type {Duplex} from "node:stream";
+
+import {describe, expect, test} from "vitest";
+
+import {OVSDBClient, OvsdbLeaderElection, OvsdbMemoryServer} from "../src";
+import type {DatabaseSchema, OvsdbDeposeReason} from "../src";
+
+type TestDatabase = {
+    Bridge: {
+        name: string;
+    };
+};
+
+const schema: DatabaseSchema = {
+    name: "Open_vSwitch",
+    version: "8.3.1",
+    tables: {
+        Bridge: {
+            columns: {
+                name: {type: "string"}
+            },
+            isRoot: true
+        }
+    }
+};
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+    const deadline = Date.now() + 1000;
+    while (!condition() && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    expect(condition()).toBe(true);
+};
+
+const connect = async (server: OvsdbMemoryServer): Promise<OVSDBClient<TestDatabase>> => {
+    const client = new OVSDBClient<TestDatabase>({connectionFactory: () => server.createConnection()});
+    await client.connect();
+    return client;
+};
+
+const record = (election: OvsdbLeaderElection<TestDatabase>): string[] => {
+    const events: string[] = [];
+    election.on("elected", () => events.push("elected"));
+    election.on("deposed", (reason: OvsdbDeposeReason) => events.push(`deposed:${reason}`));
+    return events;
+};
+
+describe("OvsdbLeaderElection", () => {
+    test("hands leadership over on release and steal", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using first = await connect(server);
+        await using second = await connect(server);
+        await using third = await connect(server);
+
+        const leader = new OvsdbLeaderElection(first, "leader");
+        const follower = new OvsdbLeaderElection(second, "leader");
+        const leaderEvents = record(leader);
+        const followerEvents = record(follower);
+
+        await leader.start();
+        await follower.start();
+        expect(leader.isLeader).toBe(true);
+        expect(follower.isLeader).toBe(false);
+        await expect(follower.transaction("Open_vSwitch", () => undefined)).rejects.toThrow("Not the leader for lock leader");
+
+        const {operations} = await leader.transaction("Open_vSwitch", (transaction) => {
+            transaction.insert({op: "insert", table: "Bridge", row: {name: "br-int"}});
+        });
+        expect(operations.map((operation) => operation.op)).toEqual(["assert", "insert", "commit"]);
+
+        await leader.close();
+        await waitFor(() => follower.isLeader);
+        expect(leaderEvents).toEqual(["elected", "deposed:released"]);
+
+        await using thief = await new OvsdbLeaderElection(third, "leader", {steal: true}).start();
+        expect(thief.isLeader).toBe(true);
+        await waitFor(() => !follower.isLeader);
+        expect(followerEvents).toEqual(["elected", "deposed:stolen"]);
+
+        await thief.close();
+        await waitFor(() => follower.isLeader);
+        await follower.close();
+    });
+
+    test("is deposed on disconnect and elected again after reconnecting", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        let connection: Duplex | null = null;
+        await using client = new OVSDBClient<TestDatabase>({
+            reconnect: {initialDelay: 1, jitter: 0},
+            connectionFactory: () => {
+                connection = server.createConnection();
+                return connection;
+            }
+        });
+        await client.connect();
+
+        await using election = await new OvsdbLeaderElection(client, "leader").start();
+        const events = record(election);
+
+        connection!.destroy();
+        await waitFor(() => events.length === 2);
+        expect(events).toEqual(["deposed:disconnected", "elected"]);
+        expect(election.isLeader).toBe(true);
+    });
+});
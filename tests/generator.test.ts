@@ -41,6 +41,7 @@ const schema: DatabaseSchema = {
         Interface: {
             columns: {
                 name: {type: "string"},
+                ofport: {type: {key: "integer", min: 0, max: 1}},
                 options: {
                     type: {
                         key: "string",
@@ -64,6 +65,11 @@ describe("generateTypesFromSchema", () => {
         expect(output).toContain("options?: OvsMap<string, string>;");
         expect(output).toContain("export interface OpenVSwitchDatabase");
     });
+
+    test("types integer columns as bigint when requested", () => {
+        expect(generateTypesFromSchema({schema})).toContain("ofport?: OvsSet<number>;");
+        expect(generateTypesFromSchema({schema, bigint: true})).toContain("ofport?: OvsSet<number | bigint>;");
+    });
 });
 
 describe("runCli", () => {
@@ -109,6 +115,22 @@ describe("createGeneratorClientOptions", () => {
         });
     });
 
+    test("passes remote strings through with shared tls options", async () => {
+        await expect(createGeneratorClientOptions({
+            remote: "ssl:10.0.0.1:6641,ssl:10.0.0.2:6641",
+            tlsServername: "ovn-nb"
+        })).resolves.toEqual({
+            remote: "ssl:10.0.0.1:6641,ssl:10.0.0.2:6641",
+            tlsOptions: {
+                servername: "ovn-nb",
+                rejectUnauthorized: undefined,
+                ca: undefined,
+                cert: undefined,
+                key: undefined
+            }
+        });
+    });
+
     test("builds tls options with file-backed certificates", async () => {
         const directory = await mkdtemp(join(tmpdir(), "ovsdb-generate-tls-"));
         const caPath = join(directory, "ca.pem");
@@ -0,0 +1,41 @@
+import {describe, expect, test} from "vitest";
+
+import {parseJson, stringifyJson} from "../src";
+
+describe("parseJson", () => {
+    test("parses unsafe integers as bigint only when asked", () => {
+        const text = '{"datapath_id":18446744073709551615,"rx":-9007199254740993,"ofport":1,"ratio":12345678901234567.5}';
+
+        expect(parseJson(text)).toEqual({
+            datapath_id: 18446744073709551615,
+            rx: -9007199254740992,
+            ofport: 1,
+            ratio: 12345678901234567.5
+        });
+        expect(parseJson(text, {bigint: true})).toEqual({
+            datapath_id: 18446744073709551615n,
+            rx: -9007199254740993n,
+            ofport: 1,
+            ratio: 12345678901234567.5
+        });
+        expect(parseJson('["9007199254740991",[true,false,null],{"a\\"b":"\\u00e9"}]', {bigint: true})).toEqual([
+            "9007199254740991",
+            [true, false, null],
+            {"a\"b": "é"}
+        ]);
+    });
+
+    test("rejects malformed input", () => {
+        expect(() => parseJson('{"id":12345678901234567890,}', {bigint: true})).toThrow(SyntaxError);
+        expect(() => parseJson("[12345678901234567890] x", {bigint: true})).toThrow("Unexpected token \"x\" in JSON at position 23");
+        expect(() => parseJson("[12345678901234567890", {bigint: true})).toThrow("Unexpected end in JSON");
+    });
+});
+
+describe("stringifyJson", () => {
+    test("writes bigint values as integer literals", () => {
+        expect(stringifyJson({id: 1, params: ["Open_vSwitch", {row: {datapath_id: 18446744073709551615n, name: "br0"}}]}))
+            .toBe('{"id":1,"params":["Open_vSwitch",{"row":{"datapath_id":18446744073709551615,"name":"br0"}}]}');
+        expect(stringifyJson(["set", [1n, 2.5, null, "x"]])).toBe('["set",[1,2.5,null,"x"]]');
+    });
+});
@@ -0,0 +1,73 @@
+import {connect, type AddressInfo, type Socket} from "node:net";
+
+import {describe, expect, test} from "vitest";
+
+import {OvsdbPassiveListener, parsePassiveRemote, type OVSDBClient} from "../src";
+
+const dial = async (port: number): Promise<Socket> => {
+    return await new Promise((resolve, reject) => {
+        const socket = connect(port, "127.0.0.1", () => resolve(socket));
+        socket.once("error", reject);
+    });
+};
+
+const readLine = async (socket: Socket): Promise<Record<string, unknown>> => {
+    return await new Promise((resolve) => {
+        socket.once("data", (chunk) => resolve(JSON.parse(chunk.toString("utf8"))));
+    });
+};
+
+describe("parsePassiveRemote", () => {
+    test("parses ptcp, pssl, and punix remotes", () => {
+        expect(parsePassiveRemote("ptcp:6641")).toEqual({transport: "tcp", port: 6641});
+        expect(parsePassiveRemote("ptcp:6641:10.0.0.5")).toEqual({transport: "tcp", port: 6641, host: "10.0.0.5"});
+        expect(parsePassiveRemote("pssl::[::1]")).toEqual({transport: "tls", port: 6640, host: "::1"});
+        expect(parsePassiveRemote("punix:/run/controller.sock")).toEqual({
+            transport: "unix",
+            socketPath: "/run/controller.sock"
+        });
+    });
+
+    test("rejects active and malformed remotes", () => {
+        expect(() => parsePassiveRemote("tcp:10.0.0.1:6640")).toThrow("Unsupported passive OVSDB remote");
+        expect(() => parsePassiveRemote("ptcp:port")).toThrow("Invalid passive OVSDB remote");
+    });
+});
+
+describe("OvsdbPassiveListener", () => {
+    test("hands out a connected client per inbound connection", async () => {
+        const listener = new OvsdbPassiveListener({
+            remote: "ptcp:0:127.0.0.1",
+            clientOptions: {timeout: 1000}
+        });
+        await listener.listen();
+
+        try {
+            const {port} = listener.address as AddressInfo;
+            const connection = new Promise<OVSDBClient>((resolve) => listener.once("connection", resolve));
+            const server = await dial(port);
+            const client = await connection;
+
+            expect(client.isConnected).toBe(true);
+            expect(listener.clients.size).toBe(1);
+
+            const requestLine = readLine(server);
+            const listDbs = client.listDbs();
+            const request = await requestLine;
+            expect(request.method).toBe("list_dbs");
+            server.write(`${JSON.stringify({id: request.id, error: null, result: ["Open_vSwitch"]})}\n`);
+            await expect(listDbs).resolves.toEqual(["Open_vSwitch"]);
+
+            const closed = new Promise<void>((resolve) => client.once("close", () => resolve()));
+            server.destroy();
+            await closed;
+            expect(listener.clients.size).toBe(0);
+        } finally {
+            await listener.close();
+        }
+    });
+
+    test("requires tls options for pssl remotes", () => {
+        expect(() => new OvsdbPassiveListener({remote: "pssl:6640"})).toThrow("TLS options are required");
+    });
+});
@@ -0,0 +1,313 @@
+import {readFileSync} from "node:fs";
+import {join} from "node:path";
+
+import {afterEach, describe, expect, test} from "vitest";
+
+import {OVSDBClient, OvsdbMemoryServer, OvsdbRpcError} from "../src";
+import type {DatabaseSchema, OvsdbNotification} from "../src";
+
+const openvswitchSchema = JSON.parse(
+    readFileSync(join(__dirname, "fixtures", "openvswitch.schema.json"), "utf8")
+) as DatabaseSchema;
+
+const networkSchema: DatabaseSchema = {
+    name: "Network",
+    version: "1.0.0",
+    tables: {
+        Switch: {
+            isRoot: true,
+            maxRows: 2,
+            indexes: [["name"]],
+            columns: {
+                name: {type: "string"},
+                ports: {type: {key: {type: "uuid", refTable: "Port"}, min: 0, max: "unlimited"}},
+                uplink: {type: {key: {type: "uuid", refTable: "Port", refType: "weak"}, min: 0, max: 1}},
+                mtu: {type: {key: {type: "integer", minInteger: 68, maxInteger: 9000}, min: 0, max: 1}}
+            }
+        },
+        Port: {
+            columns: {
+                name: {type: "string", mutable: false},
+                tags: {type: {key: "integer", min: 0, max: 4}},
+                options: {type: {key: "string", value: "string", min: 0, max: "unlimited"}}
+            }
+        }
+    }
+};
+
+const servers: OvsdbMemoryServer[] = [];
+const clients: OVSDBClient[] = [];
+
+const connect = async (server: OvsdbMemoryServer): Promise<OVSDBClient> => {
+    const client = new OVSDBClient({
+        timeout: 1000,
+        connectionFactory: () => server.createConnection()
+    });
+    clients.push(client);
+    await client.connect();
+    return client;
+};
+
+const createServer = (...schemas: DatabaseSchema[]): OvsdbMemoryServer => {
+    const server = new OvsdbMemoryServer({schemas});
+    servers.push(server);
+    return server;
+};
+
+const nextNotification = async (client: OVSDBClient): Promise<OvsdbNotification> => {
+    return await new Promise((resolve) => client.once("notification", resolve));
+};
+
+afterEach(async () => {
+    await Promise.all(clients.splice(0).map(async (client) => await client.close()));
+    await Promise.all(servers.splice(0).map(async (server) => await server.close()));
+});
+
+describe("OvsdbMemoryServer", () => {
+    test("serves list_dbs, get_schema, and echo", async () => {
+        const client = await connect(createServer(openvswitchSchema, networkSchema));
+
+        await expect(client.listDbs()).resolves.toEqual(["Open_vSwitch", "Network"]);
+        await expect(client.getSchema("Open_vSwitch")).resolves.toEqual(openvswitchSchema);
+        await expect(client.echo("ping")).resolves.toEqual(["ping"]);
+        await expect(client.getSchema("Nope")).rejects.toThrow(OvsdbRpcError);
+    });
+
+    test("inserts, selects, updates, mutates, and deletes rows", async () => {
+        const client = await connect(createServer(openvswitchSchema));
+
+        const [insert] = await client.transact("Open_vSwitch", [
+            {op: "insert", table: "Bridge", row: {name: "br-int", datapath_type: "netdev"}}
+        ]);
+        expect(insert).toEqual({uuid: ["uuid", expect.any(String)]});
+
+        const results = await client.transact("Open_vSwitch", [
+            {op: "update", table: "Bridge", where: [["name", "==", "br-int"]], row: {datapath_type: "system"}},
+            {op: "insert", table: "Interface", row: {name: "eth0", options: ["map", [["mtu", "1500"]]]}},
+            {
+                op: "mutate",
+                table: "Interface",
+                where: [["name", "==", "eth0"]],
+                mutations: [["options", "insert", ["map", [["mtu", "9000"], ["speed", "10G"]]]]]
+            },
+            {op: "select", table: "Bridge", where: [], columns: ["name", "datapath_type"]},
+            {op: "select", table: "Interface", where: [["options", "includes", ["map", [["speed", "10G"]]]]], columns: ["options"]},
+            {op: "delete", table: "Bridge", where: [["name", "!=", "br-ex"]]}
+        ]);
+
+        expect(results).toEqual([
+            {count: 1},
+            {uuid: ["uuid", expect.any(String)]},
+            {count: 1},
+            {rows: [{name: "br-int", datapath_type: "system"}]},
+            {rows: [{options: ["map", [["mtu", "1500"], ["speed", "10G"]]]}]},
+            {count: 1}
+        ]);
+    });
+
+    test("reports operation errors and rolls the transaction back", async () => {
+        const client = await connect(createServer(openvswitchSchema));
+
+        const results = await client.transact("Open_vSwitch", [
+            {op: "insert", table: "Bridge", row: {name: "br-int"}},
+            {op: "insert", table: "Bridge", row: {datapath_type: "dpdk"}},
+            {op: "insert", table: "Bridge", row: {name: "br-ex"}}
+        ]);
+
+        expect(results).toEqual([
+            {uuid: ["uuid", expect.any(String)]},
+            {error: "constraint violation", details: expect.stringContaining("datapath_type")},
+            null
+        ]);
+        await expect(client.transact("Open_vSwitch", [
+            {op: "select", table: "Bridge", where: []},
+            {op: "abort"}
+        ])).resolves.toEqual([{rows: []}, {error: "aborted", details: "aborted by request"}]);
+    });
+
+    test("enforces referential integrity and collects orphaned rows", async () => {
+        const server = createServer(networkSchema);
+        const client = await connect(server);
+
+        const [, , switchRow] = await client.transact("Network", [
+            {op: "insert", table: "Port", uuidName: "p1", row: {name: "p1"}},
+            {op: "insert", table: "Port", uuidName: "p2", row: {name: "p2"}},
+            {
+                op: "insert",
+                table: "Switch",
+                row: {
+                    name: "sw0",
+                    ports: ["set", [["named-uuid", "p1"], ["named-uuid", "p2"]]],
+                    uplink: ["named-uuid", "p2"]
+                }
+            },
+            // Never referenced, so it is garbage collected at commit.
+            {op: "insert", table: "Port", row: {name: "orphan"}}
+        ]);
+        expect(switchRow).toEqual({uuid: ["uuid", expect.any(String)]});
+
+        const [p1] = await client.transact("Network", [
+            {op: "select", table: "Port", where: [["name", "==", "p1"]], columns: ["_uuid"]}
+        ]);
+        const p1Uuid = (p1 as {rows: Array<{_uuid: unknown}>}).rows[0]._uuid;
+
+        await expect(client.transact("Network", [
+            {op: "delete", table: "Port", where: [["name", "==", "p1"]]}
+        ])).resolves.toEqual([
+            {count: 1},
+            {error: "referential integrity violation", details: expect.stringContaining("references nonexistent row")}
+        ]);
+
+        await client.transact("Network", [
+            {op: "mutate", table: "Switch", where: [], mutations: [["ports", "delete", p1Uuid as ["uuid", string]]]}
+        ]);
+        await expect(client.transact("Network", [
+            {op: "select", table: "Port", where: [], columns: ["name"]}
+        ])).resolves.toEqual([{rows: [{name: "p2"}]}]);
+        await client.transact("Network", [
+            {op: "update", table: "Switch", where: [], row: {ports: ["set", []]}}
+        ]);
+
+        await expect(client.transact("Network", [
+            {op: "select", table: "Port", where: [], columns: ["name"]},
+            {op: "select", table: "Switch", where: [], columns: ["ports", "uplink"]}
+        ])).resolves.toEqual([
+            {rows: []},
+            // The weak reference to p2 was removed when p2 was collected.
+            {rows: [{ports: ["set", []], uplink: ["set", []]}]}
+        ]);
+    });
+
+    test("enforces mutation, maxRows, index, and immutability constraints", async () => {
+        const client = await connect(createServer(networkSchema));
+
+        await client.transact("Network", [
+            {op: "insert", table: "Switch", row: {name: "sw0", mtu: 1500}},
+            {op: "insert", table: "Switch", row: {name: "sw1"}}
+        ]);
+
+        await expect(client.transact("Network", [
+            {op: "mutate", table: "Switch", where: [["name", "==", "sw0"]], mutations: [["mtu", "*=", 10]]}
+        ])).resolves.toEqual([{error: "constraint violation", details: expect.stringContaining("range 68 to 9000")}]);
+        await expect(client.transact("Network", [
+            {op: "mutate", table: "Switch", where: [["name", "==", "sw0"]], mutations: [["mtu", "/=", 0]]}
+        ])).resolves.toEqual([{error: "domain error", details: "Division by zero"}]);
+        await expect(client.transact("Network", [
+            {op: "mutate", table: "Switch", where: [["mtu", ">=", 1500]], mutations: [["mtu", "+=", 500]]},
+            {op: "select", table: "Switch", where: [["mtu", "<", 9000]], columns: ["name", "mtu"]}
+        ])).resolves.toEqual([{count: 1}, {rows: [{name: "sw0", mtu: 2000}]}]);
+        await expect(client.transact("Network", [
+            {op: "insert", table: "Switch", row: {name: "sw2"}}
+        ])).resolves.toEqual([{uuid: expect.any(Array)}, {error: "constraint violation", details: expect.stringContaining("limit of 2")}]);
+        await expect(client.transact("Network", [
+            {op: "update", table: "Switch", where: [["name", "==", "sw1"]], row: {name: "sw0"}}
+        ])).resolves.toEqual([{count: 1}, {error: "constraint violation", details: expect.stringContaining("index on columns name")}]);
+        await expect(client.transact("Network", [
+            {op: "insert", table: "Port", uuidName: "p", row: {name: "p", tags: ["set", [1, 2, 3, 4]]}},
+            {op: "mutate", table: "Port", where: [], mutations: [["tags", "insert", 5]]}
+        ])).resolves.toEqual([
+            {uuid: expect.any(Array)},
+            {error: "constraint violation", details: expect.stringContaining("between 0 and 4 elements")},
+        ]);
+        await expect(client.transact("Network", [
+            {op: "update", table: "Port", where: [], row: {name: "renamed"}}
+        ])).resolves.toEqual([{error: "constraint violation", details: expect.stringContaining("immutable column name")}]);
+    });
+
+    test("blocks wait operations until they are satisfied or time out", async () => {
+        const server = createServer(openvswitchSchema);
+        const waiter = await connect(server);
+        const writer = await connect(server);
+
+        const waiting = waiter.transact("Open_vSwitch", [
+            {op: "wait", table: "Bridge", where: [], columns: ["name"], until: "==", rows: [{name: "br-int"}], timeout: 5000},
+            {op: "insert", table: "Interface", row: {name: "eth0"}}
+        ]);
+        await writer.transact("Open_vSwitch", [{op: "insert", table: "Bridge", row: {name: "br-int"}}]);
+
+        await expect(waiting).resolves.toEqual([{}, {uuid: expect.any(Array)}]);
+        await expect(waiter.transact("Open_vSwitch", [
+            {op: "wait", table: "Bridge", where: [], columns: ["name"], until: "!=", rows: [{name: "br-int"}], timeout: 0}
+        ])).resolves.toEqual([{error: "timed out", details: expect.any(String)}]);
+        await expect(waiter.transact("Open_vSwitch", [
+            {op: "wait", table: "Bridge", where: [], columns: ["name"], until: "!=", rows: [{name: "br-int"}], timeout: 20}
+        ])).resolves.toEqual([{error: "timed out", details: expect.any(String)}]);
+    });
+
+    test("cancels blocked transactions on request", async () => {
+        const client = await connect(createServer(openvswitchSchema));
+        const controller = new AbortController();
+
+        const waiting = client.transact("Open_vSwitch", [
+            {op: "wait", table: "Bridge", where: [], columns: ["name"], until: "==", rows: [{name: "br-int"}]}
+        ], {signal: controller.signal});
+        controller.abort(new Error("gave up"));
+
+        await expect(waiting).rejects.toThrow("gave up");
+        await expect(client.echo("still alive")).resolves.toEqual(["still alive"]);
+    });
+
+    test("streams monitor, monitor_cond, and monitor_cond_since updates", async () => {
+        const server = createServer(openvswitchSchema);
+        const client = await connect(server);
+        await client.transact("Open_vSwitch", [{op: "insert", table: "Bridge", row: {name: "br-int"}}]);
+
+        const {initial} = await client.monitor("Open_vSwitch", "plain", {Bridge: {columns: ["name", "datapath_type"]}});
+        expect(Object.values(initial.Bridge ?? {})).toEqual([{new: {name: "br-int", datapath_type: ["set", []]}}]);
+
+        const conditional = await client.monitorCond("Open_vSwitch", "cond", {
+            Bridge: {columns: ["name", "datapath_type"], where: [["name", "==", "br-ex"]]}
+        });
+        expect(conditional.initial).toEqual({});
+
+        const since = await client.monitorCondSince("Open_vSwitch", "since", {Bridge: {columns: ["name"]}});
+        expect(since.found).toBe(false);
+        const sinceTransactionId = since.lastTransactionId;
+        expect(Object.values(since.initial.Bridge ?? {})).toEqual([{initial: {name: "br-int"}}]);
+
+        const notifications: OvsdbNotification[] = [];
+        client.on("notification", (notification) => notifications.push(notification));
+        const last = nextNotification(client);
+        await client.transact("Open_vSwitch", [
+            {op: "update", table: "Bridge", where: [["name", "==", "br-int"]], row: {name: "br-ex", datapath_type: "netdev"}}
+        ]);
+        await last;
+
+        expect(notifications.map(({method}) => method).sort()).toEqual(["update", "update2", "update3"]);
+        const [uuid] = Object.keys(initial.Bridge ?? {});
+        expect(notifications.find(({method}) => method === "update")?.params[1]).toEqual({
+            Bridge: {[uuid]: {old: {name: "br-int", datapath_type: ["set", []]}, new: {name: "br-ex", datapath_type: "netdev"}}}
+        });
+        // The row starts matching the condition, so it is reported as an insert.
+        expect(notifications.find(({method}) => method === "update2")?.params[1]).toEqual({
+            Bridge: {[uuid]: {insert: {name: "br-ex", datapath_type: "netdev"}}}
+        });
+        const update3 = notifications.find(({method}) => method === "update3");
+        expect(update3?.params[2]).toEqual({Bridge: {[uuid]: {modify: {name: "br-ex"}}}});
+
+        const resumed = await client.monitorCondSince("Open_vSwitch", "resumed", {Bridge: {columns: ["name"]}}, sinceTransactionId);
+        expect(resumed.found).toBe(true);
+        expect(resumed.lastTransactionId).toBe(update3?.params[1]);
+        expect(resumed.initial).toEqual({Bridge: {[uuid]: {modify: {name: "br-ex"}}}});
+    });
+
+    test("hands locks over in request order and reports steals", async () => {
+        const server = createServer(openvswitchSchema);
+        const first = await connect(server);
+        const second = await connect(server);
+
+        await expect(first.lock("leader")).resolves.toEqual({locked: true});
+        await expect(second.lock("leader")).resolves.toEqual({locked: false});
+        await expect(second.transact("Open_vSwitch", [{op: "assert", lock: "leader"}]))
+            .resolves.toEqual([{error: "not owner", details: expect.any(String)}]);
+
+        const locked = new Promise((resolve) => second.once("locked", (notification) => resolve(notification.params[0])));
+        await first.unlock("leader");
+        await expect(locked).resolves.toEqual("leader");
+        await expect(second.transact("Open_vSwitch", [{op: "assert", lock: "leader"}])).resolves.toEqual([{}]);
+
+        const stolen = new Promise((resolve) => second.once("stolen", (notification) => resolve(notification.params[0])));
+        await expect(first.steal("leader")).resolves.toEqual({locked: true});
+        await expect(stolen).resolves.toEqual("leader");
+    });
+});
@@ -0,0 +1,98 @@
+import {describe, expect, expectTypeOf, test} from "vitest";
+
+import {OVSDBClient, OvsdbMemoryServer, OvsdbTransaction} from "../src";
+import type {DatabaseSchema, OperationResult, OvsMap, OvsSet, SelectResult, Uuid} from "../src";
+
+type TestDatabase = {
+    Bridge: {
+        name: string;
+        ports: OvsSet<Uuid>;
+        stp_priority: number;
+        datapath_type?: OvsSet<"netdev" | "system">;
+        external_ids: OvsMap<string, string>;
+    };
+};
+
+const schema: DatabaseSchema = {
+    name: "Open_vSwitch",
+    version: "8.3.1",
+    tables: {
+        Bridge: {
+            columns: {
+                name: {type: "string"},
+                ports: {type: {key: {type: "uuid", refTable: "Bridge", refType: "weak"}, min: 0, max: "unlimited"}},
+                stp_priority: {type: "integer"},
+                datapath_type: {type: {key: "string", min: 0, max: 1}},
+                external_ids: {type: {key: "string", value: "string", min: 0, max: "unlimited"}}
+            },
+            isRoot: true
+        }
+    }
+};
+
+const PORT: Uuid = ["uuid", "2f2b1c3e-7a4d-4e4a-9f0e-1d2c3b4a5f60"];
+
+describe("OvsdbTransaction.from", () => {
+    test("builds and stages operations with chained conditions", () => {
+        const transaction = new OvsdbTransaction<TestDatabase>();
+
+        const select = transaction.from("Bridge")
+            .where((c) => c.eq("name", "br-int").includes("ports", PORT))
+            .where((c) => c.ge("stp_priority", 100).excludes("datapath_type", "netdev"))
+            .select(["name", "ports"]);
+        transaction.from("Bridge").where((c) => c.ne("_uuid", PORT)).update({stp_priority: 1});
+        transaction.from("Bridge").mutate([["external_ids", "insert", ["map", [["owner", "ops"]]]]]);
+        transaction.from("Bridge").where((c) => c.lt("stp_priority", 10)).delete();
+
+        expect(transaction.operations).toEqual([
+            {
+                op: "select",
+                table: "Bridge",
+                where: [
+                    ["name", "==", "br-int"],
+                    ["ports", "includes", PORT],
+                    ["stp_priority", ">=", 100],
+                    ["datapath_type", "excludes", "netdev"]
+                ],
+                columns: ["name", "ports"]
+            },
+            {op: "update", table: "Bridge", where: [["_uuid", "!=", PORT]], row: {stp_priority: 1}},
+            {op: "mutate", table: "Bridge", where: [], mutations: [["external_ids", "insert", ["map", [["owner", "ops"]]]]]},
+            {op: "delete", table: "Bridge", where: [["stp_priority", "<", 10]]}
+        ]);
+        expect(transaction.operations[0]).toBe(select);
+
+        expectTypeOf<OperationResult<TestDatabase, typeof select>>()
+            .toEqualTypeOf<SelectResult<{name: string; ports: OvsSet<Uuid>}>>();
+    });
+
+    test("rejects condition functions the column type does not support", () => {
+        const transaction = new OvsdbTransaction<TestDatabase>();
+        transaction.from("Bridge").where((c) => {
+            // @ts-expect-error string columns cannot be ordered
+            c.lt("name", "br");
+            // @ts-expect-error optional columns are sets, not scalars
+            c.gt("datapath_type", "netdev");
+            // @ts-expect-error unknown column
+            c.eq("nmae", "br-int");
+            // @ts-expect-error a set element is only accepted by includes and excludes
+            c.eq("ports", PORT);
+        });
+    });
+
+    test("runs built queries against a server", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = new OVSDBClient<TestDatabase>({connectionFactory: () => server.createConnection()});
+        await client.connect();
+
+        await client.transaction("Open_vSwitch", (transaction) => {
+            transaction.insert({op: "insert", table: "Bridge", row: {name: "br-int", stp_priority: 200}});
+            transaction.insert({op: "insert", table: "Bridge", row: {name: "br-ex", stp_priority: 50}});
+        });
+
+        const {results} = await client.transaction("Open_vSwitch", (transaction) => {
+            transaction.from("Bridge").where((c) => c.gt("stp_priority", 100)).select(["name"]);
+        });
+        expect(results[0]).toEqual({rows: [{name: "br-int"}]});
+    });
+});
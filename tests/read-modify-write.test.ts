@@ -0,0 +1,122 @@
+import {describe, expect, test} from "vitest";
+
+import {OVSDBClient, OvsdbConflictError, OvsdbMemoryServer, OvsdbTransactionError} from "../src";
+import type {DatabaseSchema, Uuid} from "../src";
+
+type TestDatabase = {
+    Bridge: {
+        name: string;
+        stp_priority: number;
+    };
+};
+
+const schema: DatabaseSchema = {
+    name: "Open_vSwitch",
+    version: "8.3.1",
+    tables: {
+        Bridge: {
+            columns: {
+                name: {type: "string"},
+                stp_priority: {type: "integer"}
+            },
+            isRoot: true
+        }
+    }
+};
+
+const connect = async (server: OvsdbMemoryServer): Promise<OVSDBClient<TestDatabase>> => {
+    const client = new OVSDBClient<TestDatabase>({connectionFactory: () => server.createConnection()});
+    await client.connect();
+    return client;
+};
+
+const bump = async (server: OvsdbMemoryServer, uuid: Uuid): Promise<void> => {
+    await server.database("Open_vSwitch")!.transact([
+        {op: "mutate", table: "Bridge", where: [["_uuid", "==", uuid]], mutations: [["stp_priority", "+=", 100]]}
+    ]);
+};
+
+describe("OVSDBClient.readModifyWrite", () => {
+    test("guards the rows read and retries with fresh data after a conflict", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = await connect(server);
+        const uuid: Uuid = await client.table("Bridge").insert({name: "br-int", stp_priority: 1});
+
+        const seen: number[] = [];
+        const outcome = await client.readModifyWrite("Open_vSwitch", async (transaction) => {
+            const [bridge] = await transaction.read("Bridge", (c) => c.eq("name", "br-int"), ["stp_priority"]);
+            seen.push(bridge.stp_priority);
+            if (seen.length === 1) {
+                await bump(server, uuid);
+            }
+            transaction.from("Bridge").where((c) => c.eq("_uuid", bridge._uuid)).update({stp_priority: bridge.stp_priority + 1});
+            return bridge.stp_priority + 1;
+        }, {retry: {initialDelay: 1}});
+
+        expect(seen).toEqual([1, 101]);
+        expect(outcome.value).toBe(102);
+        expect(outcome.attempts).toBe(2);
+        expect(outcome.operations[0]).toEqual({
+            op: "wait",
+            table: "Bridge",
+            where: [["name", "==", "br-int"]],
+            columns: ["_uuid", "stp_priority"],
+            until: "==",
+            rows: [{_uuid: uuid, stp_priority: 101}],
+            timeout: 0
+        });
+        await expect(client.table("Bridge").getByUuid(uuid)).resolves.toMatchObject({stp_priority: 102});
+    });
+
+    test("fails with a conflict error after the last attempt", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = await connect(server);
+        const uuid: Uuid = await client.table("Bridge").insert({name: "br-int", stp_priority: 1});
+
+        let attempts = 0;
+        const error = await client.readModifyWrite("Open_vSwitch", async (transaction) => {
+            attempts += 1;
+            await transaction.read("Bridge");
+            await bump(server, uuid);
+            transaction.from("Bridge").update({stp_priority: 0});
+        }, {retry: {maxAttempts: 3, initialDelay: 1}}).catch((reason: unknown) => reason);
+
+        expect(attempts).toBe(3);
+        expect(error).toBeInstanceOf(OvsdbConflictError);
+        expect((error as OvsdbConflictError).attempts).toBe(3);
+        expect((error as OvsdbConflictError).cause.result.error).toBe("timed out");
+        await expect(client.table("Bridge").getByUuid(uuid)).resolves.toMatchObject({stp_priority: 301});
+    });
+
+    test("stops waiting for the next attempt when the signal aborts", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = await connect(server);
+        const uuid: Uuid = await client.table("Bridge").insert({name: "br-int", stp_priority: 1});
+
+        const controller = new AbortController();
+        let attempts = 0;
+        const outcome = client.readModifyWrite("Open_vSwitch", async (transaction) => {
+            attempts += 1;
+            await transaction.read("Bridge");
+            await bump(server, uuid);
+            transaction.from("Bridge").update({stp_priority: 0});
+        }, {retry: {initialDelay: 60_000, maxDelay: 60_000, jitter: 0}, signal: controller.signal});
+        setTimeout(() => controller.abort(new Error("shutting down")), 20);
+
+        await expect(outcome).rejects.toThrow("shutting down");
+        expect(attempts).toBe(1);
+    });
+
+    test("does not retry other operation errors", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = await connect(server);
+        await client.table("Bridge").insert({name: "br-int", stp_priority: 1});
+
+        let attempts = 0;
+        await expect(client.readModifyWrite("Open_vSwitch", (transaction) => {
+            attempts += 1;
+            transaction.wait({op: "wait", table: "Bridge", where: [], columns: ["name"], until: "!=", rows: [{name: "br-int"}], timeout: 0});
+        })).rejects.toBeInstanceOf(OvsdbTransactionError);
+        expect(attempts).toBe(1);
+    });
+});
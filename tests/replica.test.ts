@@ -0,0 +1,133 @@
+import type {Duplex} from "node:stream";
+
+import {describe, expect, test, vi} from "vitest";
+
+import {OVSDBClient, OvsdbMemoryServer, OvsdbReplica} from "../src";
+import type {DatabaseSchema, OvsMap, OvsSet, Uuid} from "../src";
+
+type TestDatabase = {
+    Bridge: {
+        name: string;
+        flood_vlans: OvsSet<number>;
+        datapath_type?: OvsSet<string> | string;
+        external_ids: OvsMap<string, string>;
+    };
+};
+
+const schema: DatabaseSchema = {
+    name: "Open_vSwitch",
+    version: "8.3.1",
+    tables: {
+        Bridge: {
+            columns: {
+                name: {type: "string", mutable: false},
+                flood_vlans: {type: {key: {type: "integer", minInteger: 0, maxInteger: 4095}, min: 0, max: 4096}},
+                datapath_type: {type: {key: "string", min: 0, max: 1}},
+                external_ids: {type: {key: "string", value: "string", min: 0, max: "unlimited"}}
+            },
+            indexes: [["name"]],
+            isRoot: true
+        }
+    }
+};
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+    const deadline = Date.now() + 1000;
+    while (!condition() && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    expect(condition()).toBe(true);
+};
+
+describe("OvsdbReplica", () => {
+    test("applies the snapshot and later inserts, modifies, and deletes", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = new OVSDBClient<TestDatabase>({connectionFactory: () => server.createConnection()});
+        await client.connect();
+        const bridges = client.table("Bridge");
+        const first = await bridges.insert({name: "br-int", flood_vlans: ["set", [10, 20]]});
+
+        await using replica = await new OvsdbReplica(client, {tables: {Bridge: {}}}).start();
+        expect(replica.get("Bridge", first)).toEqual({
+            _uuid: first,
+            name: "br-int",
+            flood_vlans: ["set", [10, 20]],
+            datapath_type: ["set", []],
+            external_ids: ["map", []]
+        });
+        const snapshotTransaction = replica.lastTransactionId;
+        expect(snapshotTransaction).toEqual(expect.any(String));
+
+        const updates = vi.fn();
+        replica.on("update", updates);
+        const second = await bridges.insert({name: "br-ex", external_ids: ["map", [["owner", "ops"], ["zone", "a"]]]});
+        await waitFor(() => updates.mock.calls.length === 1);
+        expect(replica.findByIndex("Bridge", {name: "br-ex"})?._uuid).toEqual(second);
+
+        await bridges.mutateSet(first, "flood_vlans", {delete: [10], insert: [30]});
+        await bridges.mutateMap(second, "external_ids", {set: [["owner", "dev"]], delete: ["zone"]});
+        await bridges.patch(first, {datapath_type: "netdev"});
+        await waitFor(() => updates.mock.calls.length === 4);
+        expect(replica.get("Bridge", first)).toMatchObject({flood_vlans: ["set", [20, 30]], datapath_type: ["set", ["netdev"]]});
+        expect(replica.get("Bridge", second)?.external_ids).toEqual(["map", [["owner", "dev"]]]);
+
+        await bridges.remove(first);
+        await waitFor(() => updates.mock.calls.length === 5);
+        expect(replica.get("Bridge", first)).toBeUndefined();
+        expect(replica.findByIndex("Bridge", {name: "br-int"})).toBeUndefined();
+        expect(replica.rows("Bridge").map((row) => row.name)).toEqual(["br-ex"]);
+        expect(replica.lastTransactionId).not.toBe(snapshotTransaction);
+
+        expect(() => replica.findByIndex("Bridge", {flood_vlans: ["set", []]})).toThrow(
+            "Columns flood_vlans do not form a replicated index of table Bridge"
+        );
+    });
+
+    test("refuses to start on a client that decodes values", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = new OVSDBClient<TestDatabase>({
+            decodeValues: true,
+            connectionFactory: () => server.createConnection()
+        });
+        await client.connect();
+
+        const replica = new OvsdbReplica(client, {tables: {Bridge: {}}});
+        await expect(replica.start()).rejects.toThrow("The replica needs wire values; create the client without decodeValues");
+        expect(client.listenerCount("update3")).toBe(0);
+    });
+
+    test("resumes from the last transaction id after a reconnect", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        let connection: Duplex | null = null;
+        await using client = new OVSDBClient<TestDatabase>({
+            reconnect: {initialDelay: 1, jitter: 0},
+            connectionFactory: () => {
+                connection = server.createConnection();
+                return connection;
+            }
+        });
+        await client.connect();
+        const bridges = client.table("Bridge");
+        const uuid: Uuid = await bridges.insert({name: "br-int"});
+
+        await using replica = await new OvsdbReplica(client, {tables: {Bridge: {columns: ["name", "flood_vlans"]}}}).start();
+        const resync = vi.fn();
+        const updates = vi.fn();
+        replica.on("resync", resync);
+        replica.on("update", updates);
+
+        const reconnected = vi.fn();
+        client.on("reconnected", reconnected);
+        connection!.destroy();
+        await waitFor(() => !client.isConnected);
+
+        await server.database("Open_vSwitch")!.transact([
+            {op: "mutate", table: "Bridge", where: [["_uuid", "==", uuid]], mutations: [["flood_vlans", "insert", ["set", [5]]]]}
+        ]);
+        await waitFor(() => reconnected.mock.calls.length === 1);
+
+        expect(resync).not.toHaveBeenCalled();
+        expect(updates).toHaveBeenCalledTimes(1);
+        expect(replica.get("Bridge", uuid)).toEqual({_uuid: uuid, name: "br-int", flood_vlans: ["set", [5]]});
+    });
+});
@@ -0,0 +1,106 @@
+import {describe, expect, test} from "vitest";
+
+import {OVSDBClient, OvsdbMemoryServer, OvsdbTransactionError} from "../src";
+import type {DatabaseSchema, OvsMap, OvsSet, Uuid} from "../src";
+
+type TestDatabase = {
+    Bridge: {
+        name: string;
+        flood_vlans: OvsSet<number>;
+        external_ids: OvsMap<string, string>;
+    };
+};
+
+const schema: DatabaseSchema = {
+    name: "Open_vSwitch",
+    version: "8.3.1",
+    tables: {
+        Bridge: {
+            columns: {
+                name: {type: "string", mutable: false},
+                flood_vlans: {type: {key: {type: "integer", minInteger: 0, maxInteger: 4095}, min: 0, max: 4096}},
+                external_ids: {type: {key: "string", value: "string", min: 0, max: "unlimited"}}
+            },
+            indexes: [["name"]],
+            isRoot: true
+        }
+    }
+};
+
+const connect = async (server: OvsdbMemoryServer, requests: string[] = []): Promise<OVSDBClient<TestDatabase>> => {
+    const client = new OVSDBClient<TestDatabase>({
+        connectionFactory: () => server.createConnection(),
+        trace: {
+            tracer: (event) => {
+                if (event.direction === "outbound" && event.method) {
+                    requests.push(event.method);
+                }
+            }
+        }
+    });
+    await client.connect();
+    return client;
+};
+
+describe("OVSDBClient.table", () => {
+    test("reads and writes rows with one transact per call", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        const requests: string[] = [];
+        await using client = await connect(server, requests);
+        const bridges = client.table("Bridge");
+
+        const uuid = await bridges.insert({name: "br-int", external_ids: ["map", [["owner", "ops"]]]});
+        expect(uuid).toEqual(["uuid", expect.any(String)]);
+        await bridges.insert({name: "br-ex"});
+
+        await expect(bridges.findOne({name: "br-int"})).resolves.toMatchObject({_uuid: uuid, name: "br-int"});
+        await expect(bridges.findOne({name: "br-missing"})).resolves.toBeNull();
+        await expect(bridges.getByUuid(uuid[1])).resolves.toMatchObject({name: "br-int"});
+        expect((await bridges.findAll()).map((row) => row.name).sort()).toEqual(["br-ex", "br-int"]);
+        expect((await bridges.findAll((c) => c.ne("name", "br-int"))).map((row) => row.name)).toEqual(["br-ex"]);
+
+        await expect(bridges.mutateSet(uuid, "flood_vlans", {insert: [10, 20]})).resolves.toBe(1);
+        await expect(bridges.mutateSet(uuid, "flood_vlans", {delete: [10], insert: [30]})).resolves.toBe(1);
+        await expect(bridges.mutateMap(uuid, "external_ids", {set: [["owner", "dev"], ["zone", "a"]]})).resolves.toBe(1);
+        await expect(bridges.mutateMap(uuid, "external_ids", {delete: ["zone"]})).resolves.toBe(1);
+        await expect(bridges.getByUuid(uuid)).resolves.toMatchObject({
+            flood_vlans: ["set", [20, 30]],
+            external_ids: ["map", [["owner", "dev"]]]
+        });
+
+        await expect(bridges.patch(uuid, {flood_vlans: ["set", []]})).resolves.toBe(1);
+        await expect(bridges.remove(uuid)).resolves.toBe(1);
+        await expect(bridges.remove(uuid)).resolves.toBe(0);
+
+        expect(requests.filter((method) => method === "transact")).toHaveLength(15);
+        expect(requests.filter((method) => method === "get_schema")).toHaveLength(1);
+    });
+
+    test("returns wire UUIDs from inserts when the client decodes values", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = new OVSDBClient<TestDatabase>({
+            decodeValues: true,
+            connectionFactory: () => server.createConnection()
+        });
+        await client.connect();
+        const bridges = client.table("Bridge");
+
+        const uuid: Uuid = await bridges.insert({name: "br-int"});
+        expect(uuid).toEqual(["uuid", expect.stringMatching(/^[0-9a-f-]{36}$/u)]);
+        await expect(bridges.remove(uuid)).resolves.toBe(1);
+    });
+
+    test("rejects non-index lookups and failed operations", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = await connect(server);
+        const bridges = client.table("Bridge");
+        const uuid: Uuid = await bridges.insert({name: "br-int"});
+
+        await expect(bridges.findOne({flood_vlans: ["set", [1]]})).rejects.toThrow(
+            "Columns flood_vlans do not form an index of table Bridge"
+        );
+        await expect(bridges.findOne({_uuid: uuid})).resolves.toMatchObject({name: "br-int"});
+        await expect(bridges.patch(uuid, {name: "br-ex"})).rejects.toBeInstanceOf(OvsdbTransactionError);
+        await expect(bridges.insert({name: "br-int"})).rejects.toThrow(OvsdbTransactionError);
+    });
+});
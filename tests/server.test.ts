@@ -0,0 +1,142 @@
+import {mkdtemp} from "node:fs/promises";
+import {tmpdir} from "node:os";
+import {join} from "node:path";
+import type {AddressInfo} from "node:net";
+
+import {describe, expect, test} from "vitest";
+
+import {OVSDBClient, OvsdbMemoryStorage, OvsdbRpcError, OvsdbServer} from "../src";
+import type {
+    DatabaseOperation,
+    DatabaseSchema,
+    JsonValue,
+    OvsdbStorageBackend,
+    OvsdbStorageContext,
+    OvsdbStorageMonitorRequest,
+    OvsdbStorageUpdateListener,
+    Update2Notification
+} from "../src";
+
+const schema: DatabaseSchema = {
+    name: "Inventory",
+    version: "1.0.0",
+    tables: {
+        Host: {
+            columns: {
+                name: {type: "string"}
+            }
+        }
+    }
+};
+
+class RecordingStorage implements OvsdbStorageBackend {
+    public readonly transactions: DatabaseOperation[][] = [];
+    public listener: OvsdbStorageUpdateListener | null = null;
+    public monitorRequest: OvsdbStorageMonitorRequest | null = null;
+
+    public listDatabases(): string[] {
+        return ["Inventory"];
+    }
+
+    public getSchema(database: string): DatabaseSchema | null {
+        return database === "Inventory" ? schema : null;
+    }
+
+    public async transact(_database: string, operations: DatabaseOperation[], context: OvsdbStorageContext): Promise<JsonValue[]> {
+        this.transactions.push(operations);
+        if (operations.some((operation) => operation.op === "assert" && !context.hasLock(operation.lock))) {
+            return [{error: "not owner"}];
+        }
+        if (operations.some((operation) => operation.op === "abort")) {
+            throw new OvsdbRpcError({error: "not supported", details: "abort is not supported"});
+        }
+        return operations.map(() => ({}));
+    }
+
+    public monitor(_database: string, request: OvsdbStorageMonitorRequest, listener: OvsdbStorageUpdateListener) {
+        this.monitorRequest = request;
+        this.listener = listener;
+        return {
+            result: {Host: {"8a2f7c2e-8f38-4d8d-9a5c-2f3b0d5d1c11": {initial: {name: "db-1"}}}},
+            cancel: () => {
+                this.listener = null;
+            }
+        };
+    }
+}
+
+describe("OvsdbServer", () => {
+    test("dispatches requests to a custom storage backend over TCP", async () => {
+        const storage = new RecordingStorage();
+        await using server = await new OvsdbServer({storage, remote: "ptcp:0:127.0.0.1"}).listen();
+        const {port} = server.address as AddressInfo;
+        await using client = new OVSDBClient({remote: `tcp:127.0.0.1:${port}`, timeout: 1000});
+        await client.connect();
+
+        await expect(client.listDbs()).resolves.toEqual(["Inventory"]);
+        await expect(client.getSchema("Inventory")).resolves.toEqual(schema);
+        await expect(client.getSchema("Other")).rejects.toMatchObject({
+            response: {error: "unknown database"}
+        });
+        await expect(client.echo("ping")).resolves.toEqual(["ping"]);
+
+        await expect(client.transact("Inventory", [{op: "comment", comment: "hello"}])).resolves.toEqual([{}]);
+        expect(storage.transactions).toEqual([[{op: "comment", comment: "hello"}]]);
+        await expect(client.transact("Inventory", [{op: "abort"}])).rejects.toThrow("not supported: abort is not supported");
+
+        const {initial} = await client.monitorCond("Inventory", "hosts", {Host: {columns: ["name"]}});
+        expect(initial).toEqual({Host: {"8a2f7c2e-8f38-4d8d-9a5c-2f3b0d5d1c11": {initial: {name: "db-1"}}}});
+        expect(storage.monitorRequest).toEqual({
+            method: "monitor_cond",
+            requests: {Host: {columns: ["name"]}},
+            lastTransactionId: null
+        });
+
+        const update = new Promise<Update2Notification>((resolve) => client.once("update2", resolve));
+        storage.listener?.({Host: {"8a2f7c2e-8f38-4d8d-9a5c-2f3b0d5d1c11": {delete: {}}}}, "txn-1");
+        await expect(update).resolves.toEqual({
+            method: "update2",
+            params: ["hosts", {Host: {"8a2f7c2e-8f38-4d8d-9a5c-2f3b0d5d1c11": {delete: {}}}}],
+            id: null
+        });
+
+        await client.monitorCancel("hosts");
+        expect(storage.listener).toBeNull();
+    });
+
+    test("tracks locks per connection", async () => {
+        const storage = new RecordingStorage();
+        await using server = await new OvsdbServer({storage, remote: "ptcp:0:127.0.0.1"}).listen();
+        const {port} = server.address as AddressInfo;
+        await using first = new OVSDBClient({remote: `tcp:127.0.0.1:${port}`, timeout: 1000});
+        await using second = new OVSDBClient({remote: `tcp:127.0.0.1:${port}`, timeout: 1000});
+        await first.connect();
+        await second.connect();
+
+        await expect(first.lock("writer")).resolves.toEqual({locked: true});
+        await expect(second.lock("writer")).resolves.toEqual({locked: false});
+        await expect(second.transact("Inventory", [{op: "assert", lock: "writer"}])).resolves.toEqual([{error: "not owner"}]);
+
+        const locked = new Promise((resolve) => second.once("locked", resolve));
+        await first.close();
+        await expect(locked).resolves.toEqual({method: "locked", params: ["writer"], id: null});
+        await expect(second.transact("Inventory", [{op: "assert", lock: "writer"}])).resolves.toEqual([{}]);
+    });
+
+    test("serves in-memory storage over a Unix socket", async () => {
+        const directory = await mkdtemp(join(tmpdir(), "node-ovsdb-server-"));
+        const socketPath = join(directory, "db.sock");
+        await using server = await new OvsdbServer({
+            storage: new OvsdbMemoryStorage({schemas: [schema]}),
+            remote: `punix:${socketPath}`
+        }).listen();
+        await using client = new OVSDBClient({socketPath, timeout: 1000});
+        await client.connect();
+
+        await client.transact("Inventory", [{op: "insert", table: "Host", row: {name: "db-1"}}]);
+        await expect(client.transact("Inventory", [
+            {op: "select", table: "Host", where: [], columns: ["name"]}
+        ])).resolves.toEqual([{rows: [{name: "db-1"}]}]);
+        expect(server.connections).toBe(1);
+    });
+});
@@ -0,0 +1,224 @@
+import type {Duplex} from "node:stream";
+
+import {describe, expect, expectTypeOf, test} from "vitest";
+
+import {OVSDBClient, OvsdbMemoryServer, OvsdbNotificationStream, OvsdbStreamOverflowError} from "../src";
+import type {
+    DatabaseSchema,
+    OvsdbNotification,
+    OvsdbStreamOptions,
+    OvsdbStreamSink,
+    Update2Notification,
+    Update3Notification,
+    UpdateNotification
+} from "../src";
+
+type TestDatabase = {
+    Bridge: {
+        name: string;
+        stp_priority: number;
+    };
+};
+
+const schema: DatabaseSchema = {
+    name: "Open_vSwitch",
+    version: "8.3.1",
+    tables: {
+        Bridge: {
+            columns: {
+                name: {type: "string"},
+                stp_priority: {type: "integer"}
+            },
+            isRoot: true
+        }
+    }
+};
+
+const ROW = "2f2b1c3e-7a4d-4e4a-9f0e-1d2c3b4a5f60";
+
+const open = (options: OvsdbStreamOptions): [OvsdbNotificationStream, OvsdbStreamSink<OvsdbNotification>] => {
+    let sink: OvsdbStreamSink<OvsdbNotification> | undefined;
+    const stream = new OvsdbNotificationStream((attached) => {
+        sink = attached;
+        return () => undefined;
+    }, options);
+    return [stream, sink!];
+};
+
+const drain = async <T>(stream: AsyncIterable<T>): Promise<T[]> => {
+    const values: T[] = [];
+    for await (const value of stream) {
+        values.push(value);
+    }
+    return values;
+};
+
+const update2 = (monitorId: string, row: Record<string, unknown>): Update2Notification => ({
+    method: "update2",
+    params: [monitorId, {Bridge: {[ROW]: row}}],
+    id: null
+});
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+    const deadline = Date.now() + 1000;
+    while (!condition() && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    expect(condition()).toBe(true);
+};
+
+describe("OvsdbNotificationStream", () => {
+    test("drops the oldest notifications when the buffer is full", async () => {
+        const [stream, sink] = open({bufferSize: 2, overflow: "dropOldest"});
+        for (const name of ["a", "b", "c"]) {
+            sink.push(update2("bridges", {modify: {name}}));
+        }
+        sink.end();
+
+        const values = await drain(stream);
+        expect(values.map((notification) => notification.params[1])).toEqual([
+            {Bridge: {[ROW]: {modify: {name: "b"}}}},
+            {Bridge: {[ROW]: {modify: {name: "c"}}}}
+        ]);
+        expect(stream.dropped).toBe(1);
+    });
+
+    test("fails after the buffered notifications under the error policy", async () => {
+        const [stream, sink] = open({bufferSize: 1});
+        sink.push(update2("bridges", {modify: {name: "a"}}));
+        sink.push(update2("bridges", {modify: {name: "b"}}));
+
+        await expect(stream.next()).resolves.toMatchObject({done: false});
+        await expect(stream.next()).rejects.toBeInstanceOf(OvsdbStreamOverflowError);
+        await expect(stream.next()).resolves.toEqual({value: undefined, done: true});
+    });
+
+    test("coalesces row updates of the same monitor", async () => {
+        const [stream, sink] = open({bufferSize: 2, overflow: "coalesce"});
+        sink.push(update2("bridges", {insert: {name: "br-int"}}));
+        sink.push(update2("ports", {modify: {name: "eth0"}}));
+        sink.push(update2("bridges", {modify: {stp_priority: 7}}));
+        sink.end();
+
+        expect(stream.size).toBe(2);
+        await expect(stream.next()).resolves.toEqual({
+            value: update2("bridges", {insert: {name: "br-int", stp_priority: 7}}),
+            done: false
+        });
+        await expect(stream.next()).resolves.toMatchObject({value: {params: ["ports", expect.anything()]}});
+        await expect(stream.next()).resolves.toMatchObject({done: true});
+    });
+
+    test("keeps the first old values and fails on updates it cannot combine", async () => {
+        const [stream, sink] = open({bufferSize: 1, overflow: "coalesce"});
+        sink.push({method: "update", params: ["plain", {Bridge: {[ROW]: {old: {stp_priority: 1}, new: {name: "a", stp_priority: 2}}}}], id: null});
+        sink.push({method: "update", params: ["plain", {Bridge: {[ROW]: {old: {stp_priority: 2}, new: {name: "a", stp_priority: 3}}}}], id: null});
+        await expect(stream.next()).resolves.toEqual({
+            value: {method: "update", params: ["plain", {Bridge: {[ROW]: {old: {stp_priority: 1}, new: {name: "a", stp_priority: 3}}}}], id: null},
+            done: false
+        });
+
+        sink.push(update2("bridges", {modify: {name: "b"}}));
+        sink.push(update2("bridges", {modify: {name: "c"}}));
+        await expect(stream.next()).resolves.toMatchObject({value: update2("bridges", {modify: {name: "b"}})});
+        await expect(stream.next()).rejects.toThrow("cannot coalesce update2 notification");
+    });
+
+    test("does not coalesce notifications with decoded table updates", async () => {
+        const [stream, sink] = open({bufferSize: 1, overflow: "coalesce"});
+        sink.push({...update2("bridges", {modify: {name: "a"}}), decoded: {Bridge: {[ROW]: {modify: {name: "a"}}}}});
+        sink.push({...update2("bridges", {modify: {stp_priority: 7}}), decoded: {Bridge: {[ROW]: {modify: {stp_priority: 7}}}}});
+
+        await expect(stream.next()).resolves.toMatchObject({value: update2("bridges", {modify: {name: "a"}})});
+        await expect(stream.next()).rejects.toThrow("cannot coalesce update2 notification");
+    });
+
+    test("ends without buffered values on return and abort", async () => {
+        const [stream, sink] = open({});
+        sink.push(update2("bridges", {modify: {name: "a"}}));
+        for await (const notification of stream) {
+            expect(notification.method).toBe("update2");
+            break;
+        }
+        expect(stream.size).toBe(0);
+
+        const controller = new AbortController();
+        const [aborted] = open({signal: controller.signal});
+        const pending = aborted.next();
+        controller.abort();
+        await expect(pending).resolves.toEqual({value: undefined, done: true});
+
+        expect(() => open({bufferSize: 0})).toThrow("Stream buffer size must be a positive integer, not 0");
+    });
+});
+
+describe("OVSDBClient notification streams", () => {
+    test("yields filtered notifications and ends when the client closes", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        const client = new OVSDBClient<TestDatabase>({connectionFactory: () => server.createConnection()});
+        await client.connect();
+
+        const updates = client.notifications({method: ["update", "update3"]});
+        expectTypeOf(updates).toEqualTypeOf<OvsdbNotificationStream<UpdateNotification<TestDatabase> | Update3Notification<TestDatabase>>>();
+        const plain = client.notifications({monitorId: "plain"});
+
+        await client.monitor("Open_vSwitch", "plain", {Bridge: {columns: ["name"]}});
+        await using since = await client.monitorCondSince("Open_vSwitch", "since", {Bridge: {columns: ["name"]}});
+        await client.monitorCond("Open_vSwitch", "cond", {Bridge: {columns: ["name"]}});
+        const fromSince = since.updates();
+        await client.table("Bridge").insert({name: "br-int", stp_priority: 0});
+
+        const seen = (async () => {
+            const methods: string[] = [];
+            for await (const notification of updates) {
+                methods.push(notification.method);
+            }
+            return methods;
+        })();
+        await expect(fromSince.next()).resolves.toMatchObject({value: {method: "update3"}});
+        await waitFor(() => plain.size === 1);
+
+        await client.close();
+        await expect(seen.then((methods) => methods.sort())).resolves.toEqual(["update", "update3"]);
+        await expect(drain(plain)).resolves.toHaveLength(1);
+        await expect(fromSince.next()).resolves.toEqual({value: undefined, done: true});
+        expect(since.active).toBe(false);
+    });
+
+    test("iterates over a subscription until it is cancelled", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        await using client = new OVSDBClient<TestDatabase>({connectionFactory: () => server.createConnection()});
+        await client.connect();
+
+        const bridges = await client.monitorCond("Open_vSwitch", "bridges", {Bridge: {columns: ["name"]}});
+        await client.table("Bridge").insert({name: "br-int", stp_priority: 0});
+
+        const names: unknown[] = [];
+        for await (const notification of bridges) {
+            expectTypeOf(notification).toEqualTypeOf<Update2Notification<TestDatabase>>();
+            names.push(...Object.values(notification.params[1].Bridge ?? {}).map((row) => row.insert?.name));
+            await bridges.cancel();
+        }
+        expect(names).toEqual(["br-int"]);
+    });
+
+    test("fails with the transport error when the connection is lost", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        let connection: Duplex | null = null;
+        await using client = new OVSDBClient<TestDatabase>({
+            connectionFactory: () => {
+                connection = server.createConnection();
+                return connection;
+            }
+        });
+        await client.connect();
+
+        const bridges = await client.monitorCond("Open_vSwitch", "bridges", {Bridge: {}});
+        const stream = client.notifications();
+        const subscriptionStream = bridges.updates();
+        connection!.destroy(new Error("connection reset"));
+
+        await expect(stream.next()).rejects.toThrow("connection reset");
+        await expect(subscriptionStream.next()).rejects.toThrow("connection reset");
+    });
+});
@@ -0,0 +1,69 @@
+import {describe, expect, test} from "vitest";
+
+import {redactColumns} from "../src";
+
+describe("redactColumns", () => {
+    const redact = redactColumns(["SSL.private_key", "external_ids"]);
+
+    test("masks rows, conditions, and mutations in transact requests", () => {
+        expect(redact({
+            method: "transact",
+            params: [
+                "Open_vSwitch",
+                {op: "insert", table: "SSL", row: {private_key: "KEY", certificate: "CERT"}},
+                {op: "update", table: "Bridge", where: [["external_ids", "includes", ["map", [["token", "secret"]]]]], row: {name: "br-int"}},
+                {op: "mutate", table: "Bridge", where: [], mutations: [["external_ids", "insert", ["map", [["token", "secret"]]]]]},
+                {op: "insert", table: "Bridge", row: {private_key: "not an SSL column"}}
+            ],
+            id: 1
+        }, {direction: "outbound", method: "transact"})).toEqual({
+            method: "transact",
+            params: [
+                "Open_vSwitch",
+                {op: "insert", table: "SSL", row: {private_key: "<redacted>", certificate: "CERT"}},
+                {op: "update", table: "Bridge", where: [["external_ids", "includes", "<redacted>"]], row: {name: "br-int"}},
+                {op: "mutate", table: "Bridge", where: [], mutations: [["external_ids", "insert", "<redacted>"]]},
+                {op: "insert", table: "Bridge", row: {private_key: "not an SSL column"}}
+            ],
+            id: 1
+        });
+    });
+
+    test("masks monitor updates by table", () => {
+        expect(redact({
+            method: "update3",
+            params: [
+                "monitor",
+                "txn-1",
+                {
+                    SSL: {row1: {modify: {private_key: "KEY"}}},
+                    Interface: {row2: {insert: {private_key: "kept", external_ids: ["map", []]}}}
+                }
+            ],
+            id: null
+        }, {direction: "inbound", method: "update3"})).toEqual({
+            method: "update3",
+            params: [
+                "monitor",
+                "txn-1",
+                {
+                    SSL: {row1: {modify: {private_key: "<redacted>"}}},
+                    Interface: {row2: {insert: {private_key: "kept", external_ids: "<redacted>"}}}
+                }
+            ],
+            id: null
+        });
+    });
+
+    test("masks every listed column when the table is unknown", () => {
+        expect(redact({
+            id: 4,
+            error: null,
+            result: [{rows: [{private_key: "KEY", name: "ssl"}]}]
+        }, {direction: "inbound", method: "transact"})).toEqual({
+            id: 4,
+            error: null,
+            result: [{rows: [{private_key: "<redacted>", name: "ssl"}]}]
+        });
+    });
+});
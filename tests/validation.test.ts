@@ -0,0 +1,115 @@
+import {describe, expect, test} from "vitest";
+
+import {OVSDBClient, OvsdbMemoryServer, OvsdbValidationError, validateOperations} from "../src";
+import type {DatabaseOperation, DatabaseSchema} from "../src";
+
+const schema: DatabaseSchema = {
+    name: "Open_vSwitch",
+    version: "8.3.1",
+    tables: {
+        Bridge: {
+            columns: {
+                name: {type: "string", mutable: false},
+                ports: {type: {key: {type: "uuid", refTable: "Port"}, min: 0, max: "unlimited"}},
+                datapath_type: {type: {key: {type: "string", enum: ["set", ["netdev", "system"]]}, min: 0, max: 1}},
+                flood_vlans: {type: {key: {type: "integer", minInteger: 0, maxInteger: 4095}, min: 0, max: 2}},
+                external_ids: {type: {key: "string", value: "string", min: 0, max: "unlimited"}},
+                description: {type: {key: {type: "string", maxLength: 8}, min: 0, max: 1}}
+            }
+        },
+        Port: {
+            columns: {
+                name: {type: "string"},
+                weight: {type: "real"}
+            }
+        }
+    }
+};
+
+const expectInvalid = (operations: DatabaseOperation[], operationIndex: number, reason: string | RegExp): void => {
+    let caught: unknown;
+    try {
+        validateOperations(schema, operations);
+    } catch (error) {
+        caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(OvsdbValidationError);
+    expect((caught as OvsdbValidationError).operationIndex).toBe(operationIndex);
+    expect((caught as OvsdbValidationError).reason).toMatch(reason);
+};
+
+describe("validateOperations", () => {
+    test("accepts well-formed operations including named-uuid references", () => {
+        expect(() => validateOperations(schema, [
+            {op: "insert", table: "Port", uuidName: "p", row: {name: "eth0", weight: 1}},
+            {
+                op: "insert",
+                table: "Bridge",
+                row: {name: "br0", ports: ["set", [["named-uuid", "p"]]], datapath_type: "netdev", flood_vlans: ["set", [1, 2]]}
+            },
+            {op: "mutate", table: "Bridge", where: [["name", "==", "br0"]], mutations: [["external_ids", "delete", ["set", ["owner"]]]]},
+            {op: "select", table: "Port", where: [["weight", ">=", 0.5]], columns: ["name"]},
+            {op: "wait", table: "Port", where: [], columns: ["name"], until: "==", rows: [{name: "eth0"}], timeout: 0},
+            {op: "commit", durable: false}
+        ])).not.toThrow();
+    });
+
+    test("rejects unknown tables and columns", () => {
+        expectInvalid([{op: "select", table: "Bridge", where: []}, {op: "delete", table: "Brigde", where: []}], 1, "table Brigde does not exist");
+        expectInvalid([{op: "insert", table: "Bridge", row: {nmae: "br0"}}], 0, "column nmae does not exist");
+        expectInvalid([{op: "select", table: "Bridge", where: [["nmae", "==", "br0"]]}], 0, "column nmae does not exist");
+    });
+
+    test("rejects values that violate the column type", () => {
+        expectInvalid([{op: "insert", table: "Bridge", row: {name: 5}}], 0, "column name: 5 is not a valid string");
+        expectInvalid([{op: "insert", table: "Bridge", row: {datapath_type: "dpdk"}}], 0, "is not one of the allowed values");
+        expectInvalid([{op: "insert", table: "Bridge", row: {flood_vlans: 5000}}], 0, "outside the range 0 to 4095");
+        expectInvalid([{op: "insert", table: "Bridge", row: {flood_vlans: ["set", [1, 2, 3]]}}], 0, "between 0 and 2 elements");
+        expectInvalid([{op: "insert", table: "Bridge", row: {description: "far too long"}}], 0, "between 0 and 8 characters");
+        expectInvalid([{op: "insert", table: "Bridge", row: {external_ids: ["set", []]}}], 0, "is not a valid map");
+    });
+
+    test("rejects illegal mutations and writes to immutable columns", () => {
+        expectInvalid([{op: "update", table: "Bridge", where: [], row: {name: "br1"}}], 0, "column name is immutable");
+        expectInvalid([{op: "mutate", table: "Bridge", where: [], mutations: [["name", "insert", "x"]]}], 0, "column name is immutable");
+        expectInvalid([{op: "mutate", table: "Port", where: [], mutations: [["name", "+=", 1]]}], 0, "mutator += is not supported by column name");
+        expectInvalid([{op: "mutate", table: "Port", where: [], mutations: [["weight", "%=", 2]]}], 0, "mutator %= is not supported");
+        expectInvalid([{op: "mutate", table: "Port", where: [], mutations: [["weight", "insert", 2]]}], 0, "scalar column weight");
+        expectInvalid([{op: "mutate", table: "Port", where: [], mutations: [["weight", "/=", 0]]}], 0, "divides by zero");
+        expectInvalid([{op: "mutate", table: "Bridge", where: [], mutations: [["flood_vlans", "%=", 0n]]}], 0, "divides by zero");
+        expectInvalid([{op: "select", table: "Bridge", where: [["name", "<", "b"]]}], 0, "function < is not supported");
+    });
+});
+
+describe("OVSDBClient validate option", () => {
+    test("rejects invalid operations before they reach the server", async () => {
+        await using server = new OvsdbMemoryServer({schemas: [schema]});
+        const requests: string[] = [];
+        await using client = new OVSDBClient({
+            validate: true,
+            connectionFactory: () => server.createConnection(),
+            trace: {
+                tracer: (event) => {
+                    if (event.direction === "outbound" && event.method) {
+                        requests.push(event.method);
+                    }
+                }
+            }
+        });
+        await client.connect();
+
+        await expect(client.transact("Open_vSwitch", [
+            {op: "insert", table: "Bridge", row: {name: "br0"}},
+            {op: "insert", table: "Bridge", row: {name: "br1", datapath_type: "dpdk"}}
+        ])).rejects.toThrow('Operation 1 (insert on Bridge): "dpdk" is not one of the allowed values for column datapath_type');
+        await expect(client.transaction("Open_vSwitch", (transaction) => {
+            transaction.update({op: "update", table: "Bridge", where: [], row: {name: "br2"}});
+        })).rejects.toBeInstanceOf(OvsdbValidationError);
+        await expect(client.transact("Open_vSwitch", [
+            {op: "insert", table: "Bridge", row: {name: "br0"}}
+        ])).resolves.toEqual([{uuid: ["uuid", expect.any(String)]}]);
+
+        expect(requests).toEqual(["get_schema", "transact"]);
+    });
+});